@@ -0,0 +1,218 @@
+import { z } from "zod";
+import { parseRequest } from "../engine/parser";
+import { ingestBodySchema, schemaParseError } from "../engine/schema";
+import { getProvider } from "../engine/providers";
+import { ingestParsed } from "../engine/ingest";
+import { checkRateLimit } from "../utils/ratelimit";
+import { errorStatus, getClientIP, jsonError, logError } from "./handler";
+import { ParseError, isParseError, type Env, type ParsedRequest } from "../types";
+
+/** Most items a single batch may name */
+export const MAX_BATCH_ITEMS = 10;
+
+/**
+ * Single-level details a batch item may ask for. `commits` and `full` need
+ * the combined formatter and are only served by /ingest.
+ */
+const BATCH_DETAILS = ["summary", "structure", "file-list", "file-contents"] as const;
+
+/** One entry of the POST /ingest/batch body: the location fields of an /ingest body */
+const batchItemSchema = ingestBodySchema
+  .pick({ repo: true, host: true, ref: true, path: true })
+  .required({ repo: true })
+  .extend({ detail: z.enum(BATCH_DETAILS).optional() })
+  .strict();
+
+export type BatchItem = z.infer<typeof batchItemSchema>;
+
+/** Outcome of one batch item; `status` follows the HTTP status /ingest would return */
+export interface BatchItemResult {
+  item: BatchItem;
+  status: number;
+  error?: string;
+  output?: string;
+}
+
+/** Field path of a batch item, or of one of its fields */
+function itemField(index: number, field?: string): string {
+  return field ? `${index}.${field}` : String(index);
+}
+
+/**
+ * Validates the request body and turns each item into a parsed request.
+ * Throws ParseError naming the first bad item; its field is the item's index
+ * in the array followed by the item's own field, e.g. "1.repo".
+ */
+export function parseBatchBody(body: unknown, env: Env): { items: BatchItem[]; parsed: ParsedRequest[] } {
+  if (!Array.isArray(body) || body.length === 0) {
+    throw new ParseError("Request body must be a non-empty JSON array of {repo, ref, path, detail} items.");
+  }
+  if (body.length > MAX_BATCH_ITEMS) {
+    throw new ParseError(`A batch may contain at most ${MAX_BATCH_ITEMS} items; got ${body.length}.`);
+  }
+
+  const items: BatchItem[] = [];
+  const parsed: ParsedRequest[] = [];
+  body.forEach((raw, i) => {
+    const label = `Item ${i + 1}`;
+    const checked = batchItemSchema.safeParse(raw);
+    if (!checked.success) {
+      const err = schemaParseError(checked.error);
+      throw new ParseError(`${label}: ${err.message}`, itemField(i, err.field));
+    }
+    const item = checked.data;
+
+    // Reuse the /ingest parser so items get the same validation as single requests
+    const url = new URL("https://gitprism.cloudemo.org/ingest");
+    url.searchParams.set("repo", item.repo);
+    if (item.host) url.searchParams.set("host", item.host);
+    if (item.ref) url.searchParams.set("ref", item.ref);
+    if (item.path) url.searchParams.set("path", item.path);
+    url.searchParams.set("detail", item.detail ?? "summary");
+    try {
+      parsed.push(parseRequest(new Request(url.toString()), env));
+    } catch (err) {
+      const field = isParseError(err) ? err.field : undefined;
+      throw new ParseError(`${label}: ${err instanceof Error ? err.message : String(err)}`, itemField(i, field));
+    }
+    items.push(item);
+  });
+
+  return { items, parsed };
+}
+
+/**
+ * Runs each item in order against a shared output budget. Once the budget is
+ * spent, the remaining items are reported as skipped rather than ingested.
+ */
+export async function runBatch(
+  items: BatchItem[],
+  parsed: ParsedRequest[],
+  tokens: (string | undefined)[],
+  env: Env,
+  maxOutputBytes: number
+): Promise<{ results: BatchItemResult[]; truncated: boolean }> {
+  const encoder = new TextEncoder();
+  const results: BatchItemResult[] = [];
+  let remaining = maxOutputBytes;
+  let truncated = false;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (remaining <= 0) {
+      truncated = true;
+      results.push({ item, status: 413, error: "Skipped: the batch output budget was used up by earlier items." });
+      continue;
+    }
+    try {
+      const output = await ingestParsed(parsed[i], parsed[i].detail[0], env, tokens[i], {
+        maxOutputBytes: remaining,
+      });
+      remaining -= encoder.encode(output).length;
+      results.push({ item, status: 200, output });
+    } catch (err) {
+      logError(err, `${parsed[i].owner}/${parsed[i].repo}`, parsed[i].ref);
+      const { status, message } = errorStatus(err);
+      results.push({ item, status, error: message });
+    }
+  }
+
+  return { results, truncated };
+}
+
+function itemLabel(item: BatchItem): string {
+  return item.host ? `${item.host}/${item.repo}` : item.repo;
+}
+
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Renders batch results as one Markdown document: a status table, then a
+ * section per successful item holding that item's usual /ingest output.
+ */
+export function formatBatch(results: BatchItemResult[], truncated: boolean): string {
+  const failed = results.filter((r) => r.status !== 200).length;
+  const lines: string[] = [
+    "# Batch Ingest",
+    "",
+    `${results.length} items, ${results.length - failed} succeeded, ${failed} failed.`,
+    "",
+    "| # | Repository | Ref | Detail | Status | Error |",
+    "|---|------------|-----|--------|--------|-------|",
+  ];
+  results.forEach((r, i) => {
+    lines.push(
+      `| ${i + 1} | ${tableCell(itemLabel(r.item))} | ${tableCell(r.item.ref ?? "default")} | ${r.item.detail ?? "summary"} | ${r.status} | ${tableCell(r.error ?? "")} |`
+    );
+  });
+  if (truncated) {
+    lines.push("", "<!-- [TRUNCATED] The batch output budget ran out; later items were skipped. -->");
+  }
+
+  results.forEach((r, i) => {
+    if (!r.output) return;
+    lines.push("", `## ${i + 1}. ${itemLabel(r.item)}`, "", r.output.trimEnd());
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Handler for POST /ingest/batch: ingests several repositories in one request.
+ * Each item whose forge has no user token costs one rate-limit unit, as the
+ * same request to /ingest would. Batches are not cached.
+ */
+export async function handleBatchIngest(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Use POST with a JSON array body." }), {
+      status: 405,
+      headers: { "Content-Type": "application/json", Allow: "POST" },
+    });
+  }
+
+  // ── 1. Parse and validate the body ────────────────────────────────────────
+  let items: BatchItem[];
+  let parsed: ParsedRequest[];
+  try {
+    ({ items, parsed } = parseBatchBody(await request.json(), env));
+  } catch (err) {
+    if (err instanceof SyntaxError) return jsonError(400, "Request body must be valid JSON.");
+    if (isParseError(err)) return jsonError(400, err.message, err.field ? { field: err.field } : undefined);
+    return jsonError(400, err instanceof Error ? err.message : "Invalid request.");
+  }
+
+  // ── 2. Tokens per item, read from each forge's own header ─────────────────
+  const tokens = parsed.map((p) => request.headers.get(getProvider(p.host, env).tokenHeader) ?? undefined);
+
+  // ── 3. Rate limit once per item without a user token ──────────────────────
+  const clientIP = getClientIP(request);
+  for (const token of tokens) {
+    if (token) continue;
+    const rateLimitResult = await checkRateLimit(env, clientIP);
+    if (!rateLimitResult.allowed) {
+      const retryAfter = rateLimitResult.retryAfter ?? 60;
+      return new Response(JSON.stringify({ error: "Rate limit exceeded", retryAfter }), {
+        status: 429,
+        headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+      });
+    }
+  }
+
+  // ── 4. Ingest items in order against a shared output budget ───────────────
+  const maxOutputBytes = parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10);
+  const { results, truncated } = await runBatch(items, parsed, tokens, env, maxOutputBytes);
+  const failed = results.filter((r) => r.status !== 200).length;
+
+  return new Response(formatBatch(results, truncated), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/markdown; charset=utf-8",
+      "X-Batch-Items": String(results.length),
+      "X-Batch-Failed": String(failed),
+      "X-Truncated": String(truncated),
+      "X-Cache": "MISS",
+    },
+  });
+}
@@ -1,20 +1,47 @@
-import { parseRequest } from "../engine/parser";
-import { resolveDefaultRef, checkZipSize, fetchZipball, resolveRefToSha, fetchCommits } from "../engine/fetcher";
-import { decompressAndProcess } from "../engine/decompressor";
-import { formatOutput, formatFileBlock, formatSummary, formatTree, formatCommits, formatCombinedOutput } from "../engine/formatter";
-import { buildResponseHeaders } from "../utils/headers";
+import { formatFromAccept, parseIngestBody, parseRequest } from "../engine/parser";
+import { getProvider } from "../engine/providers";
+import { decompressStream } from "../engine/decompressor";
+import { fetchBlob } from "../engine/blob";
+import { ingestPullRequest } from "../engine/pull";
+import { ingestCompare } from "../engine/compare";
+import { ingestCommit } from "../engine/commit";
+import { resolveRelease } from "../engine/release";
+import { splitParsedRefAndPath } from "../engine/refs";
+import { archiveLimitsFromEnv } from "../engine/limits";
+import {
+  formatOutput,
+  formatCommits,
+  formatCombinedOutput,
+  formatBlob,
+  formatPullRequest,
+  formatCompare,
+  formatCommit,
+  formatJson,
+  toTreeJson,
+  formatXml,
+  formatBlobXml,
+} from "../engine/formatter";
+import { buildResponseHeaders, contentType } from "../utils/headers";
 import { checkRateLimit } from "../utils/ratelimit";
 import { buildCacheKey, getCached, putCache } from "../utils/cache";
+import { encodeCursor } from "../utils/cursor";
 import {
   isParseError,
   isRepoNotFoundError,
   isZipTooLargeError,
+  isFileTooLargeError,
   isGitHubApiError,
+  isSourceApiError,
   isDecompressionError,
+  isUnsafeArchiveError,
+  JSON_SCHEMA_VERSION,
+  type CommitInfo,
+  type CommitResult,
   type Env,
+  type ReleaseInfo,
 } from "../types";
 
-function getClientIP(request: Request): string {
+export function getClientIP(request: Request): string {
   return (
     request.headers.get("CF-Connecting-IP") ??
     request.headers.get("X-Forwarded-For")?.split(",")[0].trim() ??
@@ -22,7 +49,7 @@ function getClientIP(request: Request): string {
   );
 }
 
-function jsonError(status: number, message: string, extra?: Record<string, unknown>): Response {
+export function jsonError(status: number, message: string, extra?: Record<string, unknown>): Response {
   return new Response(JSON.stringify({ error: message, ...extra }), {
     status,
     headers: { "Content-Type": "application/json" },
@@ -30,7 +57,62 @@ function jsonError(status: number, message: string, extra?: Record<string, unkno
 }
 
 /**
- * Main REST API handler for /ingest and /<github-url> routes.
+ * Maps a pipeline error to an HTTP status and a message safe to show callers.
+ */
+export function errorStatus(err: unknown): { status: number; message: string } {
+  if (isRepoNotFoundError(err)) {
+    return { status: 404, message: (err as Error).message };
+  }
+  if (isZipTooLargeError(err) || isFileTooLargeError(err)) {
+    return { status: 413, message: (err as Error).message };
+  }
+  if (isGitHubApiError(err)) {
+    const apiErr = err as { status: number; message: string };
+    return { status: apiErr.status === 403 ? 429 : 502, message: apiErr.message };
+  }
+  if (isSourceApiError(err)) {
+    return { status: err.status === 429 || err.status === 403 ? err.status : 502, message: err.message };
+  }
+  if (isUnsafeArchiveError(err)) {
+    return { status: err.status, message: `Refusing to process repository archive: ${err.message}` };
+  }
+  if (isDecompressionError(err)) {
+    return { status: 422, message: `Failed to process repository archive: ${(err as Error).message}` };
+  }
+  if (isParseError(err)) {
+    return { status: 400, message: (err as Error).message };
+  }
+  // Unexpected error
+  return { status: 500, message: "Internal server error" };
+}
+
+/**
+ * Logs a pipeline error and maps it to a JSON error response.
+ */
+function errorResponse(err: unknown, repoName: string, ref?: string): Response {
+  logError(err, repoName, ref);
+  const { status, message } = errorStatus(err);
+  return jsonError(status, message);
+}
+
+/**
+ * Logs error details for observability.
+ */
+export function logError(err: unknown, repoName: string, ref?: string): void {
+  const errorLog = {
+    event: "error",
+    repo: repoName,
+    ref,
+    errorType: err instanceof Error ? err.name : "Unknown",
+    errorMessage: err instanceof Error ? err.message : String(err),
+    stack: err instanceof Error ? err.stack : undefined,
+  };
+  console.error(JSON.stringify(errorLog));
+}
+
+/**
+ * Main REST API handler for /ingest (query string, or POST with a JSON body)
+ * and /<github-url> routes.
  */
 export async function handleIngest(
   request: Request,
@@ -42,23 +124,46 @@ export async function handleIngest(
   console.log("[INGEST] Request received:", request.url);
 
   // ── 1. Parse request ──────────────────────────────────────────────────────
+  // POST /ingest takes the same options as a JSON body, which keeps tokens out of URLs
+  const isJsonBody = request.method === "POST" && new URL(request.url).pathname === "/ingest";
   let parsed;
   try {
-    parsed = parseRequest(request);
+    if (isJsonBody) {
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return jsonError(400, "Request body must be valid JSON.");
+      }
+      parsed = parseIngestBody(body, env);
+    } else {
+      parsed = parseRequest(request, env);
+    }
     console.log("[INGEST] Parsed request:", { owner: parsed.owner, repo: parsed.repo, detail: parsed.detail, ref: parsed.ref });
   } catch (err) {
     console.error("[INGEST] Parse error:", err);
     if (isParseError(err)) {
-      return jsonError(400, (err as Error).message);
+      return jsonError(400, err.message, err.field ? { field: err.field } : undefined);
     }
     return jsonError(400, "Invalid request.");
   }
 
-  // ── 2. Extract user-provided GitHub token ─────────────────────────────────
-  const userToken = request.headers.get("X-GitHub-Token") ?? undefined;
+  // ── 2. Extract user-provided forge token ──────────────────────────────────
+  const provider = getProvider(parsed.host, env);
+  const userToken = parsed.userToken ?? request.headers.get(provider.tokenHeader) ?? undefined;
   parsed.userToken = userToken;
+  const tokenSource = userToken ? "user" : provider.hasServerToken ? "server" : "none";
 
-  const { owner, repo, detail, noCache, ref: originalRef } = parsed;
+  // An explicit format wins over the Accept header
+  parsed.format ??= formatFromAccept(request.headers.get("Accept")) ?? "markdown";
+  const { owner, repo, detail, noCache, format } = parsed;
+  let originalRef = parsed.ref;
+
+  // XML lays out files as documents, so it needs a tree or a single file
+  const commitsOnly = detail.every((d) => d === "commits");
+  if (format === "xml" && (parsed.pull || parsed.compare || (parsed.commit && !parsed.commit.includeTree) || commitsOnly)) {
+    return jsonError(400, "format=xml is available for repository trees and single files only.", { field: "format" });
+  }
 
   // ── 3. Rate limit — skip when user supplies their own token ───────────────
   console.log("[INGEST] Checking rate limit, userToken:", !!userToken);
@@ -82,19 +187,155 @@ export async function handleIngest(
     }
   }
 
+  // ── 4a. Pull requests: diff mode, not cached because the head moves ─────────
+  if (parsed.pull) {
+    try {
+      const pr = await ingestPullRequest(
+        provider,
+        owner,
+        repo,
+        parsed.pull.number,
+        {
+          includeContents: parsed.pull.includeContents,
+          include: parsed.include,
+          exclude: parsed.exclude,
+          maxOutputBytes: parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10),
+          maxFileCount: parseInt(env.MAX_FILE_COUNT ?? "5000", 10),
+        },
+        userToken
+      );
+
+      console.log(JSON.stringify({
+        event: "ingest",
+        repo: `${owner}/${repo}`,
+        pull: pr.number,
+        headSha: pr.headSha,
+        detail: "pull",
+        fileCount: pr.files.length,
+        truncated: pr.truncated,
+        tokenSource,
+        latencyMs: Date.now() - startTime,
+      }));
+
+      const body = format === "json"
+        ? formatJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "pull", ...pr })
+        : formatPullRequest(pr);
+      return new Response(body, {
+        status: 200,
+        headers: {
+          "Content-Type": contentType(format),
+          "X-Repo": `${owner}/${repo}`,
+          "X-Ref": pr.headRef,
+          "X-Commit-Sha": pr.headSha,
+          "X-File-Count": String(pr.files.length),
+          "X-Truncated": String(pr.truncated),
+          "X-Cache": "MISS",
+          "X-Token-Source": tokenSource,
+        },
+      });
+    } catch (err) {
+      return errorResponse(err, `${owner}/${repo}#${parsed.pull.number}`);
+    }
+  }
+
+  // ── 4b. Compare: changeset between two refs, not cached because branches move ─
+  if (parsed.compare) {
+    const { base, head } = parsed.compare;
+    try {
+      const comparison = await ingestCompare(
+        provider,
+        owner,
+        repo,
+        base,
+        head,
+        {
+          path: parsed.path,
+          include: parsed.include,
+          exclude: parsed.exclude,
+          includeGenerated: parsed.includeGenerated,
+          maxOutputBytes: parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10),
+          maxFileCount: parseInt(env.MAX_FILE_COUNT ?? "5000", 10),
+        },
+        userToken
+      );
+
+      console.log(JSON.stringify({
+        event: "ingest",
+        repo: `${owner}/${repo}`,
+        base,
+        head,
+        detail: "compare",
+        fileCount: comparison.files.length,
+        truncated: comparison.truncated,
+        tokenSource,
+        latencyMs: Date.now() - startTime,
+      }));
+
+      const body = format === "json"
+        ? formatJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "compare", ...comparison })
+        : formatCompare(comparison);
+      return new Response(body, {
+        status: 200,
+        headers: {
+          "Content-Type": contentType(format),
+          "X-Repo": `${owner}/${repo}`,
+          "X-Ref": `${base}...${head}`,
+          "X-File-Count": String(comparison.files.length),
+          "X-Truncated": String(comparison.truncated),
+          "X-Cache": "MISS",
+          "X-Token-Source": tokenSource,
+        },
+      });
+    } catch (err) {
+      return errorResponse(err, `${owner}/${repo}`, `${base}...${head}`);
+    }
+  }
+
+  // ── 4c. Releases: ingest the tag the release points at ─────────────────────
+  let release: ReleaseInfo | undefined;
+  if (parsed.release) {
+    try {
+      release = await resolveRelease(provider, owner, repo, parsed.release.tag, userToken);
+    } catch (err) {
+      return errorResponse(err, `${owner}/${repo}`, parsed.release.tag ?? "latest release");
+    }
+    if (release) {
+      originalRef = release.tag;
+      parsed.ref = release.tag;
+    }
+  }
+
+  // ── 4d. Split a slash-containing ref from the path ───────────────────────────
+  if (parsed.refAndPath) {
+    let split: { ref: string; path?: string; cached: boolean };
+    try {
+      split = await splitParsedRefAndPath(provider, parsed, parsed.refAndPath, userToken, { ctx, noCache });
+    } catch (err) {
+      return errorResponse(err, `${owner}/${repo}`, originalRef);
+    }
+    console.log("[INGEST] Ref split:", { refAndPath: parsed.refAndPath, ...split });
+    originalRef = split.ref;
+    parsed.ref = split.ref;
+    parsed.path = split.path;
+  }
+
   // ── 4. Resolve ref to commit SHA ────────────────────────────────────────────
   console.log("[INGEST] Resolving ref, originalRef:", originalRef);
   let resolvedRef: string | undefined;
   let resolvedSha: string | undefined;
 
-  if (!originalRef) {
+  if (parsed.cursor) {
+    // Later pages are pinned to the commit the first page was served from
+    resolvedRef = parsed.cursor.ref;
+    resolvedSha = /^[0-9a-f]{40}$/i.test(parsed.cursor.ref) ? parsed.cursor.ref : undefined;
+  } else if (!originalRef) {
     console.log("[INGEST] No ref provided, resolving default branch");
-    resolvedRef = await resolveDefaultRef(owner, repo, env, userToken);
+    resolvedRef = await provider.resolveDefaultRef(owner, repo, userToken);
     console.log("[INGEST] Default branch resolved:", resolvedRef);
-    resolvedSha = await resolveRefToSha(owner, repo, resolvedRef, env, userToken);
+    resolvedSha = await provider.resolveRefToSha(owner, repo, resolvedRef, userToken);
   } else {
     resolvedRef = originalRef;
-    resolvedSha = await resolveRefToSha(owner, repo, originalRef, env, userToken);
+    resolvedSha = await provider.resolveRefToSha(owner, repo, originalRef, userToken);
   }
   console.log("[INGEST] Ref resolved:", { resolvedRef, resolvedSha });
 
@@ -129,29 +370,131 @@ export async function handleIngest(
     }
     
     const ref = resolvedRef;
+
+    // Blob URLs fetch just the one file and skip the archive entirely
+    if (parsed.blob && parsed.path) {
+      const blob = await fetchBlob(
+        provider,
+        { owner, repo, ref, sha: resolvedSha, path: parsed.path, lines: parsed.blob.lines },
+        userToken
+      );
+      const headers = new Headers({
+        "Content-Type": contentType(format),
+        "X-Repo": `${owner}/${repo}`,
+        "X-Ref": ref,
+        "X-Commit-Sha": resolvedSha ?? "",
+        "X-Cache": "MISS",
+        "X-Token-Source": tokenSource,
+      });
+
+      console.log(JSON.stringify({
+        event: "ingest",
+        repo: `${owner}/${repo}`,
+        ref,
+        resolvedSha,
+        detail: "blob",
+        path: blob.path,
+        lines: blob.lines,
+        tokenSource,
+        latencyMs: Date.now() - startTime,
+      }));
+
+      const body = format === "json"
+        ? formatJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "blob", ...blob })
+        : format === "xml" ? formatBlobXml(blob) : formatBlob(blob);
+      const response = new Response(body, { status: 200, headers });
+      if (cachingEnabled && !noCache) {
+        const cacheTtl = parseInt(env.CACHE_TTL_SECONDS ?? "86400", 10);
+        putCache(cacheKey, response.clone(), cacheTtl, ctx);
+      }
+      return response;
+    }
+
+    // Commit URLs lead with the commit and its patch; the tree follows only on request
+    let commitBlock: string | undefined;
+    let commit: CommitResult | undefined;
+    if (parsed.commit) {
+      commit = await ingestCommit(
+        provider,
+        owner,
+        repo,
+        resolvedSha ?? ref,
+        {
+          path: parsed.path,
+          include: parsed.include,
+          exclude: parsed.exclude,
+          maxOutputBytes: parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10),
+          maxFileCount: parseInt(env.MAX_FILE_COUNT ?? "5000", 10),
+        },
+        userToken
+      );
+      commitBlock = formatCommit(commit);
+
+      if (!parsed.commit.includeTree) {
+        const headers = new Headers({
+          "Content-Type": contentType(format),
+          "X-Repo": `${owner}/${repo}`,
+          "X-Ref": ref,
+          "X-Commit-Sha": commit.sha,
+          "X-File-Count": String(commit.files.length),
+          "X-Truncated": String(commit.truncated),
+          "X-Cache": "MISS",
+          "X-Token-Source": tokenSource,
+        });
+
+        console.log(JSON.stringify({
+          event: "ingest",
+          repo: `${owner}/${repo}`,
+          ref,
+          resolvedSha,
+          detail: "commit",
+          fileCount: commit.files.length,
+          truncated: commit.truncated,
+          tokenSource,
+          latencyMs: Date.now() - startTime,
+        }));
+
+        const body = format === "json"
+          ? formatJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "commit", ...commit })
+          : commitBlock;
+        const response = new Response(body, { status: 200, headers });
+        if (cachingEnabled && !noCache) {
+          const cacheTtl = parseInt(env.CACHE_TTL_SECONDS ?? "86400", 10);
+          putCache(cacheKey, response.clone(), cacheTtl, ctx);
+        }
+        return response;
+      }
+    }
+
     const hasCommits = detail.includes("commits") || detail.includes("full");
     const nonCommitsDetails = detail.filter(d => d !== "commits");
     const hasNonCommitsDetails = nonCommitsDetails.length > 0;
     
     // Fetch commits data if requested
-    let commitsData: { owner: string; repo: string; ref: string; commits: Awaited<ReturnType<typeof fetchCommits>> } | undefined;
+    let commitsData: { owner: string; repo: string; ref: string; commits: CommitInfo[] } | undefined;
     if (hasCommits) {
       console.log("[INGEST] Fetching commits");
-      const commits = await fetchCommits(owner, repo, resolvedRef, env, userToken, parsed.path);
+      const commits = await provider.fetchCommits(owner, repo, resolvedRef, userToken, parsed.path);
       console.log("[INGEST] Fetched commits:", commits.length);
       commitsData = { owner, repo, ref: resolvedRef, commits };
     }
     
     // If only commits requested, return early
     if (!hasNonCommitsDetails && commitsData) {
-      const content = formatCommits(commitsData.owner, commitsData.repo, commitsData.ref, commitsData.commits);
+      let content: string;
+      if (format === "json") {
+        content = formatJson({ schemaVersion: JSON_SCHEMA_VERSION, kind: "commits", ...commitsData });
+      } else {
+        const commitsTable = formatCommits(commitsData.owner, commitsData.repo, commitsData.ref, commitsData.commits);
+        content = commitBlock ? commitBlock + "\n" + commitsTable : commitsTable;
+      }
       const headers = new Headers({
-        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Type": contentType(format),
         "X-Repo": `${owner}/${repo}`,
         "X-Ref": resolvedRef,
         "X-Commit-Sha": resolvedSha ?? "",
         "X-Cache": "MISS",
-        "X-Token-Source": userToken ? "user" : env.GITHUB_TOKEN ? "server" : "none",
+        "X-Token-Source": tokenSource,
       });
       
       console.log(JSON.stringify({
@@ -160,7 +503,7 @@ export async function handleIngest(
         ref: resolvedRef,
         detail: "commits",
         commitCount: commitsData.commits.length,
-        tokenSource: userToken ? "user" : env.GITHUB_TOKEN ? "server" : "none",
+        tokenSource,
         latencyMs: Date.now() - startTime,
       }));
       
@@ -169,30 +512,35 @@ export async function handleIngest(
     
     // Fetch and process zipball for non-commits detail levels
     console.log("[INGEST] Checking zip size");
-    await checkZipSize(owner, repo, ref, env, userToken);
+    await provider.checkArchiveSize(owner, repo, ref, userToken);
     console.log("[INGEST] Zip size check passed");
     
-    console.log("[INGEST] Fetching zipball");
-    const { data: zipData, rateLimitRemaining, rateLimitReset } = await fetchZipball(
-      owner,
-      repo,
-      ref,
-      env,
-      userToken
-    );
-    console.log("[INGEST] Zipball fetched, size:", zipData.length);
+    console.log("[INGEST] Streaming archive from", provider.kind);
+    const { body: zipStream, rateLimitRemaining, rateLimitReset } = await provider.fetchArchive(owner, repo, ref, userToken);
     
-    // Decompress and process
+    // Decompress and process while the archive downloads
     const maxOutputBytes = parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10);
     const maxFileCount = parseInt(env.MAX_FILE_COUNT ?? "5000", 10);
     
-    // For combined mode, use "file-contents" detail level for processing to get all file data
-    const processingDetail = nonCommitsDetails.length === 1 ? nonCommitsDetails[0] : "file-contents";
-    const result = decompressAndProcess(zipData, {
+    // For combined mode, use "file-contents" detail level for processing to get all file data.
+    // JSON and XML always list files with their line counts, and carry contents only when asked.
+    const wantsContents = nonCommitsDetails.some((d) => d === "file-contents" || d === "full");
+    const processingDetail = format !== "markdown"
+      ? (wantsContents ? "file-contents" : "file-list")
+      : nonCommitsDetails.length === 1 ? nonCommitsDetails[0] : "file-contents";
+    const result = await decompressStream(zipStream, {
       subpath: parsed.path,
+      include: parsed.include,
+      exclude: parsed.exclude,
+      includeGenerated: parsed.includeGenerated,
       detail: processingDetail,
       maxOutputBytes,
       maxFileCount,
+      maxTokens: parsed.maxTokens,
+      order: parsed.order,
+      offset: parsed.cursor?.offset,
+      page: parsed.page,
+      limits: archiveLimitsFromEnv(env),
     });
     
     // Fill in metadata from parsed request
@@ -200,6 +548,23 @@ export async function handleIngest(
     result.repo = repo;
     result.repoName = `${owner}/${repo}`;
     result.ref = originalRef ?? ref;
+    result.path = parsed.path;
+    result.release = release;
+    if (!result.description && provider.fetchDescription) {
+      result.description = await provider.fetchDescription(owner, repo, resolvedSha ?? ref, userToken);
+    }
+
+    // Point at the page after this one
+    if (result.nextOffset !== undefined) {
+      result.nextCursor = encodeCursor({ repo: result.repoName, ref: resolvedSha ?? ref, offset: result.nextOffset });
+      // A JSON body cannot be replayed from a URL; those callers resend with the cursor
+      if (!isJsonBody) {
+        const nextUrl = new URL(request.url);
+        nextUrl.searchParams.set("cursor", result.nextCursor);
+        nextUrl.searchParams.delete("page");
+        result.nextPageUrl = nextUrl.toString();
+      }
+    }
     
     // Build response headers
     const headers = buildResponseHeaders({
@@ -208,12 +573,10 @@ export async function handleIngest(
       rateLimitReset,
       cacheStatus: "MISS",
       commitSha: resolvedSha,
+      format,
     });
     
-    headers.set(
-      "X-Token-Source",
-      userToken ? "user" : env.GITHUB_TOKEN ? "server" : "none"
-    );
+    headers.set("X-Token-Source", tokenSource);
     
     // Log event
     console.log(JSON.stringify({
@@ -226,75 +589,24 @@ export async function handleIngest(
       cacheHit: false,
       fileCount: result.fileCount,
       totalSize: result.totalSize,
+      totalTokens: result.totalTokens,
       truncated: result.truncated,
       rateLimitRemaining,
       latencyMs: Date.now() - startTime,
-      tokenSource: userToken ? "user" : env.GITHUB_TOKEN ? "server" : "none",
+      tokenSource,
     }));
     
-    // Build content based on detail levels
+    // Build content based on detail levels. The ranked order and the summary
+    // need every entry, so the body is formatted once decompression finishes.
     let content: string;
-    const isSingleFileContents = nonCommitsDetails.length === 1 && nonCommitsDetails[0] === "file-contents" && !hasCommits;
-    
-    if (isSingleFileContents) {
-      // Keep streaming for single "file-contents" detail level (backward compatibility)
-      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-      const writer = writable.getWriter();
-      const encoder = new TextEncoder();
-      
-      const summaryBlock = formatSummary(result);
-      const treeBlock = formatTree(result.files);
-      const header =
-        summaryBlock + "\n## Directory Structure\n\n" + treeBlock + "\n## File Contents\n\n";
-      
-      ctx.waitUntil(
-        (async () => {
-          try {
-            await writer.write(encoder.encode(header));
-            for (const file of result.files) {
-              try {
-                await writer.write(encoder.encode(formatFileBlock(file)));
-              } catch (writeErr) {
-                console.error("Error writing file block:", writeErr);
-              }
-            }
-            if (result.truncated && result.truncationMessage) {
-              await writer.write(encoder.encode("\n" + result.truncationMessage + "\n"));
-            }
-          } catch (streamErr) {
-            console.error("Streaming error:", streamErr);
-          } finally {
-            try {
-              await writer.close();
-            } catch {
-              // Ignore close errors
-            }
-          }
-        })()
+    if (format === "json") {
+      content = formatJson(
+        toTreeJson(result, { host: provider.host, sha: resolvedSha, commits: commitsData?.commits, commit })
       );
-      
-      const response = new Response(readable, { headers });
-      
-      // Cache a non-streaming clone
-      let fullContent: string;
-      try {
-        fullContent = formatOutput(result, "file-contents");
-      } catch (formatErr) {
-        console.error("Error formatting output for cache:", formatErr);
-        return response;
-      }
-      
-      const cacheableResponse = new Response(fullContent, {
-        status: 200,
-        headers: new Headers(headers),
+    } else if (format === "xml") {
+      content = formatXml(result, nonCommitsDetails, {
+        host: provider.host, sha: resolvedSha, commits: commitsData?.commits, commit,
       });
-      
-      if (cachingEnabled && !noCache) {
-        const cacheTtl = parseInt(env.CACHE_TTL_SECONDS ?? "86400", 10);
-        putCache(cacheKey, cacheableResponse, cacheTtl, ctx);
-      }
-      
-      return response;
     } else {
       // Combined mode or single non-full detail level
       if (hasCommits || nonCommitsDetails.length > 1) {
@@ -305,6 +617,7 @@ export async function handleIngest(
         content = formatOutput(result, nonCommitsDetails[0]);
       }
     }
+    if (commitBlock && format === "markdown") content = commitBlock + "\n" + content;
     
     const response = new Response(content, { status: 200, headers });
     
@@ -316,35 +629,6 @@ export async function handleIngest(
     
     return response;
   } catch (err) {
-    // Log error details for observability
-    const errorLog = {
-      event: "error",
-      repo: `${owner}/${repo}`,
-      ref: resolvedRef,
-      errorType: err instanceof Error ? err.name : "Unknown",
-      errorMessage: err instanceof Error ? err.message : String(err),
-      stack: err instanceof Error ? err.stack : undefined,
-    };
-    console.error(JSON.stringify(errorLog));
-
-    if (isRepoNotFoundError(err)) {
-      return jsonError(404, (err as Error).message);
-    }
-    if (isZipTooLargeError(err)) {
-      return jsonError(413, (err as Error).message);
-    }
-    if (isGitHubApiError(err)) {
-      const apiErr = err as { status: number; message: string };
-      const status = apiErr.status === 403 ? 429 : 502;
-      return jsonError(status, apiErr.message);
-    }
-    if (isDecompressionError(err)) {
-      return jsonError(422, `Failed to process repository archive: ${(err as Error).message}`);
-    }
-    if (isParseError(err)) {
-      return jsonError(400, (err as Error).message);
-    }
-    // Unexpected error
-    return jsonError(500, "Internal server error");
+    return errorResponse(err, `${owner}/${repo}`, resolvedRef);
   }
 }
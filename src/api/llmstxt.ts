@@ -1,21 +1,43 @@
 const LLMS_TXT = `# GitPrism
-> Convert public GitHub repositories into LLM-ready Markdown.
+> Convert public GitHub, GitLab, and Bitbucket repositories into LLM-ready Markdown.
 
 ## API
 GET https://gitprism.cloudemo.org/ingest?repo={owner/repo}&ref={branch}&path={subdir}&detail={level}
 
 ## Parameters
-- repo (required): GitHub owner/repo, e.g. "cloudflare/workers-sdk"
+Query parameter names are kebab-case; the JSON body and MCP tool use the same names in snake_case.
+- repo (required): GitHub owner/repo, e.g. "cloudflare/workers-sdk", or a GitLab project path, e.g. "group/subgroup/repo"
+- host (optional): github.com (default), gitlab.com, bitbucket.org, or a self-hosted GitHub Enterprise/Gitea/Forgejo host the operator has allowlisted
 - ref (optional): Branch, tag, or commit SHA. Defaults to the repo's default branch.
 - path (optional): Subdirectory to scope results to, e.g. "src/components"
+- include (optional): Comma-separated globs a file must match, relative to the repo root, e.g. "src/**/*.ts"
+- exclude (optional): Comma-separated globs that drop matching files, e.g. "**/*.test.ts,fixtures/**"
+- max-tokens (optional): Estimated token budget for file contents; replaces the byte-based output limit. max_tokens is accepted as an alias
+- order (optional): ranked (default; READMEs, manifests, and entry points first), path, or size. Decides which files survive truncation
+- cursor (optional): Value of X-Next-Cursor from a truncated response; returns the next page of files from the same commit
+- page (optional): Page number to jump to, counted from cursor (or from the first file)
+- include-generated (optional): Set to "true" to keep files .gitattributes marks as linguist-generated, linguist-vendored, linguist-documentation, or export-ignore (dropped by default)
 - detail (optional): One or more of: summary, structure, file-list, file-contents, commits, full. Defaults to summary.
+- format (optional): markdown (default), json, or xml. Accept: application/json or application/xml also selects the format.
+
+## JSON Output
+?format=json returns {schemaVersion: 1, kind, ...}. kind "tree" (repositories): host, owner, repo, ref, sha, path, description, release, fileCount, totalSize, totalTokens, files[{path, size, lines, tokens, language, content?}], commits?, truncated, truncationMessage, nextCursor, nextPageUrl. File contents appear only with detail file-contents or full. Other kinds: commits, blob, pull, compare, commit, each carrying that result's fields.
+
+## XML Output
+?format=xml returns <documents> with <repository> metadata (name, host, ref, sha, path, file_count, total_size), <directory_structure>, <files>, and <commits> as the detail levels ask, then one <document index="n"><source>path</source><document_content>…</document_content></document> per file for file-contents or full. Text is entity-escaped. Available for repository trees and blob URLs.
+
+## JSON Body
+POST https://gitprism.cloudemo.org/ingest
+Content-Type: application/json
+{"repo": "owner/repo", "ref": "main", "path": "src", "detail": ["summary", "structure"], "include": ["src/**/*.ts"], "github_token": "..."}
+Use "url" (any forge URL, as for the MCP tool) instead of "repo" to target blobs, pull requests, compares, commits, releases, or gists. A forge URL carries its own host, ref, and path: host, ref, base, and head are rejected alongside it, and so is path except for compare, commit, and release URLs. Option names match the MCP tool (include_generated, max_tokens, order, cursor, include_contents, github_token, gitlab_token, bitbucket_token), plus host, ref, path, base, head, lines, page, and no_cache. Globs are arrays, so commas need no escaping, and tokens stay out of URLs. Invalid bodies get a 400 with {"error", "field"} naming the bad field.
 
 ## Detail Levels
 Each detail level includes a clear Markdown headline for readability when combined:
 - summary: Repo metadata (name, ref, file count, total size)
 - structure: ASCII directory tree
-- file-list: Table with file paths, sizes, and line counts
-- file-contents: Complete file contents in fenced code blocks (streamed for single selection)
+- file-list: Table with file paths, sizes, line counts, and estimated tokens
+- file-contents: Complete file contents in fenced code blocks. Each fence is longer than any backtick run in its file, so embedded triple-backtick fences never end a block early
 - commits: Last 10 commit messages with SHA, author, date, and message
 - full: All of the above combined (equivalent to selecting all detail levels)
 
@@ -35,27 +57,71 @@ Supported keys: ?summary, ?structure, ?file-list, ?file-contents, ?commits, ?ful
 
 ## URL Proxy Shorthand
 GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/tree/{ref}/{path}
+GET https://gitprism.cloudemo.org/https://gitlab.com/{group}/{repo}/-/tree/{ref}/{path}
+GET https://gitprism.cloudemo.org/https://bitbucket.org/{workspace}/{repo}/src/{ref}/{path}
+GET https://gitprism.cloudemo.org/https://gist.github.com/{user}/{gist_id}[/{revision}]
 Append ?summary, ?structure, ?file-list, ?file-contents, ?commits, or ?full to control output detail.
+Refs may contain slashes (/tree/feature/login-form/src); the longest matching branch or tag wins, reported in X-Ref and X-Path.
+Gists are ingested like repositories (the gist ID stands in for the repo name); the gist description appears in the summary front matter.
+
+## Single Files
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/blob/{ref}/{file}?lines=10-80
+Blob URLs (GitHub /blob/, GitLab /-/blob/) return only that file, or only the selected lines, as a fenced block with its path, ref, and a permalink. The whole repository is not downloaded. Fragments are not sent over HTTP, so pass ?lines=10-80 or encode the fragment as %23L10-L80. The MCP tool accepts blob URLs with #L10-L80 as-is.
+
+## Pull Requests
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/pull/{number}
+Returns the PR title, description, base/head refs, changed files with additions and deletions, and a unified diff per file. Add include-contents=true for the post-change contents of only the touched files; include/exclude globs narrow the files. Not cached.
+
+## Comparing Refs
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/compare/{base}...{head}?path={path}
+GET https://gitprism.cloudemo.org/ingest?repo={owner}/{repo}&base={base}&head={head}
+Returns the commits in range, a changed-file table with status (added, modified, removed, renamed), and a unified diff per file. path, include/exclude globs, the default ignore list, and the repo's .gitignore, .gitattributes, and .gitprismignore at head scope the files. GitHub lists at most 300 files; a comparison at that cap is marked truncated. Not cached.
+
+## Commits
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/commit/{sha}
+Returns the full commit message, author, committer, parents, and a unified diff per changed file. Add ?detail=structure (or any other level) to also get the tree at that commit after the patch.
+
+## Releases
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/releases/latest
+GET https://gitprism.cloudemo.org/https://github.com/{owner}/{repo}/releases/tag/{tag}
+Ingests the code at the release's tag. A release section (name, publish date, notes, assets) comes before the summary, structure, and contents.
+
+## Batch
+POST https://gitprism.cloudemo.org/ingest/batch
+Body: JSON array of up to 10 {repo, host?, ref?, path?, detail?} items; detail is summary, structure, file-list, or file-contents. An invalid item gets a 400 with {"error", "field"}, where field is the item's index and field, e.g. "1.repo".
+Returns one Markdown document: a status table (HTTP-style code and error per item), then a "## N. owner/repo" section per successful item. Items share one output budget; items after it runs out are skipped with status 413. Each item without a forge token counts as one request against the rate limit. Not cached.
 
 ## Authentication (Optional)
 Provide a GitHub personal access token to bypass shared rate limits and use your personal GitHub quota (5,000 req/hr instead of 30 req/min):
 - Header: X-GitHub-Token: <your-token>
 - Token requirements: Contents: Read-only access to public repositories
 - Create token: https://github.com/settings/tokens?type=beta
+- GitLab: X-GitLab-Token: <your-token> (read_repository scope)
+- Bitbucket: X-Bitbucket-Token: <access-token or username:app-password>
+- Self-hosted forges: X-Forge-Token: <your-token>
 - Response header X-Token-Source indicates which token was used: "user", "server", or "none"
 
 ## MCP Server
 Connect to: https://gitprism.cloudemo.org/mcp
-Tool: ingest_repo(url, detail, github_token?)
-- url: GitHub URL or owner/repo shorthand
+Tool: ingest_repo(url, detail, include?, exclude?, include_generated?, max_tokens?, order?, cursor?, include_contents?, github_token?, gitlab_token?, bitbucket_token?)
+- url: GitHub, GitLab, or Bitbucket URL, or owner/repo shorthand for GitHub
 - detail: summary, structure, file-list, file-contents, or full
+- include / exclude (optional): Arrays of globs to scope the files returned
+- include_generated (optional): Keep files .gitattributes marks as generated, vendored, documentation, or export-ignore
+- max_tokens (optional): Estimated token budget for file contents
+- order (optional): ranked, path, or size
+- cursor (optional): Cursor from the "Next page" footer of a truncated response
+- include_contents (optional): For pull request URLs, also return the post-change contents of touched files
 - github_token (optional): Your GitHub PAT to bypass rate limits
+- gitlab_token (optional): Your GitLab PAT, sent only for gitlab.com URLs
+- bitbucket_token (optional): Your Bitbucket access token, sent only for bitbucket.org URLs
 
 ## Limits
-- Maximum zip archive size: 50 MB
+- Maximum zip archive size: 100 MB
 - Maximum output size: 10 MB
 - Maximum file count: 5,000
-- Rate limit: 30 requests per minute per IP (bypassed with X-GitHub-Token)
+- Maximum uncompressed archive size: 512 MB; archives with suspicious compression ratios or unsafe entry names are rejected
+- Rate limit: 30 requests per minute per IP (bypassed with your forge token header, e.g. X-GitHub-Token)
 - Only public repositories are supported
 `;
 
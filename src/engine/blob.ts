@@ -0,0 +1,59 @@
+import { ParseError, type BlobResult, type LineRange } from "../types";
+import { isBinaryContent } from "./filter";
+import type { SourceProvider } from "./providers";
+
+export interface BlobRequest {
+  owner: string;
+  repo: string;
+  ref: string;
+  /** Resolved commit; pins the download and the permalink when set */
+  sha?: string;
+  path: string;
+  lines?: LineRange;
+}
+
+/**
+ * Fetches the single file a blob URL points at and cuts it to the requested
+ * lines. Only that file is downloaded, never the repository archive.
+ * Throws ParseError when the range starts past the end of the file.
+ */
+export async function fetchBlob(
+  provider: SourceProvider,
+  request: BlobRequest,
+  userToken?: string
+): Promise<BlobResult> {
+  const { owner, repo, ref, sha, path } = request;
+  const bytes = await provider.fetchFile(owner, repo, sha ?? ref, path, userToken);
+
+  const base = { owner, repo, ref, sha, path, size: bytes.length };
+  if (isBinaryContent(bytes)) {
+    return {
+      ...base,
+      totalLines: 0,
+      permalink: provider.fileUrl(owner, repo, sha ?? ref, path),
+    };
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  const allLines = text.split("\n");
+  if (text.endsWith("\n")) allLines.pop();
+  const totalLines = allLines.length;
+
+  let lines: LineRange | undefined;
+  let content = text;
+  if (request.lines) {
+    if (request.lines.start > totalLines) {
+      throw new ParseError(`Line ${request.lines.start} is past the end of ${path} (${totalLines} lines).`);
+    }
+    lines = { start: request.lines.start, end: Math.min(request.lines.end, totalLines) };
+    content = allLines.slice(lines.start - 1, lines.end).join("\n") + "\n";
+  }
+
+  return {
+    ...base,
+    lines,
+    totalLines,
+    content,
+    permalink: provider.fileUrl(owner, repo, sha ?? ref, path, lines),
+  };
+}
@@ -0,0 +1,143 @@
+import { isRepoNotFoundError, type ChangedFile } from "../types";
+import { CONFIG_FILE_NAMES, IGNORE_FILE_NAME } from "./config";
+import { collectRules } from "./decompressor";
+import { createGlobFilter, shouldIgnorePath } from "./filter";
+import type { SourceProvider } from "./providers";
+
+/** How many omitted diffs or file contents the truncation notice names */
+const MAX_LISTED_OMISSIONS = 10;
+
+/** Directories, shallowest first, whose .gitignore and .gitattributes are read for a changeset */
+const MAX_RULE_DIRECTORIES = 8;
+
+/** Rule files fetched at once */
+const RULE_FETCH_CONCURRENCY = 6;
+
+/** Scoping and limits for a changeset (compare or commit) */
+export interface ChangesetOptions {
+  /** Only keep files under this directory (or this exact file) */
+  path?: string;
+  include?: string[];
+  exclude?: string[];
+  /** Keep files .gitattributes marks as generated/vendored/documentation or export-ignore */
+  includeGenerated?: boolean;
+  maxOutputBytes: number;
+  maxFileCount: number;
+}
+
+function underPath(filePath: string, path: string): boolean {
+  const prefix = path.endsWith("/") ? path : path + "/";
+  return filePath === path || filePath.startsWith(prefix);
+}
+
+/**
+ * Scopes changed files to `path` (a rename counts if either side is under
+ * it), then applies the default ignore list, include/exclude globs, and the
+ * repository's own rules when `repoExcludes` is given (see loadRepoRules), so
+ * a changeset matches what a tree ingest of the same path would show.
+ */
+export function scopeChangedFiles(
+  files: ChangedFile[],
+  options: ChangesetOptions,
+  repoExcludes?: (path: string) => boolean
+): ChangedFile[] {
+  const keep = createGlobFilter(options.include, options.exclude);
+  const path = options.path?.replace(/\/+$/, "");
+  return files
+    .filter((file) => !path || underPath(file.path, path) || (file.previousPath !== undefined && underPath(file.previousPath, path)))
+    .filter((file) => !shouldIgnorePath(file.path) && keep(file.path))
+    .filter((file) => !repoExcludes?.(file.path))
+    .slice(0, options.maxFileCount);
+}
+
+/**
+ * Reads the repository's rule files at `ref` for the given changed files:
+ * .gitignore and .gitattributes in the directories along their paths, and
+ * the root .gitprismignore and .gitprism.yml. Returns a predicate that is
+ * true for paths those rules drop, as they would be from a tree ingest.
+ * Only the MAX_RULE_DIRECTORIES shallowest directories are read, to bound
+ * the number of requests. Missing files are skipped; other errors throw.
+ */
+export async function loadRepoRules(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  ref: string,
+  files: ChangedFile[],
+  options: ChangesetOptions,
+  userToken?: string
+): Promise<(path: string) => boolean> {
+  const dirs = new Set<string>([""]);
+  for (const file of files) {
+    const parts = file.path.split("/").slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) dirs.add(parts.slice(0, i).join("/") + "/");
+  }
+  const ruleDirs = [...dirs]
+    .sort((a, b) => a.split("/").length - b.split("/").length || (a < b ? -1 : 1))
+    .slice(0, MAX_RULE_DIRECTORIES);
+  const names = options.includeGenerated ? [".gitignore"] : [".gitignore", ".gitattributes"];
+  const paths = [
+    ...ruleDirs.flatMap((dir) => names.map((name) => dir + name)),
+    ...CONFIG_FILE_NAMES,
+    IGNORE_FILE_NAME,
+  ];
+
+  const ruleFiles: Record<string, Uint8Array> = {};
+  for (let i = 0; i < paths.length; i += RULE_FETCH_CONCURRENCY) {
+    const chunk = paths.slice(i, i + RULE_FETCH_CONCURRENCY);
+    const fetched = await Promise.all(
+      chunk.map((path) =>
+        provider.fetchFile(owner, repo, ref, path, userToken).catch((err: unknown) => {
+          if (isRepoNotFoundError(err)) return undefined;
+          throw err;
+        })
+      )
+    );
+    fetched.forEach((data, j) => {
+      if (data) ruleFiles[chunk[j]] = data;
+    });
+  }
+  return collectRules(ruleFiles, "", options).excludes;
+}
+
+/**
+ * Drops the patches that do not fit in `budget` bytes, in file order, and
+ * records each as "diff of <path>" in `dropped`. Returns the bytes left.
+ */
+export function budgetPatches(files: ChangedFile[], budget: number, dropped: string[]): number {
+  const encoder = new TextEncoder();
+  for (const file of files) {
+    if (!file.patch) continue;
+    const size = encoder.encode(file.patch).length;
+    if (size > budget) {
+      file.patch = undefined;
+      dropped.push(`diff of ${file.path}`);
+      continue;
+    }
+    budget -= size;
+  }
+  return budget;
+}
+
+/** Truncation notice naming the first few things that were left out */
+export function omissionNotice(dropped: string[]): string {
+  const listed = dropped.slice(0, MAX_LISTED_OMISSIONS).join(", ");
+  const more = dropped.length > MAX_LISTED_OMISSIONS ? ` and ${dropped.length - MAX_LISTED_OMISSIONS} more` : "";
+  return (
+    `<!-- [TRUNCATED] Output limit reached. Omitted ${listed}${more}. ` +
+    "Use include/exclude globs to narrow the files. -->"
+  );
+}
+
+/**
+ * Truncation notice for a forge listing that stopped short of the changeset,
+ * e.g. GitHub's caps on pull request and compare file lists. `total` is
+ * undefined when the forge does not say how many files changed.
+ */
+export function listingNotice(listed: number, total?: number): string {
+  const count = total === undefined ? `the first ${listed}` : `only ${listed} of ${total}`;
+  return (
+    `<!-- [TRUNCATED] The forge listed ${count} changed files; ` +
+    "the rest are not shown. Use a narrower compare range or path to see them. -->"
+  );
+}
@@ -0,0 +1,31 @@
+import { ParseError, type CommitResult } from "../types";
+import { budgetPatches, omissionNotice, scopeChangedFiles, type ChangesetOptions } from "./changes";
+import type { SourceProvider } from "./providers";
+
+/**
+ * Fetches one commit and its patch, scoped by path and the usual filters,
+ * with diffs budgeted against maxOutputBytes. Throws ParseError for forges
+ * without single-commit support.
+ */
+export async function ingestCommit(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  sha: string,
+  options: ChangesetOptions,
+  userToken?: string
+): Promise<CommitResult> {
+  if (!provider.fetchCommit) {
+    throw new ParseError(`Commit URLs are not supported on ${provider.host}.`);
+  }
+  const commit = await provider.fetchCommit(owner, repo, sha, userToken);
+  commit.files = scopeChangedFiles(commit.files, options);
+
+  const dropped: string[] = [];
+  budgetPatches(commit.files, options.maxOutputBytes, dropped);
+  if (dropped.length > 0) {
+    commit.truncated = true;
+    commit.truncationMessage = omissionNotice(dropped);
+  }
+  return commit;
+}
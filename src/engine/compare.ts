@@ -0,0 +1,52 @@
+import { ParseError, type CompareResult } from "../types";
+import {
+  budgetPatches,
+  listingNotice,
+  loadRepoRules,
+  omissionNotice,
+  scopeChangedFiles,
+  type ChangesetOptions,
+} from "./changes";
+import type { SourceProvider } from "./providers";
+
+/**
+ * Fetches the commits and file diffs between two refs, scoped by path, the
+ * usual filters, and the repository's ignore rules at head, with diffs
+ * budgeted against maxOutputBytes. Throws ParseError for forges without
+ * compare support.
+ */
+export async function ingestCompare(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  options: ChangesetOptions,
+  userToken?: string
+): Promise<CompareResult> {
+  if (!provider.compareRefs) {
+    throw new ParseError(`Comparing refs is not supported on ${provider.host}.`);
+  }
+  const comparison = await provider.compareRefs(owner, repo, base, head, userToken);
+  // The forge marks a comparison truncated when its file listing hit a cap
+  const listed = comparison.truncated ? comparison.files.length : undefined;
+  const repoExcludes = await loadRepoRules(
+    provider, owner, repo, head, scopeChangedFiles(comparison.files, options), options, userToken
+  );
+  comparison.files = scopeChangedFiles(comparison.files, options, repoExcludes);
+
+  const dropped: string[] = [];
+  budgetPatches(comparison.files, options.maxOutputBytes, dropped);
+
+  if (comparison.totalCommits > comparison.commits.length) {
+    dropped.unshift(`${comparison.totalCommits - comparison.commits.length} commits`);
+  }
+  const notices: string[] = [];
+  if (dropped.length > 0) notices.push(omissionNotice(dropped));
+  if (listed !== undefined) notices.push(listingNotice(listed));
+  if (notices.length > 0) {
+    comparison.truncated = true;
+    comparison.truncationMessage = notices.join("\n");
+  }
+  return comparison;
+}
@@ -0,0 +1,117 @@
+import type { RepoConfig } from "../types";
+
+/** Repository-root files a repo author can commit to control ingestion */
+export const CONFIG_FILE_NAMES = [".gitprism.yml", ".gitprism.yaml"];
+export const IGNORE_FILE_NAME = ".gitprismignore";
+
+const LIST_KEYS = new Set(["ignore", "include", "priority"]);
+
+/**
+ * Strips a trailing `# comment` that is not inside quotes.
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2) {
+    const first = trimmed[0];
+    const last = trimmed[trimmed.length - 1];
+    if ((first === '"' || first === "'") && first === last) {
+      return trimmed.slice(1, -1);
+    }
+  }
+  return trimmed;
+}
+
+/**
+ * Parses a size such as `100000`, `100KB`, or `1.5 MB` into bytes.
+ * Returns undefined for anything else.
+ */
+function parseSize(raw: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i.exec(raw.trim());
+  if (!match) return undefined;
+  const multiplier = { b: 1, kb: 1024, mb: 1024 * 1024 }[(match[2] ?? "b").toLowerCase()] ?? 1;
+  return Math.floor(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Parses a `.gitprism.yml` file. Only the small YAML subset the config needs
+ * is supported: top-level `key: value` scalars, block (`- item`) and inline
+ * (`[a, b]`) lists, and `|` / `>` block scalars for the description.
+ *
+ * Recognised keys:
+ *   description:    short project description shown in the summary
+ *   ignore:         globs of files to drop
+ *   include:        globs a file must match to be kept
+ *   priority:       globs of files to emit first, in the listed order
+ *   max_file_size:  per-file size cap in bytes (or KB / MB)
+ *
+ * Unknown keys and malformed values are skipped rather than failing the ingest.
+ */
+export function parseRepoConfig(content: string): RepoConfig {
+  const config: RepoConfig = {};
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = stripComment(lines[i]).trimEnd();
+    i++;
+    if (!line.trim() || /^\s/.test(line)) continue;
+
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().replace(/-/g, "_");
+    const value = line.slice(colon + 1).trim();
+
+    // Collect indented continuation lines (block lists and block scalars)
+    const block: string[] = [];
+    while (i < lines.length && (!lines[i].trim() || /^\s/.test(lines[i]) || lines[i].startsWith("-"))) {
+      block.push(lines[i]);
+      i++;
+    }
+
+    if (LIST_KEYS.has(key)) {
+      let items: string[];
+      if (value.startsWith("[") && value.endsWith("]")) {
+        items = value.slice(1, -1).split(",").map(unquote);
+      } else if (value) {
+        items = [unquote(value)];
+      } else {
+        items = block
+          .map((l) => stripComment(l).trim())
+          .filter((l) => l.startsWith("-"))
+          .map((l) => unquote(l.slice(1)));
+      }
+      const globs = items.filter(Boolean);
+      if (globs.length > 0) config[key as "ignore" | "include" | "priority"] = globs;
+    } else if (key === "description") {
+      let description: string;
+      if (value === "|" || value === ">" || value === "|-" || value === ">-") {
+        const body = block.map((l) => l.trim());
+        while (body.length > 0 && !body[body.length - 1]) body.pop();
+        description = value.startsWith("|") ? body.join("\n") : body.filter(Boolean).join(" ");
+      } else {
+        description = unquote(value);
+      }
+      if (description) config.description = description;
+    } else if (key === "max_file_size") {
+      const size = parseSize(unquote(value));
+      if (size !== undefined && size > 0) config.maxFileSize = size;
+    }
+  }
+
+  return config;
+}
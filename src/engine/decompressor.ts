@@ -1,78 +1,354 @@
-import { unzipSync, type Unzipped } from "fflate";
-import { shouldIgnorePath, isBinaryContent, parseGitignore, filterBySubpath } from "./filter";
-import { DecompressionError, type DetailLevel, type FileEntry, type IngestResult } from "../types";
+import { Unzip, UnzipInflate, type Unzipped } from "fflate";
+import {
+  shouldIgnorePath,
+  isBinaryContent,
+  createGitignoreMatcher,
+  createGitattributesMatcher,
+  createGlobFilter,
+  parseGitignore,
+} from "./filter";
+import { CONFIG_FILE_NAMES, IGNORE_FILE_NAME, parseRepoConfig } from "./config";
+import { estimateTokens } from "./tokens";
+import { classifyFile, orderFiles, HIGH_VALUE_TIER } from "./ranker";
+import { createArchiveGuard, type ArchiveLimits } from "./limits";
+import {
+  DecompressionError,
+  UnsafeArchiveError,
+  isUnsafeArchiveError,
+  type DetailLevel,
+  type FileEntry,
+  type FileOrder,
+  type IngestResult,
+  type RepoConfig,
+} from "../types";
 
 export interface DecompressOptions {
   subpath?: string;
+  /** Globs (relative to the repository root) a file must match to be kept */
+  include?: string[];
+  /** Globs (relative to the repository root) that drop a file */
+  exclude?: string[];
+  /** Keep files marked linguist-generated/vendored/documentation or export-ignore */
+  includeGenerated?: boolean;
   detail: DetailLevel;
   maxOutputBytes: number;
   maxFileCount: number;
+  /**
+   * Estimated token budget for file contents. When set, content stops being
+   * added once the budget is reached, instead of at maxOutputBytes.
+   */
+  maxTokens?: number;
+  /** Order files are emitted (and kept under truncation) in; defaults to "ranked" */
+  order?: FileOrder;
+  /** Number of ordered files to skip, taken from a pagination cursor */
+  offset?: number;
+  /** 1-based page to return, counted from offset */
+  page?: number;
+  /** Zip-bomb and entry-name limits; defaults to DEFAULT_ARCHIVE_LIMITS */
+  limits?: ArchiveLimits;
+}
+
+/** How many dropped high-value files the truncation notice names */
+const MAX_LISTED_DROPPED_FILES = 10;
+
+/** Bytes of each streamed entry inflated before deciding whether it is binary */
+const BINARY_SNIFF_BYTES = 8192;
+
+/** Filtering rules read from files inside the archive */
+export interface ArchiveRules {
+  repoConfig: RepoConfig;
+  configFiles: string[];
+  /**
+   * True if a repository path is dropped by .gitignore, .gitattributes,
+   * .gitprismignore, or the request and repo config globs.
+   */
+  excludes: (repoPath: string) => boolean;
 }
 
 /**
- * Decompresses a GitHub zipball and processes each file entry according to
- * the ignore rules, subpath filter, and content limits.
- *
- * GitHub zipballs have a top-level directory named `owner-repo-sha/` that
- * must be stripped from all paths.
+ * Strips the top-level directory forges wrap every archive entry in
+ * (GitHub `owner-repo-sha/`, Bitbucket `workspace-repo-sha/`, GitLab
+ * `repo-ref-sha/`) from entry names as they are seen. The prefix is taken
+ * from the first name that contains a slash.
  */
-export function decompressAndProcess(
-  zipData: Uint8Array,
-  options: DecompressOptions
-): IngestResult {
-  const { detail, maxOutputBytes, maxFileCount } = options;
+function createPrefixStripper() {
+  let prefix: string | undefined;
+  return {
+    strip(zipPath: string): string {
+      if (prefix === undefined && zipPath.includes("/")) {
+        prefix = zipPath.slice(0, zipPath.indexOf("/") + 1);
+      }
+      return prefix && zipPath.startsWith(prefix) ? zipPath.slice(prefix.length) : zipPath;
+    },
+    get prefix(): string {
+      return prefix ?? "";
+    },
+  };
+}
+
+/**
+ * True for the files rules are read from. These are kept even
+ * when they fall outside the subpath or the request's globs.
+ */
+function isRuleFile(repoPath: string): boolean {
+  const slash = repoPath.lastIndexOf("/");
+  const fileName = repoPath.slice(slash + 1);
+  if (fileName === ".gitignore" || fileName === ".gitattributes") return true;
+  return slash === -1 && (CONFIG_FILE_NAMES.includes(fileName) || fileName === IGNORE_FILE_NAME);
+}
+
+/**
+ * Builds the checks that can rule an entry out from its path alone, before
+ * it is inflated: directories, the hardcoded ignore list, the subpath, and
+ * the request's own include/exclude globs. Rules that live inside the archive
+ * (.gitignore, .gitattributes, .gitprism.yml) are checked separately, once
+ * the rule files they come from have been read.
+ */
+function createPathPrefilter(options: DecompressOptions): (repoPath: string) => boolean {
+  const globFilter =
+    options.include?.length || options.exclude?.length ? createGlobFilter(options.include, options.exclude) : null;
   const subpath = options.subpath ?? "";
+  const subpathPrefix = subpath && !subpath.endsWith("/") ? subpath + "/" : subpath;
 
-  // Validate zip data
-  if (!zipData || zipData.length === 0) {
-    throw new DecompressionError("Empty zip data received");
+  return (repoPath) => {
+    if (!repoPath || repoPath.endsWith("/")) return false;
+    if (isRuleFile(repoPath)) return true;
+    if (shouldIgnorePath(repoPath)) return false;
+    if (subpathPrefix && !repoPath.startsWith(subpathPrefix)) return false;
+    if (globFilter && !globFilter(repoPath)) return false;
+    return true;
+  };
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
   }
+  return out;
+}
+
+/**
+ * Decompresses a zipball and processes each file entry according to the
+ * ignore rules, subpath filter, include/exclude globs, and content limits.
+ * Reads the archive straight from the response body with fflate's Unzip, so
+ * the compressed archive is never buffered whole.
+ *
+ * Entries that the path checks or the archive's own rules (.gitignore,
+ * .gitattributes, .gitprismignore, and the repo config's globs and size cap)
+ * rule out are skipped without being inflated, and binary files are dropped
+ * as soon as their first bytes are seen. A rule file only affects the entries
+ * after it; forge archives list each directory's dotfiles ahead of the rest
+ * of its contents, and the rules are applied again to everything kept, so the
+ * result does not depend on entry order. Each entry is checked against the
+ * archive limits (entry count, total size, compression ratio, entry names)
+ * before it is inflated; a violation throws UnsafeArchiveError.
+ *
+ * Files are ordered before the limit checks (ranked by importance unless the
+ * caller asks otherwise), so truncation drops the least useful files.
+ * A `.gitprism.yml` and/or `.gitprismignore` at the repository root is picked
+ * up automatically: its ignore patterns are added to the request's exclude
+ * globs, its include patterns apply when the request sets none, priority
+ * files are emitted first, and files above its size cap are skipped.
+ *
+ * Every kept text entry is held whole until the archive ends: files can only
+ * be ranked and paged once all of them are known, so nothing is returned
+ * early and memory grows with the kept content, not with the page size.
+ */
+export async function decompressStream(
+  body: ReadableStream<Uint8Array>,
+  options: DecompressOptions
+): Promise<IngestResult> {
+  const stripper = createPrefixStripper();
+  const keepPath = createPathPrefilter(options);
+  const guard = createArchiveGuard(options.limits);
+  const entries: Unzipped = {};
+  const ruleFiles: Unzipped = {};
+  let rules: ArchiveRules | undefined;
+  let rulesChanged = false;
+  let entryCount = 0;
+  let received = 0;
+  let failure: Error | undefined;
 
-  // Decompress with error handling
-  let unzipped: Unzipped;
+  // Rules read from the rule files seen so far; rebuilt when one is added
+  const currentRules = (): ArchiveRules => {
+    if (!rules || rulesChanged) {
+      rules = collectRules(ruleFiles, stripper.prefix, options);
+      rulesChanged = false;
+    }
+    return rules;
+  };
+
+  const unzipper = new Unzip((file) => {
+    entryCount++;
+    // Local headers may omit sizes (data descriptors); every entry is also
+    // counted as it inflates
+    guard.check(file.name, file.size, file.originalSize);
+    const repoPath = stripper.strip(file.name);
+    if (!keepPath(repoPath)) return;
+    const ruleFile = isRuleFile(repoPath);
+    if (!ruleFile) {
+      const { repoConfig, excludes } = currentRules();
+      const { maxFileSize } = repoConfig;
+      if (maxFileSize !== undefined && file.originalSize !== undefined && file.originalSize > maxFileSize) return;
+      if (excludes(repoPath)) return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    const declaredSize = file.originalSize;
+    let size = 0;
+    let sniffed = false;
+    let binary = false;
+    file.ondata = (err, data, final) => {
+      if (err) {
+        failure = err;
+        return;
+      }
+      size += data.length;
+      guard.inflated(data.length);
+      if (declaredSize !== undefined && size > declaredSize) {
+        throw new UnsafeArchiveError(
+          422,
+          `Archive entry ${JSON.stringify(file.name)} is larger than its header declares.`
+        );
+      }
+      if (binary) return;
+      chunks.push(data);
+      if (!sniffed && (size >= BINARY_SNIFF_BYTES || final)) {
+        sniffed = true;
+        if (isBinaryContent(concatChunks(chunks))) {
+          binary = true;
+          chunks.length = 0;
+          file.terminate();
+          return;
+        }
+      }
+      if (!final) return;
+      entries[file.name] = concatChunks(chunks);
+      if (ruleFile) {
+        ruleFiles[file.name] = entries[file.name];
+        rulesChanged = true;
+      }
+    };
+    file.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  const reader = body.getReader();
   try {
-    unzipped = unzipSync(zipData);
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        if (received > 0) unzipper.push(new Uint8Array(0), true);
+        break;
+      }
+      received += value.length;
+      guard.received(value.length);
+      unzipper.push(value);
+      if (failure) throw failure;
+    }
+    if (failure) throw failure;
   } catch (err) {
+    await reader.cancel().catch(() => {});
+    if (isUnsafeArchiveError(err)) throw err;
     const message = err instanceof Error ? err.message : "Unknown decompression error";
     throw new DecompressionError(`Failed to decompress zip archive: ${message}`);
   }
 
-  // Validate decompression result
-  if (!unzipped || Object.keys(unzipped).length === 0) {
+  if (received === 0) {
+    throw new DecompressionError("Empty zip data received");
+  }
+  if (entryCount === 0) {
     throw new DecompressionError("Zip archive appears to be empty or corrupted");
   }
 
-  // ── Determine the top-level prefix to strip ──────────────────────────────
-  // GitHub zip: all entries start with owner-repo-sha/
-  let prefix = "";
-  for (const key of Object.keys(unzipped)) {
-    const slash = key.indexOf("/");
-    if (slash !== -1) {
-      prefix = key.slice(0, slash + 1); // includes trailing slash
-      break;
+  return processEntries(entries, stripper.prefix, options, collectRules(ruleFiles, stripper.prefix, options));
+}
+
+/**
+ * Reads .gitignore/.gitattributes files and the repo config from the
+ * extracted entries and combines them with the request's globs.
+ */
+export function collectRules(
+  unzipped: Unzipped,
+  prefix: string,
+  options: Pick<DecompressOptions, "include" | "exclude" | "includeGenerated">
+): ArchiveRules {
+  const gitignores: Record<string, string> = {};
+  const gitattributes: Record<string, string> = {};
+  const configFiles: string[] = [];
+  let repoConfig: RepoConfig = {};
+  let hasRepoConfig = false;
+  let gitprismignoreMatcher: ((path: string) => boolean) | null = null;
+  for (const [zipPath, data] of Object.entries(unzipped)) {
+    if (!zipPath.startsWith(prefix)) continue;
+    const filePath = zipPath.slice(prefix.length);
+    const slash = filePath.lastIndexOf("/");
+    const dir = filePath.slice(0, slash + 1);
+    const fileName = filePath.slice(slash + 1);
+    if (fileName === ".gitignore") {
+      gitignores[dir] = new TextDecoder().decode(data);
+    } else if (fileName === ".gitattributes" && !options.includeGenerated) {
+      gitattributes[dir] = new TextDecoder().decode(data);
+    } else if (!dir && CONFIG_FILE_NAMES.includes(fileName) && !hasRepoConfig) {
+      repoConfig = parseRepoConfig(new TextDecoder().decode(data));
+      hasRepoConfig = true;
+      configFiles.push(fileName);
+    } else if (!dir && fileName === IGNORE_FILE_NAME) {
+      gitprismignoreMatcher = parseGitignore(new TextDecoder().decode(data));
+      configFiles.push(fileName);
     }
   }
+  const gitignoreMatcher =
+    Object.keys(gitignores).length > 0 ? createGitignoreMatcher(gitignores) : null;
+  const gitattributesMatcher =
+    Object.keys(gitattributes).length > 0 ? createGitattributesMatcher(gitattributes) : null;
 
-  // ── First pass: collect .gitignore content ────────────────────────────────
-  let gitignoreMatcher: ((path: string) => boolean) | null = null;
-  const gitignoreKey = prefix + ".gitignore";
-  if (unzipped[gitignoreKey]) {
-    const content = new TextDecoder().decode(unzipped[gitignoreKey]);
-    gitignoreMatcher = parseGitignore(content);
-  }
+  // Request globs take precedence; the repo config fills in the gaps
+  const include = options.include?.length ? options.include : repoConfig.include;
+  const exclude = [...(options.exclude ?? []), ...(repoConfig.ignore ?? [])];
+  const globFilter =
+    include?.length || exclude.length ? createGlobFilter(include, exclude) : null;
 
-  // ── Second pass: process all entries ─────────────────────────────────────
-  const files: FileEntry[] = [];
-  let totalSize = 0;
-  let truncated = false;
-  let truncationMessage: string | undefined;
+  return {
+    repoConfig,
+    configFiles,
+    excludes: (repoPath) =>
+      // .gitignore patterns
+      (gitignoreMatcher !== null && gitignoreMatcher(repoPath)) ||
+      // .gitattributes generated/vendored/documentation/export-ignore markers
+      (gitattributesMatcher !== null && gitattributesMatcher(repoPath)) ||
+      // .gitprismignore patterns
+      (gitprismignoreMatcher !== null && gitprismignoreMatcher(repoPath)) ||
+      // include/exclude globs
+      (globFilter !== null && !globFilter(repoPath)),
+  };
+}
+
+/**
+ * Filters, orders, and pages the extracted entries. `prefix` is the
+ * top-level directory stripped from every zip path.
+ */
+function processEntries(
+  unzipped: Unzipped,
+  prefix: string,
+  options: DecompressOptions,
+  rules: ArchiveRules
+): IngestResult {
+  const { detail, maxOutputBytes, maxFileCount, maxTokens } = options;
+  const subpath = options.subpath ?? "";
+  const { repoConfig, configFiles } = rules;
 
-  // Capture total unfiltered count for truncation message
-  let totalUnfiltered = 0;
+  // ── First pass: filter entries down to candidate files ───────────────────
+  const candidates: Array<{ path: string; repoPath: string; size: number; data: Uint8Array }> = [];
 
   for (const [zipPath, data] of Object.entries(unzipped)) {
-    // Strip the GitHub top-level prefix
-    let filePath = zipPath.startsWith(prefix) ? zipPath.slice(prefix.length) : zipPath;
+    // Strip the archive's top-level prefix
+    const repoPath = zipPath.startsWith(prefix) ? zipPath.slice(prefix.length) : zipPath;
+    let filePath = repoPath;
 
     // Skip empty paths (the root directory entry itself)
     if (!filePath) continue;
@@ -80,13 +356,11 @@ export function decompressAndProcess(
     // Skip directory entries (they end with /)
     if (filePath.endsWith("/")) continue;
 
-    totalUnfiltered++;
-
     // Apply hardcoded ignore list
     if (shouldIgnorePath(filePath)) continue;
 
-    // Apply .gitignore patterns
-    if (gitignoreMatcher && gitignoreMatcher(filePath)) continue;
+    // Apply .gitignore, .gitattributes, .gitprismignore, and glob rules
+    if (rules.excludes(filePath)) continue;
 
     // Apply subpath filter (before binary check to save work)
     if (subpath) {
@@ -98,47 +372,135 @@ export function decompressAndProcess(
     // Binary content check (check first 8KB)
     if (isBinaryContent(data)) continue;
 
-    // ── Limit checks ───────────────────────────────────────────────────────
-    if (files.length >= maxFileCount) {
-      truncated = true;
-      break;
-    }
+    // Per-file size cap from .gitprism.yml
+    if (repoConfig.maxFileSize !== undefined && data.length > repoConfig.maxFileSize) continue;
 
-    const fileSize = data.length;
+    candidates.push({ path: filePath, repoPath, size: data.length, data });
+  }
 
-    const needsContent = detail === "full" || detail === "file-contents";
-    
-    if (needsContent && totalSize + fileSize > maxOutputBytes) {
-      truncated = true;
-      break;
-    }
+  // ── Order candidates before the limit checks ─────────────────────────────
+  // Priority files from .gitprism.yml come first, in the configured order;
+  // the requested order applies within and after them.
+  let ordered = orderFiles(candidates, options.order ?? "ranked");
+  if (repoConfig.priority?.length) {
+    const matchers = repoConfig.priority.map((glob) => createGlobFilter([glob]));
+    // Array sort is stable, so files keep the requested order within a rank
+    ordered = ordered
+      .map((c) => {
+        const index = matchers.findIndex((matches) => matches(c.repoPath));
+        return { c, rank: index === -1 ? matchers.length : index };
+      })
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ c }) => c);
+  }
 
-    // ── Build file entry ───────────────────────────────────────────────────
-    const entry: FileEntry = {
-      path: filePath,
-      size: fileSize,
-    };
+  // ── Second pass: fill pages of file entries until a limit is reached ──────
+  const needsContent = detail === "full" || detail === "file-contents";
+  // Token estimates are shown by the file-list table and the summary; a
+  // structure-only page never decodes file contents
+  const countsTokens = needsContent || detail === "file-list" || detail === "summary";
+
+  // Fills one page starting at ordered[start]. Returns the index after the
+  // last file consumed. A file too large to fit even on an empty page is
+  // skipped so that pagination always makes progress.
+  const fillPage = (start: number, build: boolean) => {
+    const files: FileEntry[] = [];
+    const oversized: string[] = [];
+    let totalSize = 0;
+    let totalTokens = 0;
+    let budgetExhausted = false;
+    let truncated = false;
+    let index = start;
+
+    for (; index < ordered.length; index++) {
+      const { path: filePath, data } = ordered[index];
+
+      // ── Limit checks ─────────────────────────────────────────────────────
+      if (files.length >= maxFileCount) {
+        truncated = true;
+        break;
+      }
 
-    if (needsContent || detail === "file-list") {
-      // Count lines
-      const text = new TextDecoder().decode(data);
-      entry.lines = text.split("\n").length;
+      const fileSize = data.length;
+      // Pages skipped on the way to the requested one only need sizes and,
+      // under a token budget, token counts
+      const text = needsContent || (build && countsTokens) ? new TextDecoder().decode(data) : undefined;
+      const tokens = text !== undefined ? estimateTokens(text) : 0;
 
       if (needsContent) {
-        entry.content = text;
+        const overBudget = maxTokens !== undefined && totalTokens + tokens > maxTokens;
+        const overBytes = maxTokens === undefined && totalSize + fileSize > maxOutputBytes;
+        if (overBudget || overBytes) {
+          if (files.length === 0) {
+            oversized.push(filePath);
+            continue;
+          }
+          truncated = true;
+          budgetExhausted = overBudget;
+          break;
+        }
       }
+
+      if (build) {
+        // ── Build file entry ─────────────────────────────────────────────────
+        const entry: FileEntry = {
+          path: filePath,
+          size: fileSize,
+        };
+        if (text !== undefined) entry.tokens = tokens;
+
+        if (text !== undefined && (needsContent || detail === "file-list")) {
+          // Count lines
+          entry.lines = text.split("\n").length;
+
+          if (needsContent) {
+            entry.content = text;
+          }
+        }
+
+        files.push(entry);
+      } else {
+        files.push({ path: filePath, size: fileSize });
+      }
+      totalSize += fileSize;
+      totalTokens += tokens;
     }
 
-    files.push(entry);
-    totalSize += fileSize;
+    return { files, oversized, totalSize, totalTokens, budgetExhausted, truncated, end: index };
+  };
+
+  // Pages are cut deterministically, so page N can be found by re-running the
+  // earlier pages without building their entries.
+  let start = Math.min(options.offset ?? 0, ordered.length);
+  for (let page = 1; page < (options.page ?? 1) && start < ordered.length; page++) {
+    start = fillPage(start, false).end;
   }
+  const { files, oversized, totalSize, totalTokens, budgetExhausted, truncated, end } = fillPage(start, true);
 
+  let truncationMessage: string | undefined;
   if (truncated) {
-    const included = files.length;
-    const total = totalUnfiltered;
+    const total = ordered.length;
+    const range =
+      start > 0 ? `Files ${start + 1}-${end} of ${total} included.` : `${files.length} of ${total} files included.`;
+    const limit = budgetExhausted ? `Token budget of ${maxTokens} reached` : "Output limit reached";
+    const droppedHighValue = ordered
+      .slice(end)
+      .map((c) => c.path)
+      .filter((path) => classifyFile(path) <= HIGH_VALUE_TIER);
+    const dropped =
+      droppedHighValue.length > 0
+        ? ` Dropped high-value files: ${droppedHighValue.slice(0, MAX_LISTED_DROPPED_FILES).join(", ")}` +
+          (droppedHighValue.length > MAX_LISTED_DROPPED_FILES
+            ? ` and ${droppedHighValue.length - MAX_LISTED_DROPPED_FILES} more.`
+            : ".")
+        : "";
     truncationMessage =
-      `<!-- [TRUNCATED] Output limit reached. ${included} of ${total} files included. ` +
-      `Use ?path= to target a subdirectory for complete results. -->`;
+      `<!-- [TRUNCATED] ${limit}. ${range}${dropped} ` +
+      `Fetch the next page, or use ?path= to target a subdirectory, for complete results. -->`;
+  }
+  if (oversized.length > 0) {
+    const notice = `<!-- [SKIPPED] Larger than the output limit: ${oversized.join(", ")} -->`;
+    truncationMessage = truncationMessage ? `${truncationMessage}\n${notice}` : notice;
   }
 
   const repoName = ""; // Will be filled by the caller from parsed request
@@ -150,8 +512,12 @@ export function decompressAndProcess(
     ref: "",
     fileCount: files.length,
     totalSize,
-    truncated,
+    totalTokens: countsTokens ? totalTokens : undefined,
+    truncated: truncated || oversized.length > 0,
     truncationMessage,
+    nextOffset: truncated ? end : undefined,
+    configFiles: configFiles.length > 0 ? configFiles : undefined,
+    description: repoConfig.description,
     files,
   };
 }
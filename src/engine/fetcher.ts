@@ -2,18 +2,34 @@ import {
   GitHubApiError,
   RepoNotFoundError,
   ZipTooLargeError,
+  FileTooLargeError,
   type Env,
+  type ChangedFile,
+  type CommitInfo,
+  type CommitResult,
+  type CompareResult,
+  type PullRequestResult,
+  type ReleaseInfo,
 } from "../types";
 
 const GITHUB_API_BASE = "https://api.github.com";
 const USER_AGENT = "GitPrism/1.0";
 
-function buildHeaders(env: Env, userToken?: string): Record<string, string> {
+/**
+ * A GitHub-compatible API other than api.github.com, e.g. GitHub Enterprise
+ * Server at `https://<host>/api/v3`. Its server token replaces GITHUB_TOKEN.
+ */
+export interface GitHubApiTarget {
+  baseUrl: string;
+  serverToken?: string;
+}
+
+function buildHeaders(env: Env, userToken?: string, target?: GitHubApiTarget): Record<string, string> {
   const headers: Record<string, string> = {
     "User-Agent": USER_AGENT,
     "Accept": "application/vnd.github+json",
   };
-  const token = userToken || env.GITHUB_TOKEN;
+  const token = userToken || (target ? target.serverToken : env.GITHUB_TOKEN);
   if (token) {
     headers["Authorization"] = `Bearer ${token}`;
   }
@@ -21,7 +37,59 @@ function buildHeaders(env: Env, userToken?: string): Record<string, string> {
 }
 
 function maxZipBytes(env: Env): number {
-  return parseInt(env.MAX_ZIP_BYTES ?? "52428800", 10);
+  return parseInt(env.MAX_ZIP_BYTES ?? "104857600", 10);
+}
+
+/**
+ * Throws ZipTooLargeError if a pre-flight Content-Length exceeds MAX_ZIP_BYTES.
+ * A missing length passes; the decompressor's archive limits still apply.
+ */
+export function assertArchiveSize(contentLength: string | null, env: Env): void {
+  if (!contentLength) return;
+  const size = parseInt(contentLength, 10);
+  const limit = maxZipBytes(env);
+  if (size > limit) {
+    throw new ZipTooLargeError(
+      `Repository archive exceeds ${Math.round(limit / 1024 / 1024)} MB limit. ` +
+        "Use ?path= to target a subdirectory."
+    );
+  }
+}
+
+/**
+ * Throws FileTooLargeError if a single file's Content-Length exceeds
+ * MAX_ZIP_BYTES. Used when a file is fetched on its own, not in an archive.
+ */
+export function assertFileSize(contentLength: string | null, path: string, env: Env): void {
+  if (!contentLength) return;
+  const size = parseInt(contentLength, 10);
+  const limit = maxZipBytes(env);
+  if (size > limit) {
+    throw new FileTooLargeError(`File ${path} exceeds ${Math.round(limit / 1024 / 1024)} MB limit.`);
+  }
+}
+
+/**
+ * Maps GitHub error statuses to typed errors: 404 to RepoNotFoundError with
+ * the given message, 403 to a rate limit or access-denied GitHubApiError.
+ */
+function assertGitHubOk(res: Response, notFoundMessage: string): void {
+  if (res.status === 404) {
+    throw new RepoNotFoundError(notFoundMessage);
+  }
+  if (res.status === 403) {
+    const rateLimitRemaining = res.headers.get("X-RateLimit-Remaining");
+    const rateLimitReset = res.headers.get("X-RateLimit-Reset");
+
+    if (rateLimitRemaining !== null && rateLimitRemaining === "0") {
+      const resetTime = rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000).toISOString() : "soon";
+      throw new GitHubApiError(403, `GitHub API rate limit exceeded. Resets at ${resetTime}.`);
+    }
+    throw new GitHubApiError(403, "GitHub API access denied (403)");
+  }
+  if (!res.ok) {
+    throw new GitHubApiError(res.status, `GitHub API returned ${res.status}`);
+  }
 }
 
 /**
@@ -32,10 +100,11 @@ export async function resolveDefaultRef(
   owner: string,
   repo: string,
   env: Env,
-  userToken?: string
+  userToken?: string,
+  target?: GitHubApiTarget
 ): Promise<string> {
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
-  const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+  const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}`;
+  const res = await fetch(url, { headers: buildHeaders(env, userToken, target) });
 
   if (res.status === 404) {
     throw new RepoNotFoundError(`Repository ${owner}/${repo} not found or is private.`);
@@ -74,13 +143,14 @@ export async function checkZipSize(
   repo: string,
   ref: string,
   env: Env,
-  userToken?: string
+  userToken?: string,
+  target?: GitHubApiTarget
 ): Promise<void> {
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/zipball/${ref}`;
+  const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/zipball/${ref}`;
   const res = await fetch(url, {
     method: "HEAD",
     redirect: "follow",
-    headers: buildHeaders(env, userToken),
+    headers: buildHeaders(env, userToken, target),
   });
 
   if (res.status === 404) {
@@ -100,17 +170,7 @@ export async function checkZipSize(
     throw new GitHubApiError(res.status, `GitHub API returned ${res.status}`);
   }
 
-  const contentLength = res.headers.get("Content-Length");
-  if (contentLength) {
-    const size = parseInt(contentLength, 10);
-    const limit = maxZipBytes(env);
-    if (size > limit) {
-      throw new ZipTooLargeError(
-        `Repository archive exceeds ${Math.round(limit / 1024 / 1024)} MB limit. ` +
-          "Use ?path= to target a subdirectory."
-      );
-    }
-  }
+  assertArchiveSize(res.headers.get("Content-Length"), env);
 }
 
 /**
@@ -122,11 +182,12 @@ export async function resolveRefToSha(
   repo: string,
   ref: string,
   env: Env,
-  userToken?: string
+  userToken?: string,
+  target?: GitHubApiTarget
 ): Promise<string | undefined> {
   try {
-    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${ref}`;
-    const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+    const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${ref}`;
+    const res = await fetch(url, { headers: buildHeaders(env, userToken, target) });
 
     if (!res.ok) {
       return undefined;
@@ -139,26 +200,54 @@ export async function resolveRefToSha(
   }
 }
 
-export interface FetchZipballResult {
-  data: Uint8Array;
+/**
+ * Lists the branch and tag names that start with `prefix`, e.g. "release"
+ * finds `release`, `release/1.x`, and `release-notes`. Used to split a
+ * slash-containing ref from the path in tree URLs.
+ */
+export async function fetchMatchingRefs(
+  owner: string,
+  repo: string,
+  prefix: string,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<string[]> {
+  const refsUrl = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/git/matching-refs`;
+  const encodedPrefix = prefix.split("/").map(encodeURIComponent).join("/");
+  const lists = await Promise.all(
+    ["heads", "tags"].map(async (namespace) => {
+      const res = await fetch(`${refsUrl}/${namespace}/${encodedPrefix}`, { headers: buildHeaders(env, userToken, target) });
+      assertGitHubOk(res, `Repository ${owner}/${repo} not found or is private.`);
+      const refs = await res.json() as Array<{ ref: string }>;
+      return refs.map((entry) => entry.ref.replace(`refs/${namespace}/`, ""));
+    })
+  );
+  return lists.flat();
+}
+
+export interface FetchZipballStreamResult {
+  body: ReadableStream<Uint8Array>;
   rateLimitRemaining: string;
   rateLimitReset: string;
 }
 
 /**
- * Downloads the repository zipball and returns the raw bytes plus rate limit info.
+ * Requests the repository zipball and maps GitHub error statuses to typed errors.
+ * The body is left unread.
  */
-export async function fetchZipball(
+async function requestZipball(
   owner: string,
   repo: string,
   ref: string,
   env: Env,
-  userToken?: string
-): Promise<FetchZipballResult> {
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/zipball/${ref}`;
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<Response> {
+  const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/zipball/${ref}`;
   const res = await fetch(url, {
     redirect: "follow",
-    headers: buildHeaders(env, userToken),
+    headers: buildHeaders(env, userToken, target),
   });
 
   if (res.status === 404) {
@@ -178,21 +267,165 @@ export async function fetchZipball(
     throw new GitHubApiError(res.status, `GitHub API returned ${res.status}`);
   }
 
-  const arrayBuffer = await res.arrayBuffer();
-  const data = new Uint8Array(arrayBuffer);
+  return res;
+}
+
+/**
+ * Opens the repository zipball as a byte stream plus rate limit info, without
+ * buffering the archive. Pair with decompressStream.
+ */
+export async function fetchZipballStream(
+  owner: string,
+  repo: string,
+  ref: string,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<FetchZipballStreamResult> {
+  const res = await requestZipball(owner, repo, ref, env, userToken, target);
 
   return {
-    data,
+    body: res.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() }),
     rateLimitRemaining: res.headers.get("X-RateLimit-Remaining") ?? "",
     rateLimitReset: res.headers.get("X-RateLimit-Reset") ?? "",
   };
 }
 
-export interface CommitInfo {
+/**
+ * Downloads one file's raw bytes through the contents API, without
+ * touching the zipball. Throws RepoNotFoundError if the file does not exist.
+ */
+export async function fetchFileContent(
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<Uint8Array> {
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+  const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+  const res = await fetch(url, {
+    headers: { ...buildHeaders(env, userToken, target), "Accept": "application/vnd.github.raw+json" },
+  });
+  assertGitHubOk(res, `File ${path} not found in ${owner}/${repo} at ${ref}.`);
+
+  assertFileSize(res.headers.get("Content-Length"), path, env);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+/** A changed file as the pulls and compare endpoints return it */
+interface GitHubFile {
+  filename: string;
+  previous_filename?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+function toChangedFile(file: GitHubFile): ChangedFile {
+  return {
+    path: file.filename,
+    previousPath: file.previous_filename,
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    patch: file.patch,
+  };
+}
+
+/** A commit as the commits and compare endpoints return it */
+interface GitHubCommit {
   sha: string;
-  author: string;
-  date: string;
-  message: string;
+  commit: {
+    author: {
+      name: string;
+      date: string;
+    };
+    message: string;
+  };
+}
+
+function toCommitInfo(commit: GitHubCommit): CommitInfo {
+  return {
+    sha: commit.sha.substring(0, 7),
+    author: commit.commit.author.name,
+    date: new Date(commit.commit.author.date).toISOString().split("T")[0],
+    message: commit.commit.message.split("\n")[0],
+  };
+}
+
+/** Pull request and commit file listings page 100 at a time and stop at 3,000 files */
+const FILES_PER_PAGE = 100;
+const MAX_FILE_PAGES = 30;
+
+/** The compare endpoint lists at most this many files and cannot be paged past it */
+const MAX_COMPARE_FILES = 300;
+
+/**
+ * Fetches a pull request's metadata and changed files, including the
+ * per-file unified diff GitHub returns as `patch`.
+ */
+export async function fetchPullRequest(
+  owner: string,
+  repo: string,
+  number: number,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<PullRequestResult> {
+  const pullUrl = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${number}`;
+  const notFound = `Pull request ${owner}/${repo}#${number} not found or is private.`;
+
+  const res = await fetch(pullUrl, { headers: buildHeaders(env, userToken, target) });
+  assertGitHubOk(res, notFound);
+  const pull = await res.json() as {
+    title: string;
+    body: string | null;
+    state: string;
+    merged?: boolean;
+    html_url: string;
+    user: { login: string } | null;
+    base: { ref: string; sha: string };
+    head: { ref: string; sha: string; label: string };
+    additions: number;
+    deletions: number;
+    changed_files: number;
+  };
+
+  const files: ChangedFile[] = [];
+  for (let page = 1; page <= MAX_FILE_PAGES; page++) {
+    const filesRes = await fetch(`${pullUrl}/files?per_page=${FILES_PER_PAGE}&page=${page}`, {
+      headers: buildHeaders(env, userToken, target),
+    });
+    assertGitHubOk(filesRes, notFound);
+    const batch = await filesRes.json() as GitHubFile[];
+    files.push(...batch.map(toChangedFile));
+    if (batch.length < FILES_PER_PAGE) break;
+  }
+
+  return {
+    owner,
+    repo,
+    number,
+    title: pull.title,
+    body: pull.body ?? "",
+    author: pull.user?.login ?? "ghost",
+    state: pull.merged ? "merged" : pull.state,
+    url: pull.html_url,
+    baseRef: pull.base.ref,
+    baseSha: pull.base.sha,
+    headRef: pull.head.ref,
+    headSha: pull.head.sha,
+    headLabel: pull.head.label,
+    additions: pull.additions,
+    deletions: pull.deletions,
+    changedFiles: pull.changed_files,
+    files,
+    truncated: false,
+  };
 }
 
 export async function fetchCommits(
@@ -201,7 +434,8 @@ export async function fetchCommits(
   ref: string,
   env: Env,
   userToken?: string,
-  path?: string
+  path?: string,
+  target?: GitHubApiTarget
 ): Promise<CommitInfo[]> {
   const params = new URLSearchParams({
     sha: ref,
@@ -212,8 +446,8 @@ export async function fetchCommits(
     params.set("path", path);
   }
 
-  const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?${params.toString()}`;
-  const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+  const url = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/commits?${params.toString()}`;
+  const res = await fetch(url, { headers: buildHeaders(env, userToken, target) });
 
   if (res.status === 404) {
     throw new RepoNotFoundError(`Repository ${owner}/${repo} not found or is private.`);
@@ -232,22 +466,258 @@ export async function fetchCommits(
     throw new GitHubApiError(res.status, `GitHub API returned ${res.status}`);
   }
 
-  const commits = await res.json() as Array<{
+  const commits = await res.json() as GitHubCommit[];
+  return commits.map(toCommitInfo);
+}
+
+/**
+ * Compares two refs: the commits in `base...head` and the files they change,
+ * with per-file unified diffs. GitHub lists at most 250 commits and 300
+ * files in one comparison; `totalCommits` still reports the full count.
+ */
+export async function fetchComparison(
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<CompareResult> {
+  const url =
+    `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/compare/` +
+    `${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+  const res = await fetch(url, { headers: buildHeaders(env, userToken, target) });
+  assertGitHubOk(res, `Could not compare ${base}...${head} in ${owner}/${repo}: repository or ref not found.`);
+
+  const data = await res.json() as {
+    html_url: string;
+    status: string;
+    ahead_by: number;
+    behind_by: number;
+    total_commits: number;
+    commits: GitHubCommit[];
+    files?: GitHubFile[];
+  };
+
+  return {
+    owner,
+    repo,
+    base,
+    head,
+    url: data.html_url,
+    status: data.status,
+    aheadBy: data.ahead_by,
+    behindBy: data.behind_by,
+    totalCommits: data.total_commits,
+    commits: data.commits.map(toCommitInfo),
+    files: (data.files ?? []).map(toChangedFile),
+    // GitHub stops listing files at the cap without saying how many changed
+    truncated: (data.files?.length ?? 0) >= MAX_COMPARE_FILES,
+  };
+}
+
+/**
+ * Fetches one commit with its full message, parents, and the per-file
+ * unified diffs of the change. Large commits page their files like pull
+ * requests do.
+ */
+export async function fetchCommit(
+  owner: string,
+  repo: string,
+  sha: string,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<CommitResult> {
+  const commitUrl = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${sha}`;
+  const notFound = `Commit ${sha} not found in ${owner}/${repo}.`;
+
+  let commit: {
     sha: string;
+    html_url: string;
     commit: {
-      author: {
-        name: string;
-        date: string;
-      };
+      author: { name: string; email: string; date: string };
+      committer: { name: string; date: string };
       message: string;
     };
-    files?: Array<unknown>;
-  }>;
+    author: { login: string } | null;
+    parents: Array<{ sha: string }>;
+    stats?: { additions: number; deletions: number };
+    files?: GitHubFile[];
+  } | undefined;
+  const files: ChangedFile[] = [];
+  for (let page = 1; page <= MAX_FILE_PAGES; page++) {
+    const res = await fetch(`${commitUrl}?per_page=${FILES_PER_PAGE}&page=${page}`, {
+      headers: buildHeaders(env, userToken, target),
+    });
+    assertGitHubOk(res, notFound);
+    const body = await res.json() as NonNullable<typeof commit>;
+    commit ??= body;
+    const batch = body.files ?? [];
+    files.push(...batch.map(toChangedFile));
+    if (batch.length < FILES_PER_PAGE) break;
+  }
+  if (!commit) throw new RepoNotFoundError(notFound);
 
-  return commits.map((commit) => ({
-    sha: commit.sha.substring(0, 7),
+  return {
+    owner,
+    repo,
+    sha: commit.sha,
+    url: commit.html_url,
+    message: commit.commit.message,
     author: commit.commit.author.name,
-    date: new Date(commit.commit.author.date).toISOString().split("T")[0],
-    message: commit.commit.message.split("\n")[0],
+    authorLogin: commit.author?.login,
+    date: commit.commit.author.date,
+    committer: commit.commit.committer.name,
+    parents: commit.parents.map((parent) => parent.sha),
+    additions: commit.stats?.additions ?? 0,
+    deletions: commit.stats?.deletions ?? 0,
+    files,
+    truncated: false,
+  };
+}
+
+/**
+ * Fetches the release for a tag, or the latest published release when no
+ * tag is given. Throws RepoNotFoundError when there is no such release.
+ */
+export async function fetchRelease(
+  owner: string,
+  repo: string,
+  tag: string | undefined,
+  env: Env,
+  userToken?: string,
+  target?: GitHubApiTarget
+): Promise<ReleaseInfo> {
+  const releasesUrl = `${target?.baseUrl ?? GITHUB_API_BASE}/repos/${owner}/${repo}/releases`;
+  const url = tag ? `${releasesUrl}/tags/${encodeURIComponent(tag)}` : `${releasesUrl}/latest`;
+  const res = await fetch(url, { headers: buildHeaders(env, userToken, target) });
+  assertGitHubOk(
+    res,
+    tag ? `No release for tag ${tag} in ${owner}/${repo}.` : `Repository ${owner}/${repo} has no published releases.`
+  );
+
+  const release = await res.json() as {
+    tag_name: string;
+    name: string | null;
+    published_at: string | null;
+    body: string | null;
+    html_url: string;
+    prerelease: boolean;
+    assets: Array<{ name: string; size: number; download_count: number; browser_download_url: string }>;
+  };
+
+  return {
+    tag: release.tag_name,
+    name: release.name || release.tag_name,
+    publishedAt: release.published_at ?? undefined,
+    body: release.body ?? "",
+    url: release.html_url,
+    prerelease: release.prerelease,
+    assets: release.assets.map((asset) => ({
+      name: asset.name,
+      size: asset.size,
+      downloadCount: asset.download_count,
+      url: asset.browser_download_url,
+    })),
+  };
+}
+
+// ── Gists ───────────────────────────────────────────────────────────────────
+
+/** A gist at one revision */
+export interface GistInfo {
+  id: string;
+  owner: string;
+  description: string;
+  /** Revision SHA the files were read at */
+  version: string;
+  files: Record<string, { size: number; rawUrl: string; truncated: boolean; content?: string }>;
+}
+
+/**
+ * Fetches a gist at a revision, or at its latest revision when none is
+ * given. File contents over about 1 MB come back truncated; `rawUrl` has
+ * the whole file.
+ */
+export async function fetchGist(
+  id: string,
+  revision: string | undefined,
+  env: Env,
+  userToken?: string
+): Promise<GistInfo> {
+  const url = `${GITHUB_API_BASE}/gists/${id}${revision ? `/${revision}` : ""}`;
+  const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+  assertGitHubOk(res, `Gist ${id}${revision ? ` at revision ${revision}` : ""} not found or is secret.`);
+
+  const gist = await res.json() as {
+    id: string;
+    description: string | null;
+    owner?: { login: string };
+    history: Array<{ version: string }>;
+    files: Record<string, { size: number; raw_url: string; truncated?: boolean; content?: string }>;
+  };
+
+  const files: GistInfo["files"] = {};
+  for (const [name, file] of Object.entries(gist.files)) {
+    files[name] = { size: file.size, rawUrl: file.raw_url, truncated: file.truncated ?? false, content: file.content };
+  }
+  return {
+    id: gist.id,
+    owner: gist.owner?.login ?? "anonymous",
+    description: gist.description ?? "",
+    version: revision ?? gist.history[0]?.version ?? "",
+    files,
+  };
+}
+
+/**
+ * Lists a gist's revisions, newest first. With `revision`, the list starts at
+ * that revision, so older history is shown the way a commit's log would be;
+ * revisions more than 300 back are not searched and give an empty list.
+ */
+export async function fetchGistCommits(
+  id: string,
+  env: Env,
+  userToken?: string,
+  revision?: string
+): Promise<CommitInfo[]> {
+  type GistRevision = {
+    version: string;
+    user: { login: string } | null;
+    committed_at: string;
+    change_status: { additions?: number; deletions?: number };
+  };
+
+  const perPage = revision ? GIST_REVISIONS_PER_PAGE : 10;
+  const revisions: GistRevision[] = [];
+  let start = -1;
+  for (let page = 1; page <= MAX_GIST_REVISION_PAGES; page++) {
+    const res = await fetch(`${GITHUB_API_BASE}/gists/${id}/commits?per_page=${perPage}&page=${page}`, {
+      headers: buildHeaders(env, userToken),
+    });
+    assertGitHubOk(res, `Gist ${id} not found or is secret.`);
+    const batch = await res.json() as GistRevision[];
+    revisions.push(...batch);
+    start = revision ? revisions.findIndex((r) => r.version.startsWith(revision)) : 0;
+    if (start !== -1 || batch.length < perPage) break;
+  }
+  if (start === -1) return [];
+
+  return revisions.slice(start, start + 10).map((revision) => ({
+    sha: revision.version.substring(0, 7),
+    author: revision.user?.login ?? "anonymous",
+    date: new Date(revision.committed_at).toISOString().split("T")[0],
+    message: `+${revision.change_status.additions ?? 0} -${revision.change_status.deletions ?? 0}`,
   }));
 }
+
+/** Gist revisions are paged 100 at a time when looking for a given revision */
+const GIST_REVISIONS_PER_PAGE = 100;
+const MAX_GIST_REVISION_PAGES = 3;
+
+/** Web URL of a gist revision's zip archive */
+export function gistArchiveUrl(owner: string, id: string, revision: string): string {
+  return `https://gist.github.com/${owner}/${id}/archive/${revision}.zip`;
+}
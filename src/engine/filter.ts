@@ -129,82 +129,327 @@ export function isBinaryContent(buffer: Uint8Array): boolean {
   return false;
 }
 
+interface GitignoreRule {
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
 /**
- * Converts a gitignore glob pattern to a RegExp.
- * Handles: wildcards (*), globstars (**), directory-only patterns (trailing /),
- * rooted patterns (leading /), and character escaping.
+ * Converts the glob body of a gitignore/gitattributes pattern to a RegExp
+ * source string.
+ * Handles: wildcards (*), globstars (leading, trailing, and inner),
+ * single-character wildcards (?), character classes ([a-z], [!a-z]),
+ * and backslash escapes.
  */
-function gitignorePatternToRegex(pattern: string): RegExp {
-  let rooted = false;
+function gitGlobToRegexSource(glob: string): string {
+  let out = "";
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
 
-  // Strip trailing slash (directory-only marker) — we only use the prefix match logic
-  const isDir = pattern.endsWith("/");
-  if (isDir) pattern = pattern.slice(0, -1);
+    if (ch === "*" && glob[i + 1] === "*") {
+      const atSegmentStart = i === 0 || glob[i - 1] === "/";
+      const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+      if (atSegmentStart && atSegmentEnd) {
+        if (i + 2 === glob.length) {
+          // Trailing "/**": everything inside
+          out += ".*";
+          i += 2;
+        } else {
+          // Leading "**/" or inner "/**/": zero or more directories
+          out += "(?:.*/)?";
+          i += 3;
+        }
+        continue;
+      }
+      // Any other "**" behaves like a regular "*"
+      out += "[^/]*";
+      i += 2;
+      continue;
+    }
 
-  // Rooted patterns start with /
-  if (pattern.startsWith("/")) {
-    rooted = true;
-    pattern = pattern.slice(1);
+    if (ch === "*") {
+      out += "[^/]*";
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+      } else {
+        let body = glob.slice(i + 1, close);
+        if (body.startsWith("!")) body = "^" + body.slice(1);
+        out += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (ch === "\\" && i + 1 < glob.length) {
+      i++;
+      out += glob[i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+    i++;
   }
+  return out;
+}
 
-  // Escape special regex chars except * and ?
-  let regexStr = pattern
-    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-    .replace(/\*\*/g, "<<<GLOBSTAR>>>")
-    .replace(/\*/g, "[^/]*")
-    .replace(/\?/g, "[^/]")
-    .replace(/<<<GLOBSTAR>>>/g, ".*");
+/**
+ * Converts a gitignore/gitattributes pattern (without its trailing slash) to
+ * a RegExp. Patterns containing a slash are anchored to the directory of the
+ * file that declares them; all others match a name at any depth.
+ */
+function gitPatternToRegex(pattern: string): RegExp {
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) pattern = pattern.slice(1);
+  const source = gitGlobToRegexSource(pattern);
+  return new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
 
-  if (isDir) {
-    // Match the directory itself or any file inside it
-    if (rooted) {
-      return new RegExp(`^${regexStr}(/.*)?$`);
-    }
-    return new RegExp(`(^|/)${regexStr}(/.*)?$`);
-  }
+/**
+ * Parses a single gitignore line into a rule, or returns null for blank
+ * lines, comments, and unparseable patterns.
+ */
+function parseGitignoreLine(rawLine: string): GitignoreRule | null {
+  // Trailing whitespace is ignored unless escaped with a backslash
+  let line = rawLine.replace(/\r$/, "").replace(/(?<!\\)\s+$/, "");
+  if (!line || line.startsWith("#")) return null;
+
+  const negate = line.startsWith("!");
+  if (negate) line = line.slice(1);
+  if (!line) return null;
 
-  if (rooted) {
-    // Rooted name: match at root level only (as file or directory prefix)
-    return new RegExp(`^${regexStr}(/.*)?$`);
+  const dirOnly = line.endsWith("/");
+  if (dirOnly) line = line.slice(0, -1);
+  if (!line) return null;
+
+  try {
+    return { negate, dirOnly, regex: gitPatternToRegex(line) };
+  } catch {
+    return null;
   }
+}
 
-  // Non-rooted: match anywhere in the path
-  return new RegExp(`(^|/)${regexStr}$`);
+function parseGitignoreRules(content: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  for (const rawLine of content.split("\n")) {
+    const rule = parseGitignoreLine(rawLine);
+    if (rule) rules.push(rule);
+  }
+  return rules;
 }
 
 /**
- * Parses a .gitignore file content and returns a predicate function.
- * The predicate returns true when a path should be ignored.
+ * Builds a predicate from every .gitignore file in a repository. Keys are the
+ * directory containing each file, relative to the repository root ("" for
+ * the root .gitignore); values are the file contents. The predicate returns
+ * true when a path should be ignored.
  *
- * Limitation: Only the root .gitignore is supported. Nested .gitignore files
- * (e.g., src/.gitignore) are not evaluated.
+ * Follows git's precedence rules:
+ *   - each file's patterns are relative to its own directory
+ *   - deeper .gitignore files override shallower ones
+ *   - within a file the last matching pattern wins, so negation (!) can
+ *     re-include a path excluded by an earlier pattern
+ *   - a path cannot be re-included when one of its parent directories is
+ *     excluded
+ */
+export function createGitignoreMatcher(
+  gitignores: Record<string, string>
+): (path: string) => boolean {
+  const depth = (dir: string) => (dir ? dir.split("/").length : 0);
+  const scopes = Object.entries(gitignores)
+    .map(([dir, content]) => ({
+      dir: dir.replace(/^\/+|\/+$/g, ""),
+      rules: parseGitignoreRules(content),
+    }))
+    .filter((scope) => scope.rules.length > 0)
+    // Deepest first, so the first scope with a matching rule decides
+    .sort((a, b) => depth(b.dir) - depth(a.dir));
+
+  const matchEntry = (path: string, isDir: boolean): boolean => {
+    for (const { dir, rules } of scopes) {
+      if (dir && !path.startsWith(dir + "/")) continue;
+      const relative = dir ? path.slice(dir.length + 1) : path;
+      for (let i = rules.length - 1; i >= 0; i--) {
+        const rule = rules[i];
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.regex.test(relative)) return !rule.negate;
+      }
+    }
+    return false;
+  };
+
+  const ignoredDirs = new Map<string, boolean>();
+  const isDirIgnored = (dir: string): boolean => {
+    let ignored = ignoredDirs.get(dir);
+    if (ignored === undefined) {
+      const slash = dir.lastIndexOf("/");
+      ignored = (slash !== -1 && isDirIgnored(dir.slice(0, slash))) || matchEntry(dir, true);
+      ignoredDirs.set(dir, ignored);
+    }
+    return ignored;
+  };
+
+  return (path: string): boolean => {
+    if (scopes.length === 0) return false;
+    const slash = path.lastIndexOf("/");
+    if (slash !== -1 && isDirIgnored(path.slice(0, slash))) return true;
+    return matchEntry(path, false);
+  };
+}
+
+/**
+ * Parses a single .gitignore file's content, scoped to the repository root,
+ * and returns a predicate function. The predicate returns true when a path
+ * should be ignored. Use createGitignoreMatcher to evaluate nested files.
  */
 export function parseGitignore(content: string): (path: string) => boolean {
-  const rules: Array<{ negate: boolean; regex: RegExp }> = [];
+  return createGitignoreMatcher({ "": content });
+}
+
+/**
+ * Attributes that mark a path as generated, vendored, documentation, or
+ * excluded from archives. Paths carrying any of them are dropped by default.
+ */
+const EXCLUDING_ATTRIBUTES = new Set([
+  "linguist-generated",
+  "linguist-vendored",
+  "linguist-documentation",
+  "export-ignore",
+]);
+
+interface GitattributesRule {
+  regex: RegExp;
+  /** true = set, false = unset, undefined = unspecified (!attr) */
+  attributes: Map<string, boolean | undefined>;
+}
+
+function parseAttributeValue(token: string): [string, boolean | undefined] {
+  if (token.startsWith("-")) return [token.slice(1), false];
+  if (token.startsWith("!")) return [token.slice(1), undefined];
+  const eq = token.indexOf("=");
+  if (eq === -1) return [token, true];
+  const value = token.slice(eq + 1).toLowerCase();
+  return [token.slice(0, eq), value !== "false" && value !== "0"];
+}
+
+function parseGitattributesRules(content: string): GitattributesRule[] {
+  const rules: GitattributesRule[] = [];
 
   for (const rawLine of content.split("\n")) {
     const line = rawLine.trim();
     if (!line || line.startsWith("#")) continue;
 
-    const negate = line.startsWith("!");
-    const pattern = negate ? line.slice(1) : line;
-    if (!pattern) continue;
+    const [pattern, ...tokens] = line.split(/\s+/);
+    // Negative patterns and directory-only patterns never match in gitattributes
+    if (pattern.startsWith("!") || pattern.endsWith("/")) continue;
+
+    const attributes = new Map<string, boolean | undefined>();
+    for (const token of tokens) {
+      const [name, value] = parseAttributeValue(token);
+      if (EXCLUDING_ATTRIBUTES.has(name)) attributes.set(name, value);
+    }
+    if (attributes.size === 0) continue;
 
     try {
-      rules.push({ negate, regex: gitignorePatternToRegex(pattern) });
+      rules.push({ regex: gitPatternToRegex(pattern), attributes });
     } catch {
       // Skip unparseable patterns
     }
   }
+  return rules;
+}
+
+/**
+ * Builds a predicate from every .gitattributes file in a repository. Keys are
+ * the directory containing each file, relative to the repository root ("" for
+ * the root file); values are the file contents. The predicate returns true
+ * when a path is marked linguist-generated, linguist-vendored,
+ * linguist-documentation, or export-ignore.
+ *
+ * Later lines override earlier ones and deeper files override shallower ones,
+ * so `linguist-generated=false` or `-export-ignore` can clear an attribute.
+ */
+export function createGitattributesMatcher(
+  gitattributes: Record<string, string>
+): (path: string) => boolean {
+  const depth = (dir: string) => (dir ? dir.split("/").length : 0);
+  const scopes = Object.entries(gitattributes)
+    .map(([dir, content]) => ({
+      dir: dir.replace(/^\/+|\/+$/g, ""),
+      rules: parseGitattributesRules(content),
+    }))
+    .filter((scope) => scope.rules.length > 0)
+    // Shallowest first, so deeper files are applied last and win
+    .sort((a, b) => depth(a.dir) - depth(b.dir));
 
   return (path: string): boolean => {
-    let ignored = false;
-    for (const { negate, regex } of rules) {
-      if (regex.test(path)) {
-        ignored = !negate;
+    const state = new Map<string, boolean | undefined>();
+    for (const { dir, rules } of scopes) {
+      if (dir && !path.startsWith(dir + "/")) continue;
+      const relative = dir ? path.slice(dir.length + 1) : path;
+      for (const { regex, attributes } of rules) {
+        if (!regex.test(relative)) continue;
+        for (const [name, value] of attributes) state.set(name, value);
       }
     }
-    return ignored;
+    for (const value of state.values()) {
+      if (value === true) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * Converts an include/exclude glob to a RegExp anchored at the repository root.
+ * Handles: wildcards (*), globstars (**, spanning zero or more directories),
+ * single-character wildcards (?), brace alternation ({ts,tsx}), and
+ * character escaping. A pattern without a slash matches the file name at any
+ * depth, and a pattern that matches a directory also matches everything
+ * inside it.
+ */
+function globToRegex(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.\//, "").replace(/^\//, "");
+  if (pattern.endsWith("/")) pattern = pattern.slice(0, -1);
+  const anywhere = !pattern.includes("/");
+
+  let regexStr = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\//g, "<<<GLOBSTAR_DIR>>>")
+    .replace(/\*\*/g, "<<<GLOBSTAR>>>")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/<<<GLOBSTAR_DIR>>>/g, "(.*/)?")
+    .replace(/<<<GLOBSTAR>>>/g, ".*");
+
+  // Brace alternation, innermost first so groups can nest; braces without a
+  // comma stay literal
+  const braceGroup = /\\\{([^{}]*,[^{}]*)\\\}/;
+  while (braceGroup.test(regexStr)) {
+    regexStr = regexStr.replace(braceGroup, (_, body: string) => `(?:${body.split(",").join("|")})`);
+  }
+
+  return new RegExp(`${anywhere ? "(^|/)" : "^"}${regexStr}(/.*)?$`);
+}
+
+/**
+ * Builds a predicate from include/exclude glob lists. The predicate returns
+ * true when a path should be kept: it must match at least one include glob
+ * (when any are given) and no exclude glob. Paths are relative to the
+ * repository root.
+ */
+export function createGlobFilter(
+  include: string[] = [],
+  exclude: string[] = []
+): (path: string) => boolean {
+  const includeRegexes = include.filter((g) => g.trim()).map(globToRegex);
+  const excludeRegexes = exclude.filter((g) => g.trim()).map(globToRegex);
+
+  return (path: string): boolean => {
+    if (includeRegexes.length > 0 && !includeRegexes.some((r) => r.test(path))) {
+      return false;
+    }
+    return !excludeRegexes.some((r) => r.test(path));
   };
 }
 
@@ -1,8 +1,18 @@
-import type { CommitInfo } from "./fetcher";
-
-import type { DetailLevel, FileEntry, IngestResult } from "../types";
-
-import type { CommitInfo } from "./fetcher";
+import {
+  JSON_SCHEMA_VERSION,
+  type BlobResult,
+  type ChangedFile,
+  type CommitInfo,
+  type CommitResult,
+  type CompareResult,
+  type DetailLevel,
+  type FileEntry,
+  type IngestResult,
+  type JsonOutput,
+  type PullRequestResult,
+  type ReleaseInfo,
+  type TreeJson,
+} from "../types";
 
 // ── Language detection ────────────────────────────────────────────────────────
 
@@ -83,6 +93,28 @@ export function detectLanguage(filePath: string): string {
   return EXT_TO_LANG[ext] ?? "";
 }
 
+// ── Code fences ───────────────────────────────────────────────────────────────
+
+/**
+ * Returns a backtick fence longer than any backtick run in `content`. A fence
+ * closes only on a run at least as long as the one that opened it, so files
+ * that contain fences themselves (READMEs, docs, code samples) stay inside
+ * their block.
+ */
+export function fenceFor(content: string): string {
+  let longest = 0;
+  for (const run of content.match(/`+/g) ?? []) {
+    longest = Math.max(longest, run.length);
+  }
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/** Wraps `content` in a fenced block that `content` cannot close */
+function fenced(content: string, lang = ""): string {
+  const fence = fenceFor(content);
+  return `${fence}${lang}\n${content}\n${fence}`;
+}
+
 // ── Summary block ─────────────────────────────────────────────────────────────
 
 export function formatSummary(result: IngestResult): string {
@@ -90,30 +122,78 @@ export function formatSummary(result: IngestResult): string {
     "---",
     `repo: ${result.repoName}`,
     `ref: ${result.ref}`,
-    `files: ${result.fileCount}`,
-    `size: ${result.totalSize}`,
-    `truncated: ${result.truncated}`,
-    "---",
-    "",
-    `# ${result.repoName}`,
-    "",
-    `**Ref:** \`${result.ref}\`  `,
-    `**Files:** ${result.fileCount}  `,
-    `**Total size:** ${formatBytes(result.totalSize)}  `,
-    "",
   ];
+  if (result.path) {
+    lines.push(`path: ${result.path}`);
+  }
+  lines.push(`files: ${result.fileCount}`, `size: ${result.totalSize}`);
+  if (result.totalTokens !== undefined) {
+    lines.push(`tokens: ${result.totalTokens}`);
+  }
+  lines.push(`truncated: ${result.truncated}`);
+  if (result.configFiles?.length) {
+    lines.push(`config: ${result.configFiles.join(", ")}`);
+  }
+  if (result.description) {
+    // JSON string syntax is valid YAML and escapes colons, quotes, and newlines
+    lines.push(`description: ${JSON.stringify(result.description)}`);
+  }
+  if (result.release) {
+    lines.push(`release: ${result.release.tag}`);
+  }
+  lines.push("---", "");
+  if (result.release) {
+    lines.push(formatRelease(result.release));
+  }
+  lines.push(formatSummarySection(result));
   return lines.join("\n");
 }
 
 function formatSummarySection(result: IngestResult): string {
-  const lines = [
-    `# ${result.repoName}`,
-    "",
-    `**Ref:** \`${result.ref}\`  `,
+  const lines = [`# ${result.repoName}`, ""];
+  if (result.description) {
+    lines.push(result.description, "");
+  }
+  lines.push(`**Ref:** \`${result.ref}\`  `);
+  if (result.path) {
+    lines.push(`**Path:** \`${result.path}\`  `);
+  }
+  lines.push(
     `**Files:** ${result.fileCount}  `,
-    `**Total size:** ${formatBytes(result.totalSize)}  `,
+    `**Total size:** ${formatBytes(result.totalSize)}  `
+  );
+  if (result.totalTokens !== undefined) {
+    lines.push(`**Estimated tokens:** ${result.totalTokens}  `);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ── Release ───────────────────────────────────────────────────────────────────
+
+/** Release name, publish date, notes, and assets, shown ahead of the summary */
+function formatRelease(release: ReleaseInfo): string {
+  const lines = [
+    "## Release",
     "",
+    `**Release:** ${release.name}${release.prerelease ? " (pre-release)" : ""}  `,
+    `**Tag:** \`${release.tag}\`  `,
   ];
+  if (release.publishedAt) {
+    lines.push(`**Published:** ${release.publishedAt.split("T")[0]}  `);
+  }
+  lines.push(`**URL:** ${release.url}  `, "");
+
+  if (release.body.trim()) {
+    lines.push("### Release Notes", "", release.body.trim(), "");
+  }
+  if (release.assets.length > 0) {
+    lines.push("### Assets", "", "| Asset | Size | Downloads |", "|-------|------|-----------|");
+    for (const asset of release.assets) {
+      lines.push(`| [${asset.name}](${asset.url}) | ${formatBytes(asset.size)} | ${asset.downloadCount} |`);
+    }
+    lines.push("");
+  }
   return lines.join("\n");
 }
 
@@ -149,10 +229,15 @@ function buildTree(files: FileEntry[]): TreeNode {
   return root;
 }
 
+// Files may arrive in importance order; the tree is always shown by name
+function sortedChildren(node: TreeNode): TreeNode[] {
+  return [...node.children.values()].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
 function renderTree(node: TreeNode, prefix: string, isLast: boolean, isRoot: boolean): string {
   if (isRoot) {
     let output = "";
-    const children = [...node.children.values()];
+    const children = sortedChildren(node);
     for (let i = 0; i < children.length; i++) {
       output += renderTree(children[i], "", i === children.length - 1, false);
     }
@@ -164,7 +249,7 @@ function renderTree(node: TreeNode, prefix: string, isLast: boolean, isRoot: boo
   let output = `${prefix}${connector}${displayName}\n`;
 
   const childPrefix = prefix + (isLast ? "    " : "│   ");
-  const children = [...node.children.values()];
+  const children = sortedChildren(node);
   for (let i = 0; i < children.length; i++) {
     output += renderTree(children[i], childPrefix, i === children.length - 1, false);
   }
@@ -175,7 +260,8 @@ export function formatTree(files: FileEntry[], rootName?: string): string {
   const tree = buildTree(files);
   const header = rootName ? `${rootName}/\n` : "./\n";
   const body = renderTree(tree, "", true, true);
-  return `\`\`\`\n${header}${body}\`\`\`\n`;
+  // File names may contain backticks too
+  return fenced((header + body).replace(/\n$/, "")) + "\n";
 }
 
 // ── File list table ───────────────────────────────────────────────────────────
@@ -185,14 +271,14 @@ export function formatFileList(result: IngestResult): string {
   const tree = formatTree(result.files);
 
   const rows = result.files
-    .map((f) => `| ${f.path} | ${f.size} | ${f.lines ?? "-"} |`)
+    .map((f) => `| ${f.path} | ${f.size} | ${f.lines ?? "-"} | ${f.tokens ?? "-"} |`)
     .join("\n");
 
   const table = [
     "## File List",
     "",
-    "| Path | Size (bytes) | Lines |",
-    "|------|-------------|-------|",
+    "| Path | Size (bytes) | Lines | Tokens |",
+    "|------|-------------|-------|--------|",
     rows,
     "",
   ].join("\n");
@@ -210,7 +296,6 @@ export function formatFileBlock(file: FileEntry): string {
   
   const path = file.path ?? "unknown";
   const lang = detectLanguage(path);
-  const fence = `\`\`\`${lang}`;
   const content = file.content ?? "";
   
   // Sanitize content to prevent markdown issues
@@ -219,9 +304,7 @@ export function formatFileBlock(file: FileEntry): string {
   return [
     `### \`${path}\``,
     "",
-    fence,
-    safeContent,
-    "```",
+    fenced(safeContent, lang),
     "",
   ].join("\n");
 }
@@ -257,30 +340,419 @@ export function formatCommits(
     "",
     "## Recent Commits",
     "",
-    "| SHA | Author | Date | Message |",
-    "|-----|--------|------|---------|",
+    ...commitTable(commits),
+    "",
   ];
+  return lines.join("\n");
+}
 
+function commitTable(commits: CommitInfo[]): string[] {
+  const lines = ["| SHA | Author | Date | Message |", "|-----|--------|------|---------|"];
   for (const commit of commits) {
     lines.push(`| \`${commit.sha}\` | ${commit.author} | ${commit.date} | ${commit.message} |`);
   }
+  return lines;
+}
 
-  lines.push("");
+/**
+ * Footer pointing at the next page of a truncated result. Empty when the
+ * result is complete. REST responses link the next URL; MCP callers get the
+ * cursor to pass back.
+ */
+export function formatNextPage(result: IngestResult): string {
+  if (!result.nextCursor) return "";
+  const next = result.nextPageUrl
+    ? `**Next page:** ${result.nextPageUrl}`
+    : `**Next page:** call again with \`cursor: "${result.nextCursor}"\``;
+  return `\n---\n\n${next}\n`;
+}
+
+// ── Single file ───────────────────────────────────────────────────────────────
+
+/**
+ * Formats a blob URL's file (or line range) as one fenced block, headed by
+ * its path, ref, and a permalink pinned to the commit.
+ */
+export function formatBlob(blob: BlobResult): string {
+  const frontMatter = ["---", `repo: ${blob.owner}/${blob.repo}`, `ref: ${blob.ref}`];
+  if (blob.sha) frontMatter.push(`commit: ${blob.sha}`);
+  frontMatter.push(`file: ${blob.path}`);
+  if (blob.lines) frontMatter.push(`lines: ${blob.lines.start}-${blob.lines.end}`);
+  frontMatter.push("---", "");
+
+  const scope = blob.lines
+    ? ` (lines ${blob.lines.start}-${blob.lines.end} of ${blob.totalLines})`
+    : blob.content !== undefined ? ` (${blob.totalLines} lines)` : "";
+  const lines = [
+    `# ${blob.owner}/${blob.repo}`,
+    "",
+    `**File:** \`${blob.path}\`${scope}  `,
+    `**Ref:** \`${blob.ref}\`${blob.sha ? ` (commit \`${blob.sha.slice(0, 7)}\`)` : ""}  `,
+    `**Permalink:** ${blob.permalink}  `,
+    "",
+  ];
+
+  if (blob.content === undefined) {
+    lines.push(`_Binary file (${formatBytes(blob.size)}); contents omitted._`, "");
+  } else {
+    lines.push(fenced(blob.content.replace(/\0/g, "").replace(/\n$/, ""), detectLanguage(blob.path)), "");
+  }
+  return frontMatter.join("\n") + "\n" + lines.join("\n");
+}
+
+// ── Pull request ──────────────────────────────────────────────────────────────
+
+/**
+ * Formats a pull request for review: metadata and description, the changed
+ * file table, one diff block per file, and the post-change contents of the
+ * touched files when they were fetched.
+ */
+export function formatPullRequest(pr: PullRequestResult): string {
+  const lines = [
+    "---",
+    `repo: ${pr.owner}/${pr.repo}`,
+    `pull: ${pr.number}`,
+    `base: ${pr.baseRef}`,
+    `head: ${pr.headRef}`,
+    `head_sha: ${pr.headSha}`,
+    `files: ${pr.changedFiles}`,
+    `truncated: ${pr.truncated}`,
+    "---",
+    "",
+    `# ${pr.owner}/${pr.repo}#${pr.number}: ${pr.title}`,
+    "",
+    `**Author:** @${pr.author}  `,
+    `**State:** ${pr.state}  `,
+    `**Base:** \`${pr.baseRef}\` (\`${pr.baseSha.slice(0, 7)}\`)  `,
+    `**Head:** \`${pr.headLabel}\` (\`${pr.headSha.slice(0, 7)}\`)  `,
+    `**Changes:** ${pr.changedFiles} files, +${pr.additions} -${pr.deletions}  `,
+    `**URL:** ${pr.url}  `,
+    "",
+  ];
+
+  if (pr.body.trim()) {
+    lines.push("## Description", "", pr.body.trim(), "");
+  }
+
+  lines.push(...changedFileSections(pr.files));
+
+  const contents = pr.files.flatMap((file) =>
+    file.content === undefined ? [] : [{ path: file.path, size: file.content.length, content: file.content }]
+  );
+  if (contents.length > 0) {
+    lines.push("## Head Contents", "");
+    for (const file of contents) {
+      lines.push(formatFileBlock(file));
+    }
+  }
+
+  if (pr.truncated && pr.truncationMessage) {
+    lines.push(pr.truncationMessage, "");
+  }
+  return lines.join("\n");
+}
+
+/** The changed file table followed by one diff block per file */
+function changedFileSections(files: ChangedFile[]): string[] {
+  const lines = ["## Changed Files", "", "| File | Status | + | - |", "|------|--------|---|---|"];
+  for (const file of files) {
+    const name = file.previousPath ? `\`${file.previousPath}\` → \`${file.path}\`` : `\`${file.path}\``;
+    lines.push(`| ${name} | ${file.status} | ${file.additions} | ${file.deletions} |`);
+  }
+  lines.push("", "## Diff", "");
+
+  for (const file of files) {
+    lines.push(`### \`${file.path}\``, "");
+    lines.push(file.patch ? fenced(file.patch, "diff") : "_No textual diff (binary or too large)._", "");
+  }
+  return lines;
+}
+
+// ── Compare ───────────────────────────────────────────────────────────────────
+
+/**
+ * Formats the changes between two refs as a changeset: the commits in range,
+ * the changed file table, and one diff block per file.
+ */
+export function formatCompare(comparison: CompareResult): string {
+  const lines = [
+    "---",
+    `repo: ${comparison.owner}/${comparison.repo}`,
+    `base: ${comparison.base}`,
+    `head: ${comparison.head}`,
+    `commits: ${comparison.totalCommits}`,
+    `files: ${comparison.files.length}`,
+    `truncated: ${comparison.truncated}`,
+    "---",
+    "",
+    `# ${comparison.owner}/${comparison.repo}: ${comparison.base}...${comparison.head}`,
+    "",
+    `**Status:** ${comparison.status} (${comparison.aheadBy} ahead, ${comparison.behindBy} behind)  `,
+    `**Commits:** ${comparison.totalCommits}  `,
+    `**Files:** ${comparison.files.length}  `,
+    `**URL:** ${comparison.url}  `,
+    "",
+  ];
+
+  if (comparison.commits.length > 0) {
+    lines.push("## Commits", "", ...commitTable(comparison.commits), "");
+  }
+  lines.push(...changedFileSections(comparison.files));
+
+  if (comparison.truncated && comparison.truncationMessage) {
+    lines.push(comparison.truncationMessage, "");
+  }
   return lines.join("\n");
 }
 
+// ── Commit ────────────────────────────────────────────────────────────────────
+
+/**
+ * Formats a single commit: its metadata and full message, the changed file
+ * table, and one diff block per file.
+ */
+export function formatCommit(commit: CommitResult): string {
+  const [subject, ...rest] = commit.message.split("\n");
+  const body = rest.join("\n").trim();
+  const author = commit.authorLogin ? `${commit.author} (@${commit.authorLogin})` : commit.author;
+  const parents = commit.parents.length > 0
+    ? commit.parents.map((parent) => `\`${parent.slice(0, 7)}\``).join(", ")
+    : "none (root commit)";
+
+  const lines = [
+    "---",
+    `repo: ${commit.owner}/${commit.repo}`,
+    `commit: ${commit.sha}`,
+    `parents: ${commit.parents.join(", ")}`,
+    `files: ${commit.files.length}`,
+    `truncated: ${commit.truncated}`,
+    "---",
+    "",
+    `# ${commit.owner}/${commit.repo}@${commit.sha.slice(0, 7)}: ${subject}`,
+    "",
+    `**Author:** ${author}  `,
+    `**Date:** ${commit.date}  `,
+    `**Committer:** ${commit.committer}  `,
+    `**Parents:** ${parents}  `,
+    `**Changes:** ${commit.files.length} files, +${commit.additions} -${commit.deletions}  `,
+    `**URL:** ${commit.url}  `,
+    "",
+  ];
+
+  if (body) {
+    lines.push("## Message", "", body, "");
+  }
+  lines.push(...changedFileSections(commit.files));
+
+  if (commit.truncated && commit.truncationMessage) {
+    lines.push(commit.truncationMessage, "");
+  }
+  return lines.join("\n");
+}
+
+// ── JSON output ───────────────────────────────────────────────────────────────
+
+/**
+ * Builds the format=json body for a repository tree. Fields the Markdown
+ * only shows as text (language, truncation, cursors) are given as data.
+ */
+export function toTreeJson(
+  result: IngestResult,
+  meta: { host: string; sha?: string; commits?: CommitInfo[]; commit?: CommitResult }
+): TreeJson {
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    kind: "tree",
+    host: meta.host,
+    owner: result.owner,
+    repo: result.repo,
+    ref: result.ref,
+    sha: meta.sha,
+    path: result.path,
+    description: result.description,
+    release: result.release,
+    commit: meta.commit,
+    fileCount: result.fileCount,
+    totalSize: result.totalSize,
+    totalTokens: result.totalTokens,
+    files: result.files.map((f) => ({
+      path: f.path,
+      size: f.size,
+      lines: f.lines,
+      tokens: f.tokens,
+      language: detectLanguage(f.path),
+      content: f.content,
+    })),
+    commits: meta.commits,
+    configFiles: result.configFiles,
+    truncated: result.truncated,
+    truncationMessage: result.truncationMessage,
+    nextCursor: result.nextCursor,
+    nextPageUrl: result.nextPageUrl,
+  };
+}
+
+export function formatJson(output: JsonOutput): string {
+  return JSON.stringify(output);
+}
+
+// ── XML output ────────────────────────────────────────────────────────────────
+
+/**
+ * Escapes text for an XML element body. Control characters XML 1.0 cannot
+ * carry at all (NUL and friends) are dropped rather than escaped.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function xmlAttr(text: string): string {
+  return escapeXml(text).replace(/"/g, "&quot;");
+}
+
+/** `<tag>value</tag>`, or nothing when the value is missing */
+function xmlElement(tag: string, value: string | number | undefined): string[] {
+  return value === undefined || value === "" ? [] : [`<${tag}>${escapeXml(String(value))}</${tag}>`];
+}
+
+function xmlDocument(index: number, path: string, content: string): string[] {
+  return [
+    `<document index="${index}">`,
+    `<source>${escapeXml(path)}</source>`,
+    `<document_content>${escapeXml(content)}</document_content>`,
+    "</document>",
+  ];
+}
+
+/**
+ * Renders a repository as the long-context document layout several model
+ * vendors recommend: a `<documents>` root holding repository metadata, the
+ * tree, and one `<document>` per file. Detail levels pick the sections as in
+ * Markdown; files become documents only when contents were requested.
+ */
+export function formatXml(
+  result: IngestResult,
+  details: DetailLevel[],
+  meta: { host: string; sha?: string; commits?: CommitInfo[]; commit?: CommitResult }
+): string {
+  const hasFull = details.includes("full");
+  const lines = [
+    "<documents>",
+    "<repository>",
+    ...xmlElement("name", result.repoName),
+    ...xmlElement("host", meta.host),
+    ...xmlElement("ref", result.ref),
+    ...xmlElement("sha", meta.sha),
+    ...xmlElement("path", result.path),
+    ...xmlElement("description", result.description),
+    ...xmlElement("file_count", result.fileCount),
+    ...xmlElement("total_size", result.totalSize),
+    ...xmlElement("estimated_tokens", result.totalTokens),
+    "</repository>",
+  ];
+
+  if (result.release) {
+    const release = result.release;
+    lines.push(
+      `<release tag="${xmlAttr(release.tag)}"${release.prerelease ? ' prerelease="true"' : ""}>`,
+      ...xmlElement("name", release.name),
+      ...xmlElement("published", release.publishedAt),
+      ...xmlElement("url", release.url),
+      ...xmlElement("notes", release.body.trim()),
+      "</release>"
+    );
+  }
+
+  if (meta.commit) {
+    const commit = meta.commit;
+    lines.push(
+      `<commit sha="${xmlAttr(commit.sha)}">`,
+      ...xmlElement("author", commit.author),
+      ...xmlElement("date", commit.date),
+      ...xmlElement("message", commit.message),
+      "</commit>"
+    );
+  }
+
+  if (details.includes("structure") || details.includes("file-list") || hasFull) {
+    lines.push(`<directory_structure>${escapeXml(formatTree(result.files))}</directory_structure>`);
+  }
+
+  if (details.includes("file-list") || hasFull) {
+    lines.push("<files>");
+    for (const file of result.files) {
+      const attrs = [`path="${xmlAttr(file.path)}"`, `size="${file.size}"`];
+      if (file.lines !== undefined) attrs.push(`lines="${file.lines}"`);
+      if (file.tokens !== undefined) attrs.push(`tokens="${file.tokens}"`);
+      lines.push(`<file ${attrs.join(" ")}/>`);
+    }
+    lines.push("</files>");
+  }
+
+  if (meta.commits && meta.commits.length > 0) {
+    lines.push("<commits>");
+    for (const commit of meta.commits) {
+      lines.push(
+        `<commit sha="${xmlAttr(commit.sha)}" author="${xmlAttr(commit.author)}" date="${xmlAttr(commit.date)}">` +
+          `${escapeXml(commit.message)}</commit>`
+      );
+    }
+    lines.push("</commits>");
+  }
+
+  if (details.includes("file-contents") || hasFull) {
+    let index = 0;
+    for (const file of result.files) {
+      if (file.content === undefined) continue;
+      lines.push(...xmlDocument(++index, file.path, file.content));
+    }
+  }
+
+  if (result.truncated && result.truncationMessage) {
+    lines.push(...xmlElement("truncation", result.truncationMessage));
+  }
+  lines.push(...xmlElement("next_cursor", result.nextCursor), ...xmlElement("next_page", result.nextPageUrl));
+  lines.push("</documents>");
+  return lines.join("\n") + "\n";
+}
+
+/** A blob URL's file (or line range) as a single document */
+export function formatBlobXml(blob: BlobResult): string {
+  const lines = [
+    "<documents>",
+    "<repository>",
+    ...xmlElement("name", `${blob.owner}/${blob.repo}`),
+    ...xmlElement("ref", blob.ref),
+    ...xmlElement("sha", blob.sha),
+    ...xmlElement("permalink", blob.permalink),
+    ...xmlElement("lines", blob.lines ? `${blob.lines.start}-${blob.lines.end}` : undefined),
+    "</repository>",
+  ];
+  if (blob.content !== undefined) {
+    lines.push(...xmlDocument(1, blob.path, blob.content));
+  }
+  lines.push("</documents>");
+  return lines.join("\n") + "\n";
+}
+
 // ── Dispatcher ────────────────────────────────────────────────────────────────
 
 export function formatOutput(result: IngestResult, detail: DetailLevel): string {
   switch (detail) {
     case "summary":
-      return formatSummary(result);
+      return formatSummary(result) + formatNextPage(result);
     case "structure":
-      return formatSummary(result) + "\n## Directory Structure\n\n" + formatTree(result.files);
+      return (
+        formatSummary(result) + "\n## Directory Structure\n\n" + formatTree(result.files) + formatNextPage(result)
+      );
     case "file-list":
-      return formatFileList(result);
+      return formatFileList(result) + formatNextPage(result);
     case "file-contents":
-      return formatFull(result);
+      return formatFull(result) + formatNextPage(result);
     case "commits":
     case "full":
       return "";
@@ -293,6 +765,11 @@ export function formatCombinedOutput(
   commits?: { owner: string; repo: string; ref: string; commits: CommitInfo[] }
 ): string {
   const parts: string[] = [];
+
+  // Release notes lead when the ref came from a release URL
+  if (result.release) {
+    parts.push(formatRelease(result.release));
+  }
   
   // Check which detail levels are selected
   const hasFull = details.includes("full");
@@ -315,14 +792,14 @@ export function formatCombinedOutput(
   // Include file list table if selected
   if (hasFileList) {
     const rows = result.files
-      .map((f) => `| ${f.path} | ${f.size} | ${f.lines ?? "-"} |`)
+      .map((f) => `| ${f.path} | ${f.size} | ${f.lines ?? "-"} | ${f.tokens ?? "-"} |`)
       .join("\n");
     
     const table = [
       "## File List",
       "",
-      "| Path | Size (bytes) | Lines |",
-      "|------|-------------|-------|",
+      "| Path | Size (bytes) | Lines | Tokens |",
+      "|------|-------------|-------|--------|",
       rows,
       "",
     ].join("\n");
@@ -347,5 +824,5 @@ export function formatCombinedOutput(
     parts.push(formatCommits(commits.owner, commits.repo, commits.ref, commits.commits));
   }
   
-  return parts.join("\n\n---\n\n");
+  return parts.join("\n\n---\n\n") + formatNextPage(result);
 }
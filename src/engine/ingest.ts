@@ -1,61 +1,210 @@
 import { parseRequest } from "./parser";
-import { resolveDefaultRef, checkZipSize, fetchZipball } from "./fetcher";
-import { decompressAndProcess } from "./decompressor";
-import { formatOutput } from "./formatter";
-import type { DetailLevel, Env } from "../types";
+import { getProvider, publicHostKind } from "./providers";
+import { decompressStream } from "./decompressor";
+import { archiveLimitsFromEnv } from "./limits";
+import { fetchBlob } from "./blob";
+import { ingestPullRequest } from "./pull";
+import { ingestCompare } from "./compare";
+import { ingestCommit } from "./commit";
+import { resolveRelease } from "./release";
+import { splitParsedRefAndPath } from "./refs";
+import { formatBlob, formatCommit, formatCompare, formatOutput, formatPullRequest } from "./formatter";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import type { ProviderKind } from "./providers";
+import type { DetailLevel, Env, FileOrder, ParsedRequest } from "../types";
+
+export interface IngestOptions {
+  include?: string[];
+  exclude?: string[];
+  includeGenerated?: boolean;
+  maxTokens?: number;
+  order?: FileOrder;
+  /** Cursor from a previous truncated response */
+  cursor?: string;
+  /**
+   * Tokens per forge. When given, only the token for the URL's forge is
+   * used and userToken is ignored, so a token never reaches another host.
+   * Self-hosted forges get none of these; they use their server token.
+   */
+  tokens?: Partial<Record<ProviderKind, string>>;
+  /** For pull request URLs, also return the post-change contents of touched files */
+  includeContents?: boolean;
+  /** Output budget in bytes; defaults to MAX_OUTPUT_BYTES */
+  maxOutputBytes?: number;
+  /** Lets slash-containing ref splits be cached; without it they are resolved every time */
+  ctx?: ExecutionContext;
+}
 
 /**
  * Shared ingestion pipeline used by both the REST API handler and the MCP tool.
- * Takes a GitHub URL (or owner/repo shorthand), runs the full pipeline,
+ * Takes a forge URL (or GitHub owner/repo shorthand), runs the full pipeline,
  * and returns the formatted Markdown as a string.
  *
- * Unlike handleIngest, this function does NOT handle caching, rate limiting,
- * or streaming — it is intended for use in contexts where the caller manages
- * those concerns (e.g., the MCP server returns the full string to the client).
+ * Unlike handleIngest, this function does NOT cache responses or rate limit
+ * — it is intended for use in contexts where the caller manages those
+ * concerns (e.g., the MCP server returns the full string to the client).
  */
 export async function ingestFromUrl(
-  githubUrl: string,
+  sourceUrl: string,
   detail: DetailLevel,
   env: Env,
-  userToken?: string
+  userToken?: string,
+  options: IngestOptions = {}
 ): Promise<string> {
   // Normalize: if given `owner/repo` shorthand, prefix with the URL-appended form
   let urlToParse: string;
-  if (githubUrl.startsWith("https://github.com/")) {
-    urlToParse = `https://gitprism.cloudemo.org/${githubUrl}`;
-  } else if (!githubUrl.startsWith("http")) {
+  if (sourceUrl.startsWith("https://")) {
+    urlToParse = `https://gitprism.cloudemo.org/${sourceUrl}`;
+  } else if (!sourceUrl.startsWith("http")) {
     // Assume owner/repo shorthand
-    urlToParse = `https://gitprism.cloudemo.org/ingest?repo=${encodeURIComponent(githubUrl)}&detail=${detail}`;
+    urlToParse = `https://gitprism.cloudemo.org/ingest?repo=${encodeURIComponent(sourceUrl)}&detail=${detail}`;
   } else {
-    urlToParse = `https://gitprism.cloudemo.org/${githubUrl}`;
+    urlToParse = `https://gitprism.cloudemo.org/${sourceUrl}`;
+  }
+
+  const parsed = parseRequest(new Request(urlToParse), env);
+  parsed.detail = [detail]; // override with caller's detail
+
+  return ingestParsed(parsed, detail, env, userToken, options);
+}
+
+/**
+ * Runs the pipeline for an already-parsed request. Used by ingestFromUrl and
+ * by batch requests, which build each item's request from JSON.
+ */
+export async function ingestParsed(
+  parsed: ParsedRequest,
+  detail: DetailLevel,
+  env: Env,
+  userToken?: string,
+  options: IngestOptions = {}
+): Promise<string> {
+  const provider = getProvider(parsed.host, env);
+  if (options.tokens) userToken = publicHostKind(provider.host) ? options.tokens[provider.kind] : undefined;
+  const maxOutputBytes = options.maxOutputBytes ?? parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10);
+  const maxFileCount = parseInt(env.MAX_FILE_COUNT ?? "5000", 10);
+
+  if (parsed.pull) {
+    const pr = await ingestPullRequest(
+      provider,
+      parsed.owner,
+      parsed.repo,
+      parsed.pull.number,
+      {
+        includeContents: options.includeContents ?? parsed.pull.includeContents,
+        include: options.include ?? parsed.include,
+        exclude: options.exclude ?? parsed.exclude,
+        maxOutputBytes,
+        maxFileCount,
+      },
+      userToken
+    );
+    return formatPullRequest(pr);
+  }
+
+  if (parsed.compare) {
+    const comparison = await ingestCompare(
+      provider,
+      parsed.owner,
+      parsed.repo,
+      parsed.compare.base,
+      parsed.compare.head,
+      {
+        path: parsed.path,
+        include: options.include ?? parsed.include,
+        exclude: options.exclude ?? parsed.exclude,
+        includeGenerated: options.includeGenerated ?? parsed.includeGenerated,
+        maxOutputBytes,
+        maxFileCount,
+      },
+      userToken
+    );
+    return formatCompare(comparison);
   }
 
-  const parsed = parseRequest(new Request(urlToParse));
-  parsed.detail = detail; // override with caller's detail
+  const cursor = options.cursor ? decodeCursor(options.cursor, parsed.owner, parsed.repo) : parsed.cursor;
+
+  const release = parsed.release
+    ? await resolveRelease(provider, parsed.owner, parsed.repo, parsed.release.tag, userToken)
+    : undefined;
+  if (release) parsed.ref = release.tag;
+  if (parsed.refAndPath) {
+    const split = await splitParsedRefAndPath(provider, parsed, parsed.refAndPath, userToken, {
+      ctx: options.ctx,
+      noCache: parsed.noCache,
+    });
+    parsed.ref = split.ref;
+    parsed.path = split.path;
+  }
 
-  let ref = parsed.ref;
+  let ref = cursor?.ref ?? parsed.ref;
   if (!ref) {
-    ref = await resolveDefaultRef(parsed.owner, parsed.repo, env, userToken);
+    ref = await provider.resolveDefaultRef(parsed.owner, parsed.repo, userToken);
   }
+  // Pin the download to a commit so later pages see the same tree
+  const sha = cursor ? cursor.ref : await provider.resolveRefToSha(parsed.owner, parsed.repo, ref, userToken);
 
-  await checkZipSize(parsed.owner, parsed.repo, ref, env, userToken);
+  if (parsed.blob && parsed.path) {
+    const blob = await fetchBlob(
+      provider,
+      { owner: parsed.owner, repo: parsed.repo, ref, sha, path: parsed.path, lines: parsed.blob.lines },
+      userToken
+    );
+    return formatBlob(blob);
+  }
 
-  const { data: zipData } = await fetchZipball(parsed.owner, parsed.repo, ref, env, userToken);
+  let commitBlock = "";
+  if (parsed.commit) {
+    const commit = await ingestCommit(
+      provider,
+      parsed.owner,
+      parsed.repo,
+      sha ?? ref,
+      {
+        path: parsed.path,
+        include: options.include ?? parsed.include,
+        exclude: options.exclude ?? parsed.exclude,
+        maxOutputBytes,
+        maxFileCount,
+      },
+      userToken
+    );
+    commitBlock = formatCommit(commit);
+    if (!parsed.commit.includeTree) return commitBlock;
+    commitBlock += "\n";
+  }
 
-  const maxOutputBytes = parseInt(env.MAX_OUTPUT_BYTES ?? "10485760", 10);
-  const maxFileCount = parseInt(env.MAX_FILE_COUNT ?? "5000", 10);
+  await provider.checkArchiveSize(parsed.owner, parsed.repo, sha ?? ref, userToken);
 
-  const result = decompressAndProcess(zipData, {
+  const { body: zipStream } = await provider.fetchArchive(parsed.owner, parsed.repo, sha ?? ref, userToken);
+
+  const result = await decompressStream(zipStream, {
     subpath: parsed.path,
+    include: options.include ?? parsed.include,
+    exclude: options.exclude ?? parsed.exclude,
+    includeGenerated: options.includeGenerated ?? parsed.includeGenerated,
     detail,
     maxOutputBytes,
     maxFileCount,
+    maxTokens: options.maxTokens ?? parsed.maxTokens,
+    order: options.order ?? parsed.order,
+    offset: cursor?.offset,
+    page: parsed.page,
+    limits: archiveLimitsFromEnv(env),
   });
 
   result.owner = parsed.owner;
   result.repo = parsed.repo;
   result.repoName = `${parsed.owner}/${parsed.repo}`;
-  result.ref = ref;
+  result.ref = parsed.ref ?? ref;
+  result.path = parsed.path;
+  result.release = release;
+  if (!result.description && provider.fetchDescription) {
+    result.description = await provider.fetchDescription(parsed.owner, parsed.repo, sha ?? ref, userToken);
+  }
+  if (result.nextOffset !== undefined) {
+    result.nextCursor = encodeCursor({ repo: result.repoName, ref: sha ?? ref, offset: result.nextOffset });
+  }
 
-  return formatOutput(result, detail);
+  return commitBlock + formatOutput(result, detail);
 }
@@ -0,0 +1,128 @@
+import { UnsafeArchiveError, type Env } from "../types";
+
+export interface ArchiveLimits {
+  /** Total uncompressed bytes the archive may hold */
+  maxUncompressedBytes: number;
+  /** Largest uncompressed-to-compressed size ratio allowed for a single entry */
+  maxCompressionRatio: number;
+  /** Maximum number of entries, directories included */
+  maxEntries: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxUncompressedBytes: 512 * 1024 * 1024,
+  maxCompressionRatio: 200,
+  maxEntries: 100_000,
+};
+
+/**
+ * Entries up to this size skip the ratio check. Small files of repeated
+ * bytes legitimately compress far better than any sane ratio limit.
+ */
+const RATIO_EXEMPT_BYTES = 1024 * 1024;
+
+/**
+ * Reads the archive limits from the Worker environment, falling back to the
+ * defaults for unset or invalid values.
+ */
+export function archiveLimitsFromEnv(env: Env): ArchiveLimits {
+  const read = (raw: string | undefined, fallback: number) => {
+    const value = raw ? parseInt(raw, 10) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    maxUncompressedBytes: read(env.MAX_UNCOMPRESSED_BYTES, DEFAULT_ARCHIVE_LIMITS.maxUncompressedBytes),
+    maxCompressionRatio: read(env.MAX_COMPRESSION_RATIO, DEFAULT_ARCHIVE_LIMITS.maxCompressionRatio),
+    maxEntries: read(env.MAX_ARCHIVE_ENTRIES, DEFAULT_ARCHIVE_LIMITS.maxEntries),
+  };
+}
+
+/**
+ * Returns true for entry names that could escape the extraction root:
+ * absolute paths, drive letters, `..` segments, and NUL bytes.
+ */
+export function isUnsafeEntryName(name: string): boolean {
+  if (name.includes("\0")) return true;
+  if (name.startsWith("/") || name.startsWith("\\") || /^[A-Za-z]:/.test(name)) return true;
+  return name.split(/[/\\]/).includes("..");
+}
+
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)} MB`;
+}
+
+/**
+ * Creates a checker that is fed every archive entry before it is inflated.
+ * It throws UnsafeArchiveError as soon as the entry count, the running total
+ * of uncompressed bytes, an entry's compression ratio, or an entry name
+ * breaks the limits.
+ *
+ * Declared sizes come from the zip headers, which a crafted archive can
+ * understate or leave out (data descriptors), and small entries skip the
+ * per-entry ratio check. So the bytes actually inflated are counted too, via
+ * `received` and `inflated`: their total is held to the same size limit, and
+ * past RATIO_EXEMPT_BYTES to the ratio limit against the compressed bytes
+ * read so far. That also catches many small, highly compressed entries.
+ *
+ * A streamed archive is checked from its local headers only. The central
+ * directory comes last, after every entry has been inflated, so checking it
+ * then would reject nothing earlier; the actual-byte counts cover what it
+ * would have caught.
+ */
+export function createArchiveGuard(limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS) {
+  let entries = 0;
+  let declaredBytes = 0;
+  let compressedBytes = 0;
+  let inflatedBytes = 0;
+
+  const checkTotal = (total: number) => {
+    if (total > limits.maxUncompressedBytes) {
+      throw new UnsafeArchiveError(
+        413,
+        `Archive expands to more than ${formatMB(limits.maxUncompressedBytes)}. ` +
+          "Use ?path= to target a subdirectory."
+      );
+    }
+  };
+
+  return {
+    check(name: string, compressedSize?: number, uncompressedSize?: number): void {
+      entries++;
+      if (entries > limits.maxEntries) {
+        throw new UnsafeArchiveError(413, `Archive has more than ${limits.maxEntries} entries.`);
+      }
+      if (isUnsafeEntryName(name)) {
+        throw new UnsafeArchiveError(422, `Archive contains an unsafe entry name: ${JSON.stringify(name)}`);
+      }
+      if (uncompressedSize === undefined) return;
+      if (
+        uncompressedSize > RATIO_EXEMPT_BYTES &&
+        uncompressedSize > (compressedSize ?? 0) * limits.maxCompressionRatio
+      ) {
+        throw new UnsafeArchiveError(
+          422,
+          `Archive entry ${JSON.stringify(name)} has a suspicious compression ratio ` +
+            `(${formatMB(uncompressedSize)} from ${compressedSize ?? 0} bytes).`
+        );
+      }
+      declaredBytes += uncompressedSize;
+      checkTotal(declaredBytes);
+    },
+    /** Counts compressed bytes read from the archive */
+    received(bytes: number): void {
+      compressedBytes += bytes;
+    },
+    /** Counts bytes produced by inflating any entry */
+    inflated(bytes: number): void {
+      inflatedBytes += bytes;
+      checkTotal(inflatedBytes);
+      if (inflatedBytes > RATIO_EXEMPT_BYTES && inflatedBytes > compressedBytes * limits.maxCompressionRatio) {
+        throw new UnsafeArchiveError(
+          422,
+          `Archive has a suspicious compression ratio ` +
+            `(${formatMB(inflatedBytes)} inflated from ${compressedBytes} bytes read).`
+        );
+      }
+    },
+  };
+}
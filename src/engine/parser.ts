@@ -1,6 +1,24 @@
-import { ParseError, type DetailLevel, type ParsedRequest } from "../types";
+import {
+  ParseError,
+  type DetailLevel,
+  type Env,
+  type FileOrder,
+  type LineRange,
+  type OutputFormat,
+  type ParsedRequest,
+} from "../types";
+import { decodeCursor } from "../utils/cursor";
+import { DEFAULT_HOST, PUBLIC_HOSTS, providerKindForHost, publicHostKind, selfHostedForges, type ProviderKind } from "./providers";
+import { ingestBodySchema, schemaParseError, type IngestBody } from "./schema";
 
-const VALID_DETAIL_LEVELS = new Set<string>(["summary", "structure", "file-list", "file-contents", "commits", "full"]);
+const VALID_ORDERS = new Set<string>(["ranked", "path", "size"]);
+
+const VALID_FORMATS = new Set<string>(["markdown", "json", "xml"]);
+
+/** Detail levels, each also accepted as a bare key such as ?summary */
+const DETAIL_LEVELS: readonly DetailLevel[] = ["summary", "structure", "file-list", "file-contents", "full", "commits"];
+
+const VALID_DETAIL_LEVELS = new Set<string>(DETAIL_LEVELS);
 
 function parseDetail(raw: string | null, searchParams?: URLSearchParams): DetailLevel[] {
   // Explicit ?detail=<level> or ?detail=<level1>,<level2> takes priority
@@ -9,7 +27,8 @@ function parseDetail(raw: string | null, searchParams?: URLSearchParams): Detail
     for (const level of levels) {
       if (!VALID_DETAIL_LEVELS.has(level)) {
         throw new ParseError(
-          `Invalid detail level "${level}". Must be one of: summary, structure, file-list, full, commits.`
+          `Invalid detail level "${level}". Must be one of: ${DETAIL_LEVELS.join(", ")}.`,
+          "detail"
         );
       }
     }
@@ -20,7 +39,7 @@ function parseDetail(raw: string | null, searchParams?: URLSearchParams): Detail
   // Can combine: ?summary&structure&commits
   if (searchParams) {
     const levels: DetailLevel[] = [];
-    for (const level of ["summary", "structure", "file-list", "full", "commits"] as const) {
+    for (const level of DETAIL_LEVELS) {
       if (searchParams.has(level)) {
         levels.push(level);
       }
@@ -31,31 +50,362 @@ function parseDetail(raw: string | null, searchParams?: URLSearchParams): Detail
   return ["full"];
 }
 
-function parseOwnerRepo(raw: string): { owner: string; repo: string } {
+/** True when the request names a detail level rather than taking the default */
+function hasExplicitDetail(searchParams: URLSearchParams): boolean {
+  return searchParams.has("detail") || DETAIL_LEVELS.some((level) => searchParams.has(level));
+}
+
+/**
+ * Splits a comma-separated glob list, leaving commas inside brace groups
+ * alone so `*.{ts,tsx}` stays one pattern.
+ */
+function splitGlobList(value: string): string[] {
+  const globs: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "{") depth++;
+    else if (ch === "}" && depth > 0) depth--;
+    else if (ch === "," && depth === 0) {
+      globs.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  globs.push(value.slice(start));
+  return globs;
+}
+
+/**
+ * Collects glob patterns from a repeatable, comma-separated query parameter,
+ * e.g. ?include=src,lib/*.ts&include=README.md
+ */
+function parseGlobs(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const globs = searchParams
+    .getAll(name)
+    .flatMap(splitGlobList)
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+  return globs.length > 0 ? globs : undefined;
+}
+
+function parsePositiveInteger(raw: string | null, name: string): number | undefined {
+  if (raw === null || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ParseError(`Invalid ${name} "${raw}". Must be a positive integer.`, name);
+  }
+  return value;
+}
+
+function parseOrder(raw: string | null): FileOrder | undefined {
+  if (!raw) return undefined;
+  if (!VALID_ORDERS.has(raw)) {
+    throw new ParseError(`Invalid order "${raw}". Must be one of: ranked, path, size.`, "order");
+  }
+  return raw as FileOrder;
+}
+
+function parseFormat(raw: string | null): OutputFormat | undefined {
+  if (!raw) return undefined;
+  if (!VALID_FORMATS.has(raw)) {
+    throw new ParseError(`Invalid format "${raw}". Must be one of: markdown, json, xml.`, "format");
+  }
+  return raw as OutputFormat;
+}
+
+/**
+ * Picks the output format from an Accept header: whichever of Markdown, JSON,
+ * and XML is listed first. Wildcards and other types leave the default.
+ */
+export function formatFromAccept(accept: string | null): OutputFormat | undefined {
+  for (const type of (accept ?? "").split(",")) {
+    const mediaType = type.split(";")[0].trim().toLowerCase();
+    if (mediaType === "application/json") return "json";
+    if (mediaType === "text/markdown") return "markdown";
+    if (mediaType === "application/xml" || mediaType === "text/xml") return "xml";
+  }
+  return undefined;
+}
+
+/**
+ * Parses a line selection: GitHub's `L10-L80` (columns such as `L10C5` are
+ * dropped), GitLab's `L10-80`, or plain `10-80`. A single line gives a
+ * one-line range.
+ */
+function parseLineRange(raw: string): LineRange {
+  const match = /^#?L?(\d+)(?:C\d+)?(?:-L?(\d+)(?:C\d+)?)?$/i.exec(raw.trim());
+  const start = match ? Number(match[1]) : NaN;
+  const end = match?.[2] ? Number(match[2]) : start;
+  if (!match || start < 1 || end < start) {
+    throw new ParseError(`Invalid line range "${raw}". Expected L10-L80, 10-80, or L10.`, "lines");
+  }
+  return { start, end };
+}
+
+/**
+ * Splits `owner/repo`. GitLab projects can sit in nested groups, so for
+ * GitLab everything before the last segment is the owner.
+ */
+function parseOwnerRepo(raw: string, kind: ProviderKind = "github"): { owner: string; repo: string } {
   const parts = raw.split("/");
   if (parts.length < 2) {
     throw new ParseError(
-      `Could not parse repo "${raw}". Expected format: owner/repo`
+      `Could not parse repo "${raw}". Expected format: owner/repo`,
+      "repo"
     );
   }
-  const owner = parts[0].trim();
-  const repo = parts[1].trim();
+  const nested = kind === "gitlab";
+  const owner = nested ? parts.slice(0, -1).map((p) => p.trim()).join("/") : parts[0].trim();
+  const repo = (nested ? parts[parts.length - 1] : parts[1]).trim();
   if (!owner) {
-    throw new ParseError("Repository owner must not be empty.");
+    throw new ParseError("Repository owner must not be empty.", "repo");
   }
   if (!repo) {
-    throw new ParseError("Repository name must not be empty.");
+    throw new ParseError("Repository name must not be empty.", "repo");
   }
   return { owner, repo };
 }
 
+interface RepoLocation {
+  owner: string;
+  repo: string;
+  ref?: string;
+  path?: string;
+  /** The URL points at a single file rather than a directory */
+  blob?: boolean;
+  /** Pull request number */
+  pull?: number;
+  /** Base and head of a compare URL */
+  compare?: { base: string; head: string };
+  /** The URL points at a single commit, named by `ref` */
+  commit?: boolean;
+  /** Release URL; tag is undefined for the latest release */
+  release?: { tag?: string };
+  /** Raw `ref/path` segments when the ref may contain slashes */
+  refAndPath?: string;
+}
+
+/**
+ * Parse a `base...head` (or two-dot `base..head`) compare spec. GitHub treats
+ * both forms as a three-dot comparison from the merge base, and so do we.
+ */
+function parseCompareSpec(spec: string): { base: string; head: string } {
+  const separator = spec.includes("...") ? "..." : "..";
+  const index = spec.indexOf(separator);
+  const base = index >= 0 ? spec.slice(0, index) : "";
+  const head = index >= 0 ? spec.slice(index + separator.length) : "";
+  if (!base || !head) {
+    throw new ParseError(`Invalid compare range "${spec}". Expected format: base...head`);
+  }
+  return { base, head };
+}
+
+/**
+ * github.com path: owner/repo[/(tree|blob)/ref[/subpath...]], owner/repo/pull/N,
+ * owner/repo/compare/base...head, owner/repo/commit/sha, or
+ * owner/repo/releases/(tag/<tag>|latest)
+ */
+function parseGitHubPath(segments: string[]): RepoLocation {
+  if (segments.length < 2 || !segments[0] || !segments[1]) {
+    throw new ParseError(
+      `Could not parse GitHub URL. Expected format: https://github.com/owner/repo`
+    );
+  }
+
+  const location: RepoLocation = { owner: segments[0], repo: segments[1] };
+
+  // segments: [owner, repo, "tree", ref, ...subpath]
+  if (segments.length >= 4 && segments[2] === "tree") {
+    location.ref = segments[3];
+    if (segments.length > 4) {
+      location.path = segments.slice(4).join("/");
+      location.refAndPath = segments.slice(3).join("/");
+    }
+  }
+  // segments: [owner, repo, "blob", ref, ...filePath]
+  if (segments.length >= 5 && segments[2] === "blob" && segments[4]) {
+    location.ref = segments[3];
+    location.path = segments.slice(4).join("/");
+    location.blob = true;
+    if (segments.length > 5) {
+      location.refAndPath = segments.slice(3).join("/");
+    }
+  }
+  // segments: [owner, repo, "pull", number, ...("files" | "commits")]
+  if (segments.length >= 4 && segments[2] === "pull") {
+    const number = Number(segments[3]);
+    if (!Number.isInteger(number) || number <= 0) {
+      throw new ParseError(`Invalid pull request number "${segments[3]}".`);
+    }
+    location.pull = number;
+  }
+  // segments: [owner, repo, "compare", ...spec]; refs may contain slashes
+  if (segments.length >= 4 && segments[2] === "compare") {
+    location.compare = parseCompareSpec(segments.slice(3).join("/"));
+  }
+  // segments: [owner, repo, "commit", sha]
+  if (segments.length >= 4 && segments[2] === "commit") {
+    if (!/^[0-9a-f]{4,40}$/i.test(segments[3])) {
+      throw new ParseError(`Invalid commit SHA "${segments[3]}".`);
+    }
+    location.ref = segments[3];
+    location.commit = true;
+  }
+  // segments: [owner, repo, "releases", "tag", ...tag] or [owner, repo, "releases", "latest"]
+  if (segments.length >= 5 && segments[2] === "releases" && segments[3] === "tag" && segments[4]) {
+    const tag = segments.slice(4).join("/");
+    location.ref = tag;
+    location.release = { tag };
+  } else if (segments.length >= 4 && segments[2] === "releases" && segments[3] === "latest") {
+    location.release = {};
+  }
+  return location;
+}
+
+/** gitlab.com path: group[/subgroup...]/repo[/-/(tree|blob)/ref[/subpath...]] */
+function parseGitLabPath(segments: string[]): RepoLocation {
+  const separator = segments.indexOf("-");
+  const project = (separator === -1 ? segments : segments.slice(0, separator)).filter(Boolean);
+  if (project.length < 2) {
+    throw new ParseError(
+      `Could not parse GitLab URL. Expected format: https://gitlab.com/group/repo`
+    );
+  }
+
+  const location: RepoLocation = { owner: project.slice(0, -1).join("/"), repo: project[project.length - 1] };
+
+  // segments after "-": ["tree" | "blob", ref, ...subpath]
+  const rest = separator === -1 ? [] : segments.slice(separator + 1);
+  if (rest.length >= 2 && rest[0] === "tree" && rest[1]) {
+    location.ref = rest[1];
+    if (rest.length > 2) {
+      location.path = rest.slice(2).join("/");
+      location.refAndPath = rest.slice(1).join("/");
+    }
+  }
+  if (rest.length >= 3 && rest[0] === "blob" && rest[1] && rest[2]) {
+    location.ref = rest[1];
+    location.path = rest.slice(2).join("/");
+    location.blob = true;
+    if (rest.length > 3) {
+      location.refAndPath = rest.slice(1).join("/");
+    }
+  }
+  return location;
+}
+
+/** bitbucket.org path: workspace/repo[/src/ref[/subpath...]] */
+function parseBitbucketPath(segments: string[]): RepoLocation {
+  if (segments.length < 2 || !segments[0] || !segments[1]) {
+    throw new ParseError(
+      `Could not parse Bitbucket URL. Expected format: https://bitbucket.org/workspace/repo`
+    );
+  }
+
+  const location: RepoLocation = { owner: segments[0], repo: segments[1] };
+
+  // segments: [workspace, repo, "src", ref, ...subpath]
+  if (segments.length >= 4 && segments[2] === "src" && segments[3]) {
+    location.ref = segments[3];
+    const subpath = segments.slice(4).filter(Boolean).join("/");
+    if (subpath) {
+      location.path = subpath;
+      location.refAndPath = `${segments[3]}/${subpath}`;
+    }
+  }
+  return location;
+}
+
+/** Gitea/Forgejo path: owner/repo[/src/(branch|tag|commit)/ref[/subpath...]] */
+function parseGiteaPath(segments: string[]): RepoLocation {
+  if (segments.length < 2 || !segments[0] || !segments[1]) {
+    throw new ParseError(
+      `Could not parse repository URL. Expected format: https://<host>/owner/repo`
+    );
+  }
+
+  const location: RepoLocation = { owner: segments[0], repo: segments[1] };
+
+  // segments: [owner, repo, "src", "branch" | "tag" | "commit", ref, ...subpath]
+  if (segments.length >= 5 && segments[2] === "src" && ["branch", "tag", "commit"].includes(segments[3])) {
+    location.ref = segments[4];
+    if (segments.length > 5) {
+      location.path = segments.slice(5).join("/");
+      location.refAndPath = segments.slice(4).join("/");
+    }
+  }
+  return location;
+}
+
+/** gist.github.com path: user/id[/revision]; the gist ID stands in for the repo */
+function parseGistPath(segments: string[]): RepoLocation {
+  const [user, id, revision] = segments;
+  if (segments.length < 2 || !user || !id) {
+    throw new ParseError(
+      `Could not parse gist URL. Expected format: https://gist.github.com/user/<id>`
+    );
+  }
+  if (!/^[0-9a-f]+$/i.test(id)) {
+    throw new ParseError(`Invalid gist ID "${id}".`);
+  }
+
+  const location: RepoLocation = { owner: user, repo: id };
+  if (revision) {
+    if (!/^[0-9a-f]{40}$/i.test(revision)) {
+      throw new ParseError(`Invalid gist revision "${revision}".`);
+    }
+    location.ref = revision;
+  }
+  return location;
+}
+
+const PATH_PARSERS: Record<ProviderKind, (segments: string[]) => RepoLocation> = {
+  github: parseGitHubPath,
+  gitlab: parseGitLabPath,
+  bitbucket: parseBitbucketPath,
+  gitea: parseGiteaPath,
+  gist: parseGistPath,
+};
+
+/**
+ * Normalises a host name and checks it is a public forge or on the
+ * FORGE_HOSTS allowlist. Returns undefined for github.com, the default.
+ */
+function parseHost(raw: string, env?: Env): { host?: string; kind: ProviderKind } {
+  const host = raw.trim().toLowerCase();
+  const kind = providerKindForHost(host, env);
+  if (!kind) {
+    const supported = [...Object.keys(PUBLIC_HOSTS), ...selfHostedForges(env).map((f) => f.host)];
+    throw new ParseError(
+      `Unsupported host "${raw}". Supported hosts: ${supported.join(", ")}.`,
+      "host"
+    );
+  }
+  return { host: host === DEFAULT_HOST ? undefined : host, kind };
+}
+
 /**
  * Parse an incoming Worker request into a structured ParsedRequest.
  * Supports two forms:
- *   1. /ingest?repo=owner/repo&ref=...&path=...&detail=...
+ *   1. /ingest?repo=owner/repo&host=...&ref=...&path=...&detail=...&include=...&exclude=...&max-tokens=...&order=...&cursor=...&page=...
+ *      /ingest?repo=owner/repo&base=...&head=...[&path=...]
  *   2. /https://github.com/owner/repo[/tree/ref[/subpath]]
+ *      /https://github.com/owner/repo/blob/ref/file[#L10-L80]
+ *      /https://github.com/owner/repo/pull/123[?include-contents=true]
+ *      /https://github.com/owner/repo/compare/base...head[?path=...]
+ *      /https://github.com/owner/repo/commit/sha[?detail=...]
+ *      /https://github.com/owner/repo/releases/tag/v1.2.3 or /releases/latest
+ *      /https://gitlab.com/group[/subgroup...]/repo[/-/tree/ref[/subpath]]
+ *      /https://gitlab.com/group[/subgroup...]/repo/-/blob/ref/file[#L10-80]
+ *      /https://bitbucket.org/workspace/repo[/src/ref[/subpath]]
+ *      /https://<gitea-host>/owner/repo[/src/branch/ref[/subpath]]
+ *      /https://gist.github.com/user/id[/revision]
+ * Self-hosted hosts are accepted when env.FORGE_HOSTS lists them.
+ * Browsers do not send URL fragments, so blob line ranges can also be given
+ * as ?lines=10-80 or as a percent-encoded %23L10-L80.
  */
-export function parseRequest(request: Request): ParsedRequest {
+export function parseRequest(request: Request, env?: Env): ParsedRequest {
   const url = new URL(request.url);
   // Decode the pathname so that percent-encoded characters (e.g. %3A for :) are
   // normalised before route matching. Browsers may encode special characters when
@@ -63,58 +413,180 @@ export function parseRequest(request: Request): ParsedRequest {
   const pathname = decodeURIComponent(url.pathname);
   const noCache = url.searchParams.get("no-cache") === "true";
   const detail = parseDetail(url.searchParams.get("detail"), url.searchParams);
+  const include = parseGlobs(url.searchParams, "include");
+  const exclude = parseGlobs(url.searchParams, "exclude");
+  const includeGenerated = url.searchParams.get("include-generated") === "true";
+  // Query parameters are kebab-case; max_tokens predates that and stays as an alias
+  const maxTokensParam = url.searchParams.has("max-tokens") ? "max-tokens" : "max_tokens";
+  const maxTokens = parsePositiveInteger(url.searchParams.get(maxTokensParam), maxTokensParam);
+  const page = parsePositiveInteger(url.searchParams.get("page"), "page");
+  const rawCursor = url.searchParams.get("cursor") || undefined;
+  const order = parseOrder(url.searchParams.get("order"));
+  const rawLines = url.searchParams.get("lines") || undefined;
+  const format = parseFormat(url.searchParams.get("format"));
 
   // ── Canonical form: /ingest ──────────────────────────────────────────────
   if (pathname === "/ingest") {
     const repoParam = url.searchParams.get("repo");
     if (!repoParam || !repoParam.trim()) {
       throw new ParseError(
-        'Missing required "repo" parameter. Expected format: ?repo=owner/repo'
+        'Missing required "repo" parameter. Expected format: ?repo=owner/repo',
+        "repo"
       );
     }
-    const { owner, repo } = parseOwnerRepo(repoParam);
+    const { host, kind } = parseHost(url.searchParams.get("host") || DEFAULT_HOST, env);
+    const { owner, repo } = parseOwnerRepo(repoParam, kind);
     const ref = url.searchParams.get("ref") ?? undefined;
     const path = url.searchParams.get("path") ?? undefined;
-    return { owner, repo, ref: ref || undefined, path: path || undefined, detail, noCache };
+    if (rawLines) {
+      throw new ParseError('The "lines" parameter only applies to blob URLs.', "lines");
+    }
+    const base = url.searchParams.get("base") || undefined;
+    const head = url.searchParams.get("head") || undefined;
+    if (base || head) {
+      if (!base || !head) {
+        throw new ParseError('Comparing refs needs both "base" and "head" parameters.', base ? "head" : "base");
+      }
+      return { host, owner, repo, path: path || undefined, include, exclude, includeGenerated, compare: { base, head }, format, detail, noCache };
+    }
+    const cursor = rawCursor ? decodeCursor(rawCursor, owner, repo) : undefined;
+    return { host, owner, repo, ref: ref || undefined, path: path || undefined, include, exclude, includeGenerated, maxTokens, order, cursor, page, format, detail, noCache };
   }
 
-  // ── URL-appended shorthand: /https://github.com/... ──────────────────────
-  if (pathname.startsWith("/https://github.com/")) {
-    // Strip the leading "/" to recover the full GitHub URL
-    const githubUrl = pathname.slice(1);
-    // Parse as URL to extract the path segments
-    let ghPath: string;
+  // ── URL-appended shorthand: /https://<host>/... ─────────────────────────
+  if (pathname.startsWith("/https://")) {
+    // Strip the leading "/" to recover the full repository URL
+    const sourceUrl = pathname.slice(1);
+    // Parse as URL to extract the host and path segments
+    let parsedUrl: URL;
     try {
-      ghPath = new URL(githubUrl).pathname;
+      parsedUrl = new URL(sourceUrl);
     } catch {
-      throw new ParseError(`Could not parse GitHub URL: ${githubUrl}`);
+      throw new ParseError(`Could not parse repository URL: ${sourceUrl}`);
     }
 
-    // pathname: /owner/repo[/tree/ref[/subpath...]]
-    const segments = ghPath.replace(/^\//, "").split("/");
-    if (segments.length < 2 || !segments[0] || !segments[1]) {
-      throw new ParseError(
-        `Could not parse GitHub URL. Expected format: https://github.com/owner/repo`
-      );
+    const { host, kind } = parseHost(parsedUrl.hostname, env);
+    const segments = parsedUrl.pathname.replace(/^\//, "").split("/");
+    const { owner, repo, ref, path, blob, pull, compare, commit, release, refAndPath } = PATH_PARSERS[kind](segments);
+
+    if (blob) {
+      // The fragment survives in the decoded path (%23) or in MCP-supplied URLs
+      const rawRange = rawLines ?? (parsedUrl.hash || url.hash || undefined);
+      const lines = rawRange ? parseLineRange(rawRange) : undefined;
+      return { host, owner, repo, ref, path, refAndPath, blob: { lines }, format, detail, noCache };
     }
+    if (rawLines) {
+      throw new ParseError('The "lines" parameter only applies to blob URLs.', "lines");
+    }
+    if (pull) {
+      const includeContents = url.searchParams.get("include-contents") === "true";
+      return { host, owner, repo, include, exclude, pull: { number: pull, includeContents }, format, detail, noCache };
+    }
+    if (compare) {
+      const comparePath = url.searchParams.get("path") || undefined;
+      return { host, owner, repo, path: comparePath, include, exclude, includeGenerated, compare, format, detail, noCache };
+    }
+    if (commit) {
+      // The patch always comes back; the tree at the commit only on request
+      const commitPath = url.searchParams.get("path") || undefined;
+      const cursor = rawCursor ? decodeCursor(rawCursor, owner, repo) : undefined;
+      return {
+        host, owner, repo, ref, path: commitPath, include, exclude, includeGenerated, maxTokens, order, cursor, page, format, detail, noCache,
+        commit: { includeTree: hasExplicitDetail(url.searchParams) },
+      };
+    }
+    const cursor = rawCursor ? decodeCursor(rawCursor, owner, repo) : undefined;
+    if (release) {
+      const releasePath = url.searchParams.get("path") || undefined;
+      return { host, owner, repo, ref, path: releasePath, include, exclude, includeGenerated, maxTokens, order, cursor, page, format, detail, noCache, release };
+    }
+    return { host, owner, repo, ref, path, refAndPath, include, exclude, includeGenerated, maxTokens, order, cursor, page, format, detail, noCache };
+  }
+
+  throw new ParseError(
+    `Request did not match any supported route. Use /ingest?repo=owner/repo or /https://github.com/owner/repo (got: ${pathname})`
+  );
+}
 
-    const owner = segments[0];
-    const repo = segments[1];
-    let ref: string | undefined;
-    let path: string | undefined;
+/**
+ * Parse the JSON body of POST /ingest into a ParsedRequest. The body is
+ * checked against the schema shared with the MCP tool, then its location
+ * fields go through parseRequest so both forms follow the same rules.
+ * Globs and other options are taken from the body as given, without the
+ * comma splitting the query string needs. A token in the body applies only
+ * to its own public forge. Errors name the offending field.
+ */
+export function parseIngestBody(body: unknown, env?: Env): ParsedRequest {
+  const checked = ingestBodySchema.safeParse(body);
+  if (!checked.success) {
+    throw schemaParseError(checked.error);
+  }
+  const input: IngestBody = checked.data;
+  const target = input.repo ?? input.url;
+  if (!target || (input.repo && input.url)) {
+    throw new ParseError('Provide exactly one of "url" or "repo".', input.url ? "repo" : "url");
+  }
 
-    // segments: [owner, repo, "tree", ref, ...subpath]
-    if (segments.length >= 4 && segments[2] === "tree") {
-      ref = segments[3];
-      if (segments.length > 4) {
-        path = segments.slice(4).join("/");
+  // Location and detail go through the query-string parser. A forge URL
+  // already names its host, ref, and compare range, so those fields would be
+  // ignored there; reject them rather than ingest something else.
+  let url: URL;
+  const forgeUrl = !input.repo && target.startsWith("https://");
+  if (forgeUrl) {
+    for (const field of ["host", "ref", "base", "head"] as const) {
+      if (input[field] !== undefined) {
+        throw new ParseError(`"${field}" cannot be combined with a forge URL; put it in "url" instead.`, field);
       }
     }
+    url = new URL(`https://gitprism.cloudemo.org/${target}`);
+  } else {
+    // A repo, or the owner/repo shorthand the MCP tool accepts
+    url = new URL("https://gitprism.cloudemo.org/ingest");
+    url.searchParams.set("repo", target);
+  }
+  const location = {
+    host: input.host, ref: input.ref, path: input.path, base: input.base, head: input.head, lines: input.lines,
+    cursor: input.cursor, format: input.format,
+  };
+  for (const [name, value] of Object.entries(location)) {
+    if (value !== undefined) url.searchParams.set(name, value);
+  }
+  if (input.detail) {
+    url.searchParams.set("detail", ([] as string[]).concat(input.detail).join(","));
+  }
 
-    return { owner, repo, ref, path, detail, noCache };
+  let parsed: ParsedRequest;
+  try {
+    parsed = parseRequest(new Request(url.toString()), env);
+  } catch (err) {
+    // Errors about the repository itself come from the url field when that was used
+    if (input.url && err instanceof ParseError && (!err.field || err.field === "repo")) {
+      err.field = "url";
+    }
+    throw err;
+  }
+  // Only compare, commit, and release URLs take a separate path
+  if (forgeUrl && input.path !== undefined && !parsed.compare && !parsed.commit && !parsed.release) {
+    throw new ParseError('"path" cannot be combined with this URL; put the path in "url" instead.', "path");
   }
 
-  throw new ParseError(
-    `Request did not match any supported route. Use /ingest?repo=owner/repo or /https://github.com/owner/repo (got: ${pathname})`
-  );
+  if (input.include) parsed.include = input.include;
+  if (input.exclude) parsed.exclude = input.exclude;
+  if (input.include_generated !== undefined) parsed.includeGenerated = input.include_generated;
+  if (input.max_tokens !== undefined) parsed.maxTokens = input.max_tokens;
+  if (input.order) parsed.order = input.order;
+  if (input.page !== undefined) parsed.page = input.page;
+  if (input.no_cache !== undefined) parsed.noCache = input.no_cache;
+  if (parsed.pull && input.include_contents !== undefined) parsed.pull.includeContents = input.include_contents;
+
+  const kind = publicHostKind(parsed.host ?? DEFAULT_HOST);
+  const tokens: Partial<Record<ProviderKind, string>> = {
+    github: input.github_token,
+    gist: input.github_token,
+    gitlab: input.gitlab_token,
+    bitbucket: input.bitbucket_token,
+  };
+  if (kind && tokens[kind]) parsed.userToken = tokens[kind];
+
+  return parsed;
 }
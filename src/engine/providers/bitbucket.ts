@@ -0,0 +1,161 @@
+import { assertArchiveSize, assertFileSize } from "../fetcher";
+import { RepoNotFoundError, SourceApiError, type CommitInfo, type Env } from "../../types";
+import type { SourceProvider } from "./index";
+
+const BITBUCKET_API_BASE = "https://api.bitbucket.org/2.0";
+const BITBUCKET_WEB_BASE = "https://bitbucket.org";
+const USER_AGENT = "GitPrism/1.0";
+
+/** Base64 of the UTF-8 bytes; btoa alone rejects anything outside Latin-1 */
+function base64Utf8(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Access tokens are sent as Bearer tokens. A `username:secret` pair (an app
+ * password or API token with its account name) is sent as Basic auth.
+ */
+function buildHeaders(env: Env, userToken?: string): Record<string, string> {
+  const headers: Record<string, string> = { "User-Agent": USER_AGENT, "Accept": "application/json" };
+  const token = userToken || env.BITBUCKET_TOKEN;
+  if (token) {
+    headers["Authorization"] = token.includes(":") ? `Basic ${base64Utf8(token)}` : `Bearer ${token}`;
+  }
+  return headers;
+}
+
+function repoUrl(workspace: string, repo: string): string {
+  return `${BITBUCKET_API_BASE}/repositories/${workspace}/${repo}`;
+}
+
+/** Bitbucket wraps every entry of this archive in `workspace-repo-<short sha>/` */
+function archiveUrl(workspace: string, repo: string, ref: string): string {
+  return `${BITBUCKET_WEB_BASE}/${workspace}/${repo}/get/${encodeURIComponent(ref)}.zip`;
+}
+
+/**
+ * Fetches a Bitbucket URL and maps error statuses to typed errors.
+ * Private repositories answer 403 or 404 depending on the caller's access.
+ */
+async function request(
+  url: string,
+  workspace: string,
+  repo: string,
+  env: Env,
+  userToken?: string,
+  notFoundMessage = `Repository ${workspace}/${repo} not found or is private.`
+): Promise<Response> {
+  const res = await fetch(url, { redirect: "follow", headers: buildHeaders(env, userToken) });
+
+  if (res.status === 404) {
+    throw new RepoNotFoundError(notFoundMessage);
+  }
+  if (res.status === 429) {
+    throw new SourceApiError(429, "Bitbucket API rate limit exceeded.");
+  }
+  if (res.status === 401 || res.status === 403) {
+    throw new SourceApiError(403, `Bitbucket API access denied (${res.status})`);
+  }
+  if (!res.ok) {
+    throw new SourceApiError(res.status, `Bitbucket API returned ${res.status}`);
+  }
+  return res;
+}
+
+/**
+ * bitbucket.org, through the 2.0 REST API. `owner` is the workspace.
+ */
+export function createBitbucketProvider(env: Env): SourceProvider {
+  return {
+    kind: "bitbucket",
+    host: "bitbucket.org",
+    tokenHeader: "X-Bitbucket-Token",
+    hasServerToken: !!env.BITBUCKET_TOKEN,
+
+    async resolveDefaultRef(workspace, repo, userToken) {
+      const res = await request(repoUrl(workspace, repo), workspace, repo, env, userToken);
+      const data = await res.json() as { mainbranch?: { name: string } | null };
+      if (!data.mainbranch?.name) {
+        throw new RepoNotFoundError(`Repository ${workspace}/${repo} has no main branch.`);
+      }
+      return data.mainbranch.name;
+    },
+
+    async resolveRefToSha(workspace, repo, ref, userToken) {
+      try {
+        const url = `${repoUrl(workspace, repo)}/commit/${encodeURIComponent(ref)}`;
+        const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+        if (!res.ok) return undefined;
+        const data = await res.json() as { hash: string };
+        return data.hash;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async checkArchiveSize(workspace, repo, ref, userToken) {
+      const res = await fetch(archiveUrl(workspace, repo, ref), {
+        method: "HEAD",
+        redirect: "follow",
+        headers: buildHeaders(env, userToken),
+      });
+      if (res.status === 404) {
+        throw new RepoNotFoundError(`Repository ${workspace}/${repo} not found or is private.`);
+      }
+      // The archive is served from a download host that may not answer HEAD;
+      // the archive limits still apply while streaming
+      if (res.ok) {
+        assertArchiveSize(res.headers.get("Content-Length"), env);
+      }
+    },
+
+    async fetchArchive(workspace, repo, ref, userToken) {
+      const res = await request(archiveUrl(workspace, repo, ref), workspace, repo, env, userToken);
+      return {
+        body: res.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() }),
+        rateLimitRemaining: res.headers.get("X-RateLimit-Remaining") ?? "",
+        rateLimitReset: res.headers.get("X-RateLimit-Reset") ?? "",
+      };
+    },
+
+    async fetchCommits(workspace, repo, ref, userToken, path) {
+      const params = new URLSearchParams({ pagelen: "10" });
+      if (path) {
+        params.set("path", path);
+      }
+      const url = `${repoUrl(workspace, repo)}/commits/${encodeURIComponent(ref)}?${params.toString()}`;
+      const res = await request(url, workspace, repo, env, userToken);
+      const data = await res.json() as {
+        values: Array<{
+          hash: string;
+          date: string;
+          message: string;
+          author: { raw: string; user?: { display_name: string } };
+        }>;
+      };
+      return data.values.map((commit): CommitInfo => ({
+        sha: commit.hash.substring(0, 7),
+        // raw is "Name <email>"; prefer the linked account's display name
+        author: commit.author.user?.display_name ?? commit.author.raw.replace(/\s*<[^>]*>$/, ""),
+        date: new Date(commit.date).toISOString().split("T")[0],
+        message: commit.message.split("\n")[0],
+      }));
+    },
+
+    async fetchFile(workspace, repo, ref, path, userToken) {
+      const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+      const url = `${repoUrl(workspace, repo)}/src/${encodeURIComponent(ref)}/${encodedPath}`;
+      const res = await request(
+        url, workspace, repo, env, userToken, `File ${path} not found in ${workspace}/${repo} at ${ref}.`
+      );
+      assertFileSize(res.headers.get("Content-Length"), path, env);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    fileUrl: (workspace, repo, ref, path, lines) =>
+      `${BITBUCKET_WEB_BASE}/${workspace}/${repo}/src/${ref}/${path}` +
+      (lines ? `#lines-${lines.start}${lines.end !== lines.start ? `:${lines.end}` : ""}` : ""),
+  };
+}
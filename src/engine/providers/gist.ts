@@ -0,0 +1,121 @@
+import {
+  assertArchiveSize,
+  assertFileSize,
+  fetchGist,
+  fetchGistCommits,
+  gistArchiveUrl,
+  type GistInfo,
+} from "../fetcher";
+import { GitHubApiError, RepoNotFoundError, isRepoNotFoundError, type Env } from "../../types";
+import type { SourceProvider } from "./index";
+
+const GIST_HOST = "gist.github.com";
+const USER_AGENT = "GitPrism/1.0";
+
+/** Anchor GitHub gives a gist file, e.g. "file-hello-world-py" for hello_world.py */
+function fileAnchor(path: string): string {
+  return "file-" + path.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+/**
+ * gist.github.com. A gist is ingested like a repository: `owner` is the
+ * user, `repo` is the gist ID, and refs are revision SHAs. Files come from
+ * the revision's zip archive, so they go through the same filters and detail
+ * levels as any repository. Uses the GitHub API and GitHub tokens.
+ */
+export function createGistProvider(env: Env): SourceProvider {
+  // One provider serves one request; keep gist lookups from repeating
+  const gists = new Map<string, Promise<GistInfo>>();
+  const gist = (id: string, revision: string | undefined, userToken?: string): Promise<GistInfo> => {
+    const key = `${id}@${revision ?? "latest"}`;
+    let pending = gists.get(key);
+    if (!pending) {
+      pending = fetchGist(id, revision, env, userToken);
+      gists.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    kind: "gist",
+    host: GIST_HOST,
+    tokenHeader: "X-GitHub-Token",
+    hasServerToken: !!env.GITHUB_TOKEN,
+
+    async resolveDefaultRef(_owner, id, userToken) {
+      const latest = await gist(id, undefined, userToken);
+      gists.set(`${id}@${latest.version}`, Promise.resolve(latest));
+      return latest.version;
+    },
+
+    async resolveRefToSha(_owner, id, ref, userToken) {
+      try {
+        return (await gist(id, ref, userToken)).version;
+      } catch (err) {
+        // Only a missing revision means "no such ref"; rate limits and outages surface as-is
+        if (isRepoNotFoundError(err)) return undefined;
+        throw err;
+      }
+    },
+
+    async checkArchiveSize(owner, id, ref) {
+      const res = await fetch(gistArchiveUrl(owner, id, ref), {
+        method: "HEAD",
+        redirect: "follow",
+        headers: { "User-Agent": USER_AGENT },
+      });
+      // The archive host does not always send a length; the archive limits
+      // still apply while streaming, so only a definite answer is acted on here
+      if (res.status === 404) {
+        throw new RepoNotFoundError(`Gist ${owner}/${id} not found or is secret.`);
+      }
+      if (res.ok) {
+        assertArchiveSize(res.headers.get("Content-Length"), env);
+      }
+    },
+
+    async fetchArchive(owner, id, ref) {
+      const res = await fetch(gistArchiveUrl(owner, id, ref), {
+        redirect: "follow",
+        headers: { "User-Agent": USER_AGENT },
+      });
+      if (res.status === 404) {
+        throw new RepoNotFoundError(`Gist ${owner}/${id} not found or is secret.`);
+      }
+      if (!res.ok) {
+        throw new GitHubApiError(res.status, `Gist archive download returned ${res.status}`);
+      }
+      return {
+        body: res.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() }),
+        rateLimitRemaining: "",
+        rateLimitReset: "",
+      };
+    },
+
+    fetchCommits: (_owner, id, ref, userToken) => fetchGistCommits(id, env, userToken, ref),
+
+    async fetchFile(owner, id, ref, path, userToken) {
+      const file = (await gist(id, ref, userToken)).files[path];
+      if (!file) {
+        throw new RepoNotFoundError(`File ${path} not found in gist ${owner}/${id} at ${ref}.`);
+      }
+      if (file.content !== undefined && !file.truncated) {
+        return new TextEncoder().encode(file.content);
+      }
+      assertFileSize(String(file.size), path, env);
+      const res = await fetch(file.rawUrl, { headers: { "User-Agent": USER_AGENT } });
+      if (!res.ok) {
+        throw new GitHubApiError(res.status, `Gist file download returned ${res.status}`);
+      }
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    async fetchDescription(_owner, id, ref, userToken) {
+      return (await gist(id, ref, userToken)).description || undefined;
+    },
+
+    fileUrl: (owner, id, ref, path, lines) =>
+      `https://${GIST_HOST}/${owner}/${id}/${ref}#${fileAnchor(path)}` +
+      (lines ? `-L${lines.start}${lines.end !== lines.start ? `-L${lines.end}` : ""}` : ""),
+  };
+}
@@ -0,0 +1,132 @@
+import { assertArchiveSize, assertFileSize } from "../fetcher";
+import { RepoNotFoundError, SourceApiError, type CommitInfo, type Env } from "../../types";
+import { SELF_HOSTED_TOKEN_HEADER, type SourceProvider } from "./index";
+
+const USER_AGENT = "GitPrism/1.0";
+
+function buildHeaders(serverToken?: string, userToken?: string): Record<string, string> {
+  const headers: Record<string, string> = { "User-Agent": USER_AGENT, "Accept": "application/json" };
+  const token = userToken || serverToken;
+  if (token) {
+    headers["Authorization"] = `token ${token}`;
+  }
+  return headers;
+}
+
+/**
+ * A self-hosted Gitea or Forgejo instance, through the v1 REST API at
+ * `https://<host>/api/v1`. Forgejo keeps Gitea's API, so one provider serves both.
+ */
+export function createGiteaProvider(env: Env, host: string, serverToken?: string): SourceProvider {
+  const apiBase = `https://${host}/api/v1`;
+  const repoUrl = (owner: string, repo: string) => `${apiBase}/repos/${owner}/${repo}`;
+  const archiveUrl = (owner: string, repo: string, ref: string) => `${repoUrl(owner, repo)}/archive/${ref}.zip`;
+
+  /** Fetches an API URL and maps error statuses to typed errors */
+  async function request(
+    url: string,
+    owner: string,
+    repo: string,
+    userToken?: string,
+    notFoundMessage = `Repository ${owner}/${repo} not found or is private.`
+  ) {
+    const res = await fetch(url, { redirect: "follow", headers: buildHeaders(serverToken, userToken) });
+
+    if (res.status === 404) {
+      throw new RepoNotFoundError(notFoundMessage);
+    }
+    if (res.status === 429) {
+      throw new SourceApiError(429, `${host} API rate limit exceeded.`);
+    }
+    if (res.status === 401 || res.status === 403) {
+      throw new SourceApiError(403, `${host} API access denied (${res.status})`);
+    }
+    if (!res.ok) {
+      throw new SourceApiError(res.status, `${host} API returned ${res.status}`);
+    }
+    return res;
+  }
+
+  type GiteaCommit = { sha: string; commit: { author: { name: string; date: string }; message: string } };
+
+  const listCommits = async (owner: string, repo: string, ref: string, limit: number, userToken?: string, path?: string) => {
+    const params = new URLSearchParams({ sha: ref, limit: String(limit), stat: "false", files: "false" });
+    if (path) {
+      params.set("path", path);
+    }
+    const res = await request(`${repoUrl(owner, repo)}/commits?${params.toString()}`, owner, repo, userToken);
+    return await res.json() as GiteaCommit[];
+  };
+
+  return {
+    kind: "gitea",
+    host,
+    tokenHeader: SELF_HOSTED_TOKEN_HEADER,
+    hasServerToken: !!serverToken,
+
+    async resolveDefaultRef(owner, repo, userToken) {
+      const res = await request(repoUrl(owner, repo), owner, repo, userToken);
+      const data = await res.json() as { default_branch?: string };
+      if (!data.default_branch) {
+        throw new RepoNotFoundError(`Repository ${owner}/${repo} has no default branch.`);
+      }
+      return data.default_branch;
+    },
+
+    async resolveRefToSha(owner, repo, ref, userToken) {
+      try {
+        const [commit] = await listCommits(owner, repo, ref, 1, userToken);
+        return commit?.sha;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async checkArchiveSize(owner, repo, ref, userToken) {
+      const res = await fetch(archiveUrl(owner, repo, ref), {
+        method: "HEAD",
+        redirect: "follow",
+        headers: buildHeaders(serverToken, userToken),
+      });
+      // Older Gitea versions reject HEAD on API routes; the archive limits still
+      // apply while streaming, so only a definite answer is acted on here
+      if (res.status === 404) {
+        throw new RepoNotFoundError(`Repository ${owner}/${repo} not found or is private.`);
+      }
+      if (res.ok) {
+        assertArchiveSize(res.headers.get("Content-Length"), env);
+      }
+    },
+
+    async fetchArchive(owner, repo, ref, userToken) {
+      const res = await request(archiveUrl(owner, repo, ref), owner, repo, userToken);
+      return {
+        body: res.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() }),
+        rateLimitRemaining: "",
+        rateLimitReset: "",
+      };
+    },
+
+    async fetchCommits(owner, repo, ref, userToken, path) {
+      const commits = await listCommits(owner, repo, ref, 10, userToken, path);
+      return commits.map((commit): CommitInfo => ({
+        sha: commit.sha.substring(0, 7),
+        author: commit.commit.author.name,
+        date: new Date(commit.commit.author.date).toISOString().split("T")[0],
+        message: commit.commit.message.split("\n")[0],
+      }));
+    },
+
+    async fetchFile(owner, repo, ref, path, userToken) {
+      const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+      const url = `${repoUrl(owner, repo)}/raw/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+      const res = await request(url, owner, repo, userToken, `File ${path} not found in ${owner}/${repo} at ${ref}.`);
+      assertFileSize(res.headers.get("Content-Length"), path, env);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    fileUrl: (owner, repo, ref, path, lines) =>
+      `https://${host}/${owner}/${repo}/src/${/^[0-9a-f]{40}$/i.test(ref) ? "commit" : "branch"}/${ref}/${path}` +
+      (lines ? `#L${lines.start}${lines.end !== lines.start ? `-L${lines.end}` : ""}` : ""),
+  };
+}
@@ -0,0 +1,51 @@
+import {
+  resolveDefaultRef,
+  resolveRefToSha,
+  checkZipSize,
+  fetchZipballStream,
+  fetchCommits,
+  fetchFileContent,
+  fetchPullRequest,
+  fetchComparison,
+  fetchCommit,
+  fetchRelease,
+  fetchMatchingRefs,
+  type GitHubApiTarget,
+} from "../fetcher";
+import type { Env } from "../../types";
+import { DEFAULT_HOST, SELF_HOSTED_TOKEN_HEADER, type SourceProvider } from "./index";
+
+/**
+ * github.com, backed by the REST API helpers in fetcher.ts. With a target,
+ * a GitHub Enterprise Server instance instead.
+ */
+export function createGitHubProvider(env: Env, target?: GitHubApiTarget & { host: string }): SourceProvider {
+  const webBase = `https://${target?.host ?? DEFAULT_HOST}`;
+  return {
+    kind: "github",
+    host: target?.host ?? DEFAULT_HOST,
+    tokenHeader: target ? SELF_HOSTED_TOKEN_HEADER : "X-GitHub-Token",
+    hasServerToken: target ? !!target.serverToken : !!env.GITHUB_TOKEN,
+    resolveDefaultRef: (owner, repo, userToken) => resolveDefaultRef(owner, repo, env, userToken, target),
+    resolveRefToSha: (owner, repo, ref, userToken) => resolveRefToSha(owner, repo, ref, env, userToken, target),
+    checkArchiveSize: (owner, repo, ref, userToken) => checkZipSize(owner, repo, ref, env, userToken, target),
+    fetchArchive: (owner, repo, ref, userToken) => fetchZipballStream(owner, repo, ref, env, userToken, target),
+    fetchCommits: (owner, repo, ref, userToken, path) =>
+      fetchCommits(owner, repo, ref, env, userToken, path, target),
+    fetchFile: (owner, repo, ref, path, userToken) =>
+      fetchFileContent(owner, repo, ref, path, env, userToken, target),
+    fetchPullRequest: (owner, repo, number, userToken) =>
+      fetchPullRequest(owner, repo, number, env, userToken, target),
+    compareRefs: (owner, repo, base, head, userToken) =>
+      fetchComparison(owner, repo, base, head, env, userToken, target),
+    fetchCommit: (owner, repo, sha, userToken) =>
+      fetchCommit(owner, repo, sha, env, userToken, target),
+    fetchRelease: (owner, repo, tag, userToken) =>
+      fetchRelease(owner, repo, tag, env, userToken, target),
+    listRefs: (owner, repo, prefix, userToken) =>
+      fetchMatchingRefs(owner, repo, prefix, env, userToken, target),
+    fileUrl: (owner, repo, ref, path, lines) =>
+      `${webBase}/${owner}/${repo}/blob/${ref}/${path}` +
+      (lines ? `#L${lines.start}${lines.end !== lines.start ? `-L${lines.end}` : ""}` : ""),
+  };
+}
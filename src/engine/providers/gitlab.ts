@@ -0,0 +1,139 @@
+import { assertArchiveSize, assertFileSize } from "../fetcher";
+import { RepoNotFoundError, SourceApiError, type CommitInfo, type Env } from "../../types";
+import type { SourceProvider } from "./index";
+
+const GITLAB_API_BASE = "https://gitlab.com/api/v4";
+const GITLAB_WEB_BASE = "https://gitlab.com";
+const USER_AGENT = "GitPrism/1.0";
+
+function buildHeaders(env: Env, userToken?: string): Record<string, string> {
+  const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+  const token = userToken || env.GITLAB_TOKEN;
+  if (token) {
+    headers["PRIVATE-TOKEN"] = token;
+  }
+  return headers;
+}
+
+/** Projects are addressed by their URL-encoded full path, nested groups included */
+function projectUrl(owner: string, repo: string): string {
+  return `${GITLAB_API_BASE}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+}
+
+/**
+ * Fetches a GitLab API URL and maps error statuses to typed errors.
+ * GitLab answers 404 for private projects the caller cannot see.
+ */
+async function request(
+  url: string,
+  owner: string,
+  repo: string,
+  env: Env,
+  userToken?: string,
+  method = "GET",
+  notFoundMessage = `Repository ${owner}/${repo} not found or is private.`
+): Promise<Response> {
+  const res = await fetch(url, { method, redirect: "follow", headers: buildHeaders(env, userToken) });
+
+  if (res.status === 404) {
+    throw new RepoNotFoundError(notFoundMessage);
+  }
+  if (res.status === 429) {
+    const reset = res.headers.get("RateLimit-Reset");
+    const resetTime = reset ? new Date(parseInt(reset) * 1000).toISOString() : "soon";
+    throw new SourceApiError(429, `GitLab API rate limit exceeded. Resets at ${resetTime}.`);
+  }
+  if (res.status === 401 || res.status === 403) {
+    throw new SourceApiError(403, `GitLab API access denied (${res.status})`);
+  }
+  if (!res.ok) {
+    throw new SourceApiError(res.status, `GitLab API returned ${res.status}`);
+  }
+  return res;
+}
+
+/**
+ * gitlab.com, through the v4 REST API. `owner` is the full group path, so
+ * `group/subgroup/repo` is owner `group/subgroup` and repo `repo`.
+ */
+export function createGitLabProvider(env: Env): SourceProvider {
+  const archiveUrl = (owner: string, repo: string, ref: string) =>
+    `${projectUrl(owner, repo)}/repository/archive.zip?sha=${encodeURIComponent(ref)}`;
+
+  return {
+    kind: "gitlab",
+    host: "gitlab.com",
+    tokenHeader: "X-GitLab-Token",
+    hasServerToken: !!env.GITLAB_TOKEN,
+
+    async resolveDefaultRef(owner, repo, userToken) {
+      const res = await request(projectUrl(owner, repo), owner, repo, env, userToken);
+      const data = await res.json() as { default_branch?: string | null };
+      if (!data.default_branch) {
+        throw new RepoNotFoundError(`Repository ${owner}/${repo} has no default branch.`);
+      }
+      return data.default_branch;
+    },
+
+    async resolveRefToSha(owner, repo, ref, userToken) {
+      try {
+        const url = `${projectUrl(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`;
+        const res = await fetch(url, { headers: buildHeaders(env, userToken) });
+        if (!res.ok) return undefined;
+        const data = await res.json() as { id: string };
+        return data.id;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async checkArchiveSize(owner, repo, ref, userToken) {
+      const res = await request(archiveUrl(owner, repo, ref), owner, repo, env, userToken, "HEAD");
+      assertArchiveSize(res.headers.get("Content-Length"), env);
+    },
+
+    async fetchArchive(owner, repo, ref, userToken) {
+      const res = await request(archiveUrl(owner, repo, ref), owner, repo, env, userToken);
+      return {
+        body: res.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() }),
+        rateLimitRemaining: res.headers.get("RateLimit-Remaining") ?? "",
+        rateLimitReset: res.headers.get("RateLimit-Reset") ?? "",
+      };
+    },
+
+    async fetchCommits(owner, repo, ref, userToken, path) {
+      const params = new URLSearchParams({ ref_name: ref, per_page: "10" });
+      if (path) {
+        params.set("path", path);
+      }
+      const url = `${projectUrl(owner, repo)}/repository/commits?${params.toString()}`;
+      const res = await request(url, owner, repo, env, userToken);
+      const commits = await res.json() as Array<{
+        id: string;
+        author_name: string;
+        authored_date: string;
+        title: string;
+      }>;
+      return commits.map((commit): CommitInfo => ({
+        sha: commit.id.substring(0, 7),
+        author: commit.author_name,
+        date: new Date(commit.authored_date).toISOString().split("T")[0],
+        message: commit.title,
+      }));
+    },
+
+    async fetchFile(owner, repo, ref, path, userToken) {
+      const url =
+        `${projectUrl(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+      const res = await request(
+        url, owner, repo, env, userToken, "GET", `File ${path} not found in ${owner}/${repo} at ${ref}.`
+      );
+      assertFileSize(res.headers.get("Content-Length"), path, env);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    fileUrl: (owner, repo, ref, path, lines) =>
+      `${GITLAB_WEB_BASE}/${owner}/${repo}/-/blob/${ref}/${path}` +
+      (lines ? `#L${lines.start}${lines.end !== lines.start ? `-${lines.end}` : ""}` : ""),
+  };
+}
@@ -0,0 +1,165 @@
+import type { FetchZipballStreamResult } from "../fetcher";
+import type {
+  CommitInfo,
+  CommitResult,
+  CompareResult,
+  Env,
+  ForgeHostConfig,
+  ForgeType,
+  LineRange,
+  PullRequestResult,
+  ReleaseInfo,
+} from "../../types";
+import { createGitHubProvider } from "./github";
+import { createGitLabProvider } from "./gitlab";
+import { createGiteaProvider } from "./gitea";
+import { createBitbucketProvider } from "./bitbucket";
+import { createGistProvider } from "./gist";
+
+export type ProviderKind = "github" | "gitlab" | "bitbucket" | "gitea" | "gist";
+
+/** Host used when a request does not name one */
+export const DEFAULT_HOST = "github.com";
+
+/** Public forge hosts accepted in URLs, and the provider that serves each */
+export const PUBLIC_HOSTS: Record<string, ProviderKind> = {
+  "github.com": "github",
+  "gitlab.com": "gitlab",
+  "bitbucket.org": "bitbucket",
+  "gist.github.com": "gist",
+};
+
+/** Provider kind of a public forge host; keys inherited from Object are not hosts */
+export function publicHostKind(host: string): ProviderKind | undefined {
+  return Object.hasOwn(PUBLIC_HOSTS, host) ? PUBLIC_HOSTS[host] : undefined;
+}
+
+const FORGE_TYPES: Record<ForgeType, ProviderKind> = {
+  "github-enterprise": "github",
+  "gitea": "gitea",
+};
+
+/**
+ * A source forge the engine can ingest from. `owner` is everything before
+ * the repository name: a GitHub user or org, a Bitbucket workspace, or a
+ * GitLab group path such as `group/subgroup`. For gists, `repo` is the gist ID.
+ */
+export interface SourceProvider {
+  readonly kind: ProviderKind;
+  /** Host the provider serves, e.g. "github.com" */
+  readonly host: string;
+  /** Request header a caller passes their own token in */
+  readonly tokenHeader: string;
+  /** Whether a server-side token is configured for this forge */
+  readonly hasServerToken: boolean;
+  resolveDefaultRef(owner: string, repo: string, userToken?: string): Promise<string>;
+  /** Resolves any ref to its commit SHA; undefined if resolution fails */
+  resolveRefToSha(owner: string, repo: string, ref: string, userToken?: string): Promise<string | undefined>;
+  /** Pre-flight size check; throws ZipTooLargeError above MAX_ZIP_BYTES */
+  checkArchiveSize(owner: string, repo: string, ref: string, userToken?: string): Promise<void>;
+  /** Opens the zip archive of the ref as a byte stream */
+  fetchArchive(owner: string, repo: string, ref: string, userToken?: string): Promise<FetchZipballStreamResult>;
+  fetchCommits(owner: string, repo: string, ref: string, userToken?: string, path?: string): Promise<CommitInfo[]>;
+  /** Downloads a single file; throws RepoNotFoundError if it does not exist */
+  fetchFile(owner: string, repo: string, ref: string, path: string, userToken?: string): Promise<Uint8Array>;
+  /** Web URL of a file at a ref, anchored to the line range when given */
+  fileUrl(owner: string, repo: string, ref: string, path: string, lines?: LineRange): string;
+  /** Pull request metadata, changed files, and diffs; only GitHub-compatible forges implement this */
+  fetchPullRequest?(owner: string, repo: string, number: number, userToken?: string): Promise<PullRequestResult>;
+  /** Commits and file diffs between two refs; only GitHub-compatible forges implement this */
+  compareRefs?(owner: string, repo: string, base: string, head: string, userToken?: string): Promise<CompareResult>;
+  /** One commit with its full message and patch; only GitHub-compatible forges implement this */
+  fetchCommit?(owner: string, repo: string, sha: string, userToken?: string): Promise<CommitResult>;
+  /** Release for a tag, or the latest release when tag is undefined; only GitHub-compatible forges implement this */
+  fetchRelease?(owner: string, repo: string, tag: string | undefined, userToken?: string): Promise<ReleaseInfo>;
+  /** Branch and tag names starting with prefix; providers without it are probed ref by ref */
+  listRefs?(owner: string, repo: string, prefix: string, userToken?: string): Promise<string[]>;
+  /** Description for the summary front matter when the source has no config file; only gists implement this */
+  fetchDescription?(owner: string, repo: string, ref: string, userToken?: string): Promise<string | undefined>;
+}
+
+/** Request header for a caller's own token on any self-hosted forge */
+export const SELF_HOSTED_TOKEN_HEADER = "X-Forge-Token";
+
+/** Parsed FORGE_HOSTS per env, kept with the raw value it was parsed from */
+const forgeHostsCache = new WeakMap<Env, { raw: string; forges: ForgeHostConfig[] }>();
+
+function parseForgeHosts(raw: string): ForgeHostConfig[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    console.error("[FORGE_HOSTS] Ignoring invalid JSON");
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((entry): entry is ForgeHostConfig =>
+      typeof entry?.host === "string" && entry.host !== "" && entry.type in FORGE_TYPES
+    )
+    .map((entry) => ({ ...entry, host: entry.host.toLowerCase() }));
+}
+
+/**
+ * Reads the self-hosted forge allowlist from FORGE_HOSTS. Entries with an
+ * unknown type or no host are dropped, as is a value that is not valid JSON.
+ * The value is parsed once per env, so a bad config is logged once.
+ */
+export function selfHostedForges(env?: Env): ForgeHostConfig[] {
+  if (!env?.FORGE_HOSTS) return [];
+  const cached = forgeHostsCache.get(env);
+  if (cached?.raw === env.FORGE_HOSTS) return cached.forges;
+  const forges = parseForgeHosts(env.FORGE_HOSTS);
+  forgeHostsCache.set(env, { raw: env.FORGE_HOSTS, forges });
+  return forges;
+}
+
+/**
+ * Returns the provider kind for a host: a public forge or an allowlisted
+ * self-hosted one. Undefined means the host is not supported.
+ */
+export function providerKindForHost(host: string, env?: Env): ProviderKind | undefined {
+  const forge = selfHostedForges(env).find((f) => f.host === host);
+  return publicHostKind(host) ?? (forge ? FORGE_TYPES[forge.type] : undefined);
+}
+
+/**
+ * Reads the secret named by a forge's tokenBinding. Binding names come from
+ * the FORGE_HOSTS config rather than Env, so they are looked up by name.
+ */
+function serverToken(env: Env, forge: ForgeHostConfig): string | undefined {
+  if (!forge.tokenBinding) return undefined;
+  const value: unknown = Reflect.get(env, forge.tokenBinding);
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Returns the provider for a host (github.com when unset). Throws for hosts
+ * that are not supported; parseRequest rejects those before this is reached.
+ */
+export function getProvider(host: string | undefined, env: Env): SourceProvider {
+  switch (publicHostKind(host ?? DEFAULT_HOST)) {
+    case "github":
+      return createGitHubProvider(env);
+    case "gitlab":
+      return createGitLabProvider(env);
+    case "bitbucket":
+      return createBitbucketProvider(env);
+    case "gist":
+      return createGistProvider(env);
+  }
+
+  const forge = selfHostedForges(env).find((f) => f.host === host);
+  switch (forge?.type) {
+    case "github-enterprise":
+      return createGitHubProvider(env, {
+        host: forge.host,
+        baseUrl: `https://${forge.host}/api/v3`,
+        serverToken: serverToken(env, forge),
+      });
+    case "gitea":
+      return createGiteaProvider(env, forge.host, serverToken(env, forge));
+    default:
+      throw new Error(`No source provider for host ${host}`);
+  }
+}
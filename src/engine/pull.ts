@@ -0,0 +1,99 @@
+import { ParseError, type ChangedFile, type PullRequestResult } from "../types";
+import { budgetPatches, listingNotice, omissionNotice } from "./changes";
+import { createGlobFilter, isBinaryContent } from "./filter";
+import type { SourceProvider } from "./providers";
+
+/** Files whose contents are fetched at once */
+const CONTENT_FETCH_CONCURRENCY = 6;
+
+export interface PullRequestOptions {
+  /** Also fetch the post-change contents of every touched file */
+  includeContents?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxOutputBytes: number;
+  maxFileCount: number;
+}
+
+/**
+ * Fetches a pull request with its per-file diffs and, when asked, the
+ * post-change contents of only the files it touches (read at the head
+ * commit, so forks work too). Diffs are budgeted first, then contents, both
+ * against maxOutputBytes; whatever does not fit, and any file whose contents
+ * could not be fetched, is named in truncationMessage. Throws ParseError for
+ * forges without pull request support.
+ */
+export async function ingestPullRequest(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  number: number,
+  options: PullRequestOptions,
+  userToken?: string
+): Promise<PullRequestResult> {
+  if (!provider.fetchPullRequest) {
+    throw new ParseError(`Pull requests are not supported on ${provider.host}.`);
+  }
+  const pr = await provider.fetchPullRequest(owner, repo, number, userToken);
+  const listed = pr.files.length;
+
+  const keep = createGlobFilter(options.include, options.exclude);
+  pr.files = pr.files.filter((file) => keep(file.path)).slice(0, options.maxFileCount);
+
+  const dropped: string[] = [];
+  let budget = budgetPatches(pr.files, options.maxOutputBytes, dropped);
+
+  if (options.includeContents) {
+    const wanted = pr.files.filter((file) => file.status !== "removed");
+    // Fetch a few files at a time, then budget them in file order, so
+    // nothing is fetched once the budget is spent
+    for (let i = 0; i < wanted.length; i += CONTENT_FETCH_CONCURRENCY) {
+      const chunk = wanted.slice(i, i + CONTENT_FETCH_CONCURRENCY);
+      if (budget <= 0) {
+        dropped.push(...chunk.map((file) => `contents of ${file.path}`));
+        continue;
+      }
+      const fetched = await Promise.allSettled(
+        chunk.map((file) => provider.fetchFile(owner, repo, pr.headSha, file.path, userToken))
+      );
+      fetched.forEach((outcome, j) => {
+        budget = addContent(chunk[j], outcome, budget, dropped);
+      });
+    }
+  }
+
+  const notices: string[] = [];
+  if (dropped.length > 0) notices.push(omissionNotice(dropped));
+  // The files listing stops at the forge's cap (3000 files on GitHub)
+  if (pr.changedFiles > listed) notices.push(listingNotice(listed, pr.changedFiles));
+  if (notices.length > 0) {
+    pr.truncated = true;
+    pr.truncationMessage = notices.join("\n");
+  }
+  return pr;
+}
+
+/**
+ * Sets a file's content from its fetch outcome if it fits in `budget`.
+ * Binary files are skipped; failed fetches and files that do not fit are
+ * recorded in `dropped`. Returns the bytes left.
+ */
+function addContent(
+  file: ChangedFile,
+  outcome: PromiseSettledResult<Uint8Array>,
+  budget: number,
+  dropped: string[]
+): number {
+  if (outcome.status === "rejected") {
+    dropped.push(`contents of ${file.path} (could not be fetched)`);
+    return budget;
+  }
+  const bytes = outcome.value;
+  if (isBinaryContent(bytes)) return budget;
+  if (bytes.length > budget) {
+    dropped.push(`contents of ${file.path}`);
+    return budget;
+  }
+  file.content = new TextDecoder().decode(bytes);
+  return budget - bytes.length;
+}
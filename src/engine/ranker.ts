@@ -0,0 +1,168 @@
+import type { FileOrder } from "../types";
+
+/** Lower tiers are emitted first and survive truncation */
+export const FileTier = {
+  Readme: 0,
+  Manifest: 1,
+  EntryPoint: 2,
+  Source: 3,
+  Other: 4,
+  TestOrDocs: 5,
+  Generated: 6,
+} as const;
+
+export type FileTier = (typeof FileTier)[keyof typeof FileTier];
+
+/** Files at or below this tier are called out when truncation drops them */
+export const HIGH_VALUE_TIER = FileTier.EntryPoint;
+
+const MANIFEST_FILES = new Set([
+  "package.json",
+  "deno.json",
+  "deno.jsonc",
+  "tsconfig.json",
+  "wrangler.toml",
+  "wrangler.json",
+  "wrangler.jsonc",
+  "cargo.toml",
+  "go.mod",
+  "pyproject.toml",
+  "setup.py",
+  "setup.cfg",
+  "requirements.txt",
+  "pipfile",
+  "gemfile",
+  "composer.json",
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+  "settings.gradle",
+  "mix.exs",
+  "pubspec.yaml",
+  "package.swift",
+  "cmakelists.txt",
+  "makefile",
+  "dockerfile",
+  "docker-compose.yml",
+  "docker-compose.yaml",
+  "flake.nix",
+]);
+
+const ENTRY_POINT_NAMES = new Set(["index", "main", "app", "server", "lib", "mod", "__main__", "__init__", "cli"]);
+
+const SOURCE_EXTENSIONS = new Set([
+  "ts",
+  "tsx",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "py",
+  "rs",
+  "go",
+  "java",
+  "kt",
+  "c",
+  "h",
+  "cpp",
+  "cc",
+  "cxx",
+  "hpp",
+  "cs",
+  "rb",
+  "php",
+  "swift",
+  "scala",
+  "dart",
+  "ex",
+  "exs",
+  "erl",
+  "hs",
+  "clj",
+  "lua",
+  "sh",
+  "vue",
+  "svelte",
+  "astro",
+  "sql",
+  "graphql",
+  "proto",
+  "zig",
+  "nim",
+  "ml",
+]);
+
+const TEST_DIRS = new Set(["test", "tests", "__tests__", "spec", "specs", "e2e", "benchmarks", "bench"]);
+const DOC_DIRS = new Set(["docs", "doc", "documentation", "examples", "example", "samples"]);
+const GENERATED_DIRS = new Set([
+  "generated",
+  "gen",
+  "__generated__",
+  "__snapshots__",
+  "fixtures",
+  "testdata",
+  "__fixtures__",
+  "snapshots",
+]);
+
+const TEST_FILE = /(\.|_)(test|spec)\.[^.]+$|^test_.*\.py$|_test\.go$/i;
+const GENERATED_FILE = /\.(generated|gen|g|pb|pb2|snap)\.[^.]+$|_pb2(_grpc)?\.py$|\.snap$/i;
+
+/**
+ * Classifies a repository path into an importance tier, using only the path:
+ * READMEs, then manifests, then entry points, then source, then other files,
+ * then tests and docs, with generated-looking files last.
+ */
+export function classifyFile(filePath: string): FileTier {
+  const parts = filePath.split("/");
+  const fileName = parts[parts.length - 1];
+  const lower = fileName.toLowerCase();
+  const dirs = parts.slice(0, -1).map((d) => d.toLowerCase());
+
+  if (GENERATED_FILE.test(fileName) || dirs.some((d) => GENERATED_DIRS.has(d))) {
+    return FileTier.Generated;
+  }
+  if (/^readme(\.|$)/.test(lower)) return FileTier.Readme;
+  if (TEST_FILE.test(fileName) || dirs.some((d) => TEST_DIRS.has(d))) return FileTier.TestOrDocs;
+  if (dirs.some((d) => DOC_DIRS.has(d))) return FileTier.TestOrDocs;
+  if (MANIFEST_FILES.has(lower) || lower.endsWith(".csproj")) return FileTier.Manifest;
+
+  const dot = lower.lastIndexOf(".");
+  const stem = dot > 0 ? lower.slice(0, dot) : lower;
+  const ext = dot > 0 ? lower.slice(dot + 1) : "";
+  if (SOURCE_EXTENSIONS.has(ext)) {
+    // Entry points live at the root, in src/, or one level into cmd/ or bin/
+    const shallow =
+      dirs.length === 0 || (dirs.length === 1 && ["src", "lib", "app"].includes(dirs[0]));
+    const command = dirs.length === 2 && ["cmd", "bin"].includes(dirs[0]);
+    if (ENTRY_POINT_NAMES.has(stem) && (shallow || command)) return FileTier.EntryPoint;
+    return FileTier.Source;
+  }
+  if (ext === "md" || ext === "mdx" || ext === "rst" || ext === "txt") return FileTier.TestOrDocs;
+  return FileTier.Other;
+}
+
+/**
+ * Returns the files sorted for output, without mutating the input.
+ *   ranked: importance tier, then shallower paths, then path
+ *   path:   alphabetical by path
+ *   size:   smallest first (fits the most files under a limit), then path
+ */
+export function orderFiles<T extends { path: string; size: number }>(files: T[], order: FileOrder): T[] {
+  const byPath = (a: T, b: T) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+  switch (order) {
+    case "path":
+      return [...files].sort(byPath);
+    case "size":
+      return [...files].sort((a, b) => a.size - b.size || byPath(a, b));
+    case "ranked": {
+      // Classify each file once, not on every comparison
+      const depth = (f: T) => f.path.split("/").length;
+      return files
+        .map((file) => ({ file, tier: classifyFile(file.path) }))
+        .sort((a, b) => a.tier - b.tier || depth(a.file) - depth(b.file) || byPath(a.file, b.file))
+        .map(({ file }) => file);
+    }
+  }
+}
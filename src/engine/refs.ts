@@ -0,0 +1,81 @@
+import { buildRefSplitCacheKey, getCached, putCache } from "../utils/cache";
+import type { SourceProvider } from "./providers";
+import type { ParsedRequest } from "../types";
+
+/**
+ * Ref/path splits change only when someone creates a branch or tag that is a
+ * longer prefix of the URL, so they are cached for a few minutes
+ */
+const REF_SPLIT_TTL_SECONDS = 300;
+
+/**
+ * Providers that cannot list refs are probed once per candidate, so only refs
+ * of up to this many segments are tried there
+ */
+const MAX_PROBED_REF_SEGMENTS = 4;
+
+/**
+ * Splits the segments after /tree/ (or /blob/) into a ref and a path. Branch
+ * and tag names may contain slashes, so `feature/login-form/src` could be
+ * ref `feature` with path `login-form/src` or ref `feature/login-form` with
+ * path `src`. The longest prefix that names a real branch or tag wins; a
+ * commit SHA or unknown ref falls back to the first segment. Blob URLs keep
+ * at least one segment for the file path.
+ */
+export async function splitRefAndPath(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  refAndPath: string,
+  requirePath: boolean,
+  userToken?: string
+): Promise<{ ref: string; path?: string }> {
+  const segments = refAndPath.split("/");
+  const maxRefSegments = requirePath ? segments.length - 1 : segments.length;
+  const candidates: string[] = [];
+  for (let count = maxRefSegments; count >= 1; count--) {
+    candidates.push(segments.slice(0, count).join("/"));
+  }
+
+  let ref: string | undefined;
+  if (provider.listRefs) {
+    const known = new Set(await provider.listRefs(owner, repo, segments[0], userToken));
+    ref = candidates.find((candidate) => known.has(candidate));
+  } else {
+    const probed = candidates.filter((candidate) => candidate.split("/").length <= MAX_PROBED_REF_SEGMENTS);
+    const shas = await Promise.all(
+      probed.map((candidate) => provider.resolveRefToSha(owner, repo, candidate, userToken))
+    );
+    ref = probed.find((_, i) => shas[i]);
+  }
+
+  ref ??= segments[0];
+  const path = segments.slice(ref.split("/").length).join("/");
+  return { ref, path: path || undefined };
+}
+
+/**
+ * splitRefAndPath for a parsed tree or blob URL (`refAndPath` is its
+ * parsed.refAndPath), cached per repository and token when an execution
+ * context is available to store the result.
+ */
+export async function splitParsedRefAndPath(
+  provider: SourceProvider,
+  parsed: ParsedRequest,
+  refAndPath: string,
+  userToken: string | undefined,
+  cache: { ctx?: ExecutionContext; noCache?: boolean } = {}
+): Promise<{ ref: string; path?: string; cached: boolean }> {
+  const splitKey = cache.ctx ? await buildRefSplitCacheKey(parsed, userToken) : undefined;
+  const cachedSplit = splitKey && !cache.noCache ? await getCached(splitKey) : undefined;
+  if (cachedSplit) {
+    return { ...(await cachedSplit.json() as { ref: string; path?: string }), cached: true };
+  }
+
+  const split = await splitRefAndPath(provider, parsed.owner, parsed.repo, refAndPath, !!parsed.blob, userToken);
+  if (splitKey && cache.ctx) {
+    const splitResponse = new Response(JSON.stringify(split), { headers: { "Content-Type": "application/json" } });
+    putCache(splitKey, splitResponse, REF_SPLIT_TTL_SECONDS, cache.ctx);
+  }
+  return { ...split, cached: false };
+}
@@ -0,0 +1,27 @@
+import { ParseError, isRepoNotFoundError, type ReleaseInfo } from "../types";
+import type { SourceProvider } from "./providers";
+
+/**
+ * Looks up the release a release URL names: the release for `tag`, or the
+ * latest published release when tag is undefined. A tag without a release
+ * is still a valid ref, so that case returns undefined and the tag is
+ * ingested without release notes. Throws ParseError for forges without
+ * release support.
+ */
+export async function resolveRelease(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  tag: string | undefined,
+  userToken?: string
+): Promise<ReleaseInfo | undefined> {
+  if (!provider.fetchRelease) {
+    throw new ParseError(`Release URLs are not supported on ${provider.host}.`);
+  }
+  try {
+    return await provider.fetchRelease(owner, repo, tag, userToken);
+  } catch (err) {
+    if (tag && isRepoNotFoundError(err)) return undefined;
+    throw err;
+  }
+}
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { ParseError } from "../types";
+
+/**
+ * Input fields shared by the MCP ingest_repo tool and the JSON body of
+ * POST /ingest, so both accept the same names, types, and descriptions.
+ */
+
+export const sourceUrlField = z
+  .string()
+  .describe(
+    "GitHub, GitLab, or Bitbucket URL. Examples: 'https://github.com/owner/repo', " +
+      "'https://github.com/owner/repo/tree/main/src', 'https://gitlab.com/group/subgroup/repo/-/tree/main/src', " +
+      "'https://bitbucket.org/workspace/repo/src/main/lib', " +
+      "a blob URL for a single file or line range such as " +
+      "'https://github.com/owner/repo/blob/main/src/index.ts#L10-L80', " +
+      "a pull request URL such as 'https://github.com/owner/repo/pull/123' (returns metadata and diffs), " +
+      "a compare URL such as 'https://github.com/owner/repo/compare/v1.0.0...main' (returns commits and diffs), " +
+      "a commit URL such as 'https://github.com/owner/repo/commit/<sha>' (returns the full message and patch; " +
+      "add '?detail=structure' or another level to the URL to also get the tree at that commit), " +
+      "a release URL such as 'https://github.com/owner/repo/releases/latest' or '.../releases/tag/v1.2.3' " +
+      "(the code as shipped in that release, led by its notes and assets), " +
+      "a gist URL such as 'https://gist.github.com/user/<id>' (optionally followed by '/<revision>'), " +
+      "or GitHub shorthand 'owner/repo'."
+  );
+
+export const ingestOptionFields = {
+  include: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Optional glob patterns (relative to the repository root) a file must match to be included, " +
+        "e.g. ['src/**/*.ts']."
+    ),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Optional glob patterns (relative to the repository root) that exclude matching files, " +
+        "e.g. ['**/*.test.ts', 'fixtures/**']."
+    ),
+  include_generated: z
+    .boolean()
+    .optional()
+    .describe(
+      "Include files that .gitattributes marks as linguist-generated, linguist-vendored, " +
+        "linguist-documentation, or export-ignore. These are excluded by default."
+    ),
+  max_tokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional estimated token budget for file contents. Files stop being added once the budget is reached."
+    ),
+  order: z
+    .enum(["ranked", "path", "size"])
+    .optional()
+    .describe(
+      "Order files are emitted in, and therefore kept in when output is truncated. " +
+        "'ranked' (default) puts READMEs, manifests, and entry points first and generated files last; " +
+        "'path' is alphabetical; 'size' is smallest first."
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Cursor from the 'Next page' footer of a truncated response. Returns the next page of files " +
+        "from the same commit; pass the same url and options as the first call."
+    ),
+  include_contents: z
+    .boolean()
+    .optional()
+    .describe(
+      "For pull request URLs, also include the full post-change contents of the files the pull request touches."
+    ),
+  github_token: z
+    .string()
+    .optional()
+    .describe(
+      "Optional GitHub personal access token. Bypasses shared rate limits and uses your personal GitHub quota."
+    ),
+  gitlab_token: z
+    .string()
+    .optional()
+    .describe("Optional GitLab personal access token, used only for gitlab.com URLs."),
+  bitbucket_token: z
+    .string()
+    .optional()
+    .describe(
+      "Optional Bitbucket access token (or 'username:app-password'), used only for bitbucket.org URLs."
+    ),
+};
+
+const detailLevel = z.enum(["summary", "structure", "file-list", "file-contents", "commits", "full"]);
+
+/**
+ * JSON body of POST /ingest. Names the repository either by `url` (anything
+ * the MCP tool accepts) or by `repo` plus the canonical query parameters.
+ */
+export const ingestBodySchema = z
+  .object({
+    url: sourceUrlField.optional(),
+    repo: z.string().min(1).optional().describe("owner/repo, or a GitLab project path"),
+    host: z.string().optional(),
+    ref: z.string().optional(),
+    path: z.string().optional(),
+    base: z.string().optional(),
+    head: z.string().optional(),
+    lines: z.string().optional().describe("Line range for blob URLs, e.g. '10-80'"),
+    detail: z.union([detailLevel, z.array(detailLevel).nonempty()]).optional(),
+    page: z.number().int().positive().optional(),
+    no_cache: z.boolean().optional(),
+    format: z.enum(["markdown", "json", "xml"]).optional(),
+    ...ingestOptionFields,
+  })
+  .strict();
+
+export type IngestBody = z.infer<typeof ingestBodySchema>;
+
+/** Turns the first issue of a failed schema check into a ParseError naming its field */
+export function schemaParseError(error: z.ZodError): ParseError {
+  const issue = error.issues[0];
+  const path = issue.code === "unrecognized_keys" ? [...issue.path, issue.keys[0]] : issue.path;
+  const field = path.map(String).join(".") || undefined;
+  return new ParseError(field ? `Invalid "${field}": ${issue.message}` : issue.message, field);
+}
@@ -0,0 +1,33 @@
+/**
+ * Splits text into runs that BPE tokenizers tend to treat as units: letter
+ * runs, digit runs, whitespace runs, and single other characters (punctuation,
+ * symbols, and non-Latin characters).
+ */
+const TOKEN_RUN = /[A-Za-z]+|[0-9]+|\s+|[^A-Za-z0-9\s]/g;
+
+/**
+ * Estimates how many tokens a piece of text costs in a typical LLM context.
+ *
+ * This is a heuristic, not a tokenizer: words are charged one token per four
+ * letters, numbers one per three digits, each punctuation mark or non-Latin
+ * character one token, and whitespace only for indentation runs. It tracks
+ * real tokenizers far more closely than a flat bytes-to-tokens ratio on code,
+ * where punctuation density varies a lot between languages.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [run] of text.matchAll(TOKEN_RUN)) {
+    const ch = run.charCodeAt(0);
+    if ((ch >= 65 && ch <= 90) || (ch >= 97 && ch <= 122)) {
+      tokens += Math.ceil(run.length / 4);
+    } else if (ch >= 48 && ch <= 57) {
+      tokens += Math.ceil(run.length / 3);
+    } else if (/\s/.test(run[0])) {
+      // A single space or newline usually merges into the neighbouring token
+      if (run.length > 1) tokens += Math.ceil(run.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
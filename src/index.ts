@@ -1,4 +1,5 @@
 import { handleIngest } from "./api/handler";
+import { handleBatchIngest } from "./api/batch";
 import { handleLlmsTxt } from "./api/llmstxt";
 import { createMcpFetchHandler } from "./mcp/server";
 import type { Env } from "./types";
@@ -16,6 +17,11 @@ export default {
       return mcpHandler(request, env, ctx);
     }
 
+    // Batch ingest — several repositories in one request
+    if (pathname === "/ingest/batch") {
+      return handleBatchIngest(request, env);
+    }
+
     // REST API — canonical form and URL-appended shorthand
     // Also handle https%3A encoded forms (e.g. from copy-paste in some clients)
     if (pathname === "/ingest" || pathname.startsWith("/https://")) {
@@ -2,6 +2,7 @@ import { createMcpHandler } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ingestFromUrl } from "../engine/ingest";
+import { ingestOptionFields, sourceUrlField } from "../engine/schema";
 import type { Env } from "../types";
 
 /**
@@ -11,7 +12,7 @@ import type { Env } from "../types";
  * The MCP SDK does not allow connecting an already-connected server
  * to a new transport.
  */
-function createServer(env: Env): McpServer {
+function createServer(env: Env, ctx: ExecutionContext): McpServer {
   const server = new McpServer({
     name: "GitPrism",
     version: "1.0.0",
@@ -21,38 +22,39 @@ function createServer(env: Env): McpServer {
     "ingest_repo",
     {
       description:
-        "Convert a public GitHub repository or subdirectory into LLM-ready Markdown. " +
+        "Convert a public GitHub, GitLab, or Bitbucket repository (or subdirectory), or a GitHub gist, into LLM-ready Markdown. " +
         "RECOMMENDED WORKFLOW FOR LARGE REPOS: " +
         "1. Call with detail='file-list' to get the directory structure, file sizes, and line counts. " +
         "2. Identify the relevant subdirectory from the file-list output. " +
         "3. Call again with the subdirectory URL (e.g., 'owner/repo/tree/main/src') and detail='full' to get only the files you need. " +
         "This two-step approach prevents consuming tens of thousands of tokens when calling detail='full' on an entire repository. " +
+        "Use 'include' and 'exclude' globs to drop tests, fixtures, or other files you do not need. " +
         "Detail levels: 'summary' (repo name, ref, file count), " +
         "'structure' (summary + ASCII directory tree), " +
-        "'file-list' (structure + file paths with sizes and line counts; RECOMMENDED FIRST STEP), " +
+        "'file-list' (structure + file paths with sizes, line counts, and estimated tokens; RECOMMENDED FIRST STEP), " +
         "'full' (structure + complete file contents in fenced code blocks; USE ON SUBDIRECTORIES).",
       inputSchema: {
-        url: z
-          .string()
-          .describe(
-            "GitHub URL. Examples: 'https://github.com/owner/repo', " +
-              "'https://github.com/owner/repo/tree/main/src', or shorthand 'owner/repo'."
-          ),
+        url: sourceUrlField,
         detail: z
           .enum(["summary", "structure", "file-list", "full"])
           .default("full")
           .describe("Level of detail in the output. Defaults to 'full'."),
-        github_token: z
-          .string()
-          .optional()
-          .describe(
-            "Optional GitHub personal access token. Bypasses shared rate limits and uses your personal GitHub quota."
-          ),
+        ...ingestOptionFields,
       },
     },
-    async ({ url, detail, github_token }) => {
+    async ({ url, detail, include, exclude, include_generated, max_tokens, order, cursor, include_contents, github_token, gitlab_token, bitbucket_token }) => {
       try {
-        const markdown = await ingestFromUrl(url, detail, env, github_token);
+        const markdown = await ingestFromUrl(url, detail, env, undefined, {
+          include,
+          exclude,
+          includeGenerated: include_generated,
+          maxTokens: max_tokens,
+          order,
+          cursor,
+          includeContents: include_contents,
+          ctx,
+          tokens: { github: github_token, gist: github_token, gitlab: gitlab_token, bitbucket: bitbucket_token },
+        });
         return { content: [{ type: "text" as const, text: markdown }] };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -76,7 +78,7 @@ export function createMcpFetchHandler(): (
   ctx: ExecutionContext
 ) => Promise<Response> {
   return async (request: Request, env: Env, ctx: ExecutionContext) => {
-    const server = createServer(env);
+    const server = createServer(env, ctx);
     return createMcpHandler(server, { route: "/mcp" })(request, env, ctx);
   };
 }
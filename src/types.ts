@@ -1,30 +1,112 @@
 export interface Env {
   GITHUB_TOKEN?: string;
+  GITLAB_TOKEN?: string;
+  BITBUCKET_TOKEN?: string;
   ASSETS: Fetcher;
   RATE_LIMITER: RateLimit;
   MAX_ZIP_BYTES: string;
   MAX_OUTPUT_BYTES: string;
   MAX_FILE_COUNT: string;
   CACHE_TTL_SECONDS: string;
+  /** Archive guard limits; see src/engine/limits.ts for defaults */
+  MAX_UNCOMPRESSED_BYTES?: string;
+  MAX_COMPRESSION_RATIO?: string;
+  MAX_ARCHIVE_ENTRIES?: string;
+  /** JSON array of ForgeHostConfig entries for self-hosted forges */
+  FORGE_HOSTS?: string;
 }
 
+export type ForgeType = "github-enterprise" | "gitea";
+
+/** A self-hosted forge the Worker may ingest from */
+export interface ForgeHostConfig {
+  /** Host name as it appears in URLs, e.g. "git.example.com" */
+  host: string;
+  /** GitHub Enterprise Server, or Gitea (which also covers Forgejo) */
+  type: ForgeType;
+  /** Name of the Worker secret holding the server token for this host */
+  tokenBinding?: string;
+}
+
+export type FileOrder = "ranked" | "path" | "size";
+
+/** Response body format; markdown unless ?format= or the Accept header says otherwise */
+export type OutputFormat = "markdown" | "json" | "xml";
+
 export type DetailLevel = "summary" | "structure" | "file-list" | "file-contents" | "commits" | "full";
 
+/** Position in a paginated ingest, carried between requests */
+export interface PageCursor {
+  /** owner/repo the cursor was issued for */
+  repo: string;
+  /** Commit SHA the first page was served from (or the ref if it could not be resolved) */
+  ref: string;
+  /** Number of ordered files already returned */
+  offset: number;
+}
+
+/** Inclusive, 1-based line range, e.g. from a `#L10-L80` fragment */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
 export interface ParsedRequest {
+  /** Forge host, e.g. "gitlab.com" or a self-hosted forge; undefined means github.com */
+  host?: string;
   owner: string;
   repo: string;
   ref?: string;
   path?: string;
+  include?: string[];
+  exclude?: string[];
+  includeGenerated?: boolean;
+  maxTokens?: number;
+  order?: FileOrder;
+  cursor?: PageCursor;
+  page?: number;
+  /** Set for blob URLs: `path` names a single file, optionally cut to `lines` */
+  blob?: { lines?: LineRange };
+  /** Set for pull request URLs */
+  pull?: { number: number; includeContents: boolean };
+  /** Set for compare URLs and ?base=&head= */
+  compare?: { base: string; head: string };
+  /**
+   * Set for commit URLs, where `ref` is the commit. The tree at that commit
+   * follows the patch only when a detail level was asked for.
+   */
+  commit?: { includeTree: boolean };
+  /** Set for release URLs; `tag` is undefined for /releases/latest */
+  release?: { tag?: string };
+  /**
+   * Set when a tree or blob URL has more than one segment after the ref
+   * marker: the raw `ref/path` to split once the repository's refs are known.
+   * Until then `ref` is the first segment and `path` the rest.
+   */
+  refAndPath?: string;
+  /** Undefined until the handler has looked at the Accept header */
+  format?: OutputFormat;
   detail: DetailLevel[];
   noCache: boolean;
   userToken?: string;
 }
 
+/** Settings read from a repository's own .gitprism.yml */
+export interface RepoConfig {
+  description?: string;
+  ignore?: string[];
+  include?: string[];
+  priority?: string[];
+  maxFileSize?: number;
+}
+
 export interface FileEntry {
   path: string;
   size: number;
   content?: string;
   lines?: number;
+  /** Estimated LLM tokens for the file content */
+  tokens?: number;
 }
 
 export interface IngestResult {
@@ -32,18 +114,217 @@ export interface IngestResult {
   repo: string;
   repoName: string;
   ref: string;
+  /** Subdirectory the result is scoped to */
+  path?: string;
   fileCount: number;
   totalSize: number;
+  /** Estimated LLM tokens across all included files */
+  totalTokens?: number;
   truncated: boolean;
   truncationMessage?: string;
+  /** Offset of the first file on the next page, when truncated */
+  nextOffset?: number;
+  /** Opaque cursor for the next page, set by the caller from nextOffset */
+  nextCursor?: string;
+  /** URL of the next page, when the caller knows the request URL */
+  nextPageUrl?: string;
+  /** Repository config files (.gitprism.yml, .gitprismignore) that were applied */
+  configFiles?: string[];
+  description?: string;
+  /** The release the ref came from, for release URLs */
+  release?: ReleaseInfo;
   files: FileEntry[];
 }
 
+/** A published release and the tag it points at */
+export interface ReleaseInfo {
+  tag: string;
+  /** Release title; falls back to the tag when the release has none */
+  name: string;
+  /** ISO 8601 publish date; undefined for drafts */
+  publishedAt?: string;
+  /** Release notes as Markdown */
+  body: string;
+  url: string;
+  prerelease: boolean;
+  assets: ReleaseAsset[];
+}
+
+export interface ReleaseAsset {
+  name: string;
+  size: number;
+  downloadCount: number;
+  url: string;
+}
+
+/** Version of the format=json schema; bumped whenever a field is removed or changes meaning */
+export const JSON_SCHEMA_VERSION = 1;
+
+/** A file in JSON output; `content` is present only when contents were requested */
+export interface JsonFile {
+  path: string;
+  size: number;
+  lines?: number;
+  tokens?: number;
+  /** Language name used for code fences, e.g. "typescript"; empty when unknown */
+  language: string;
+  content?: string;
+}
+
+/** JSON output for a repository tree (the archive pipeline) */
+export interface TreeJson {
+  schemaVersion: typeof JSON_SCHEMA_VERSION;
+  kind: "tree";
+  host: string;
+  owner: string;
+  repo: string;
+  /** Ref as requested, or the default branch */
+  ref: string;
+  /** Commit the tree was read from, when the ref could be resolved */
+  sha?: string;
+  path?: string;
+  description?: string;
+  release?: ReleaseInfo;
+  /** The commit and its patch, for commit URLs that also asked for the tree */
+  commit?: CommitResult;
+  fileCount: number;
+  totalSize: number;
+  totalTokens?: number;
+  files: JsonFile[];
+  /** Recent commits, when the commits detail level was requested */
+  commits?: CommitInfo[];
+  configFiles?: string[];
+  truncated: boolean;
+  truncationMessage?: string;
+  nextCursor?: string;
+  nextPageUrl?: string;
+}
+
+/**
+ * Every format=json response body. `kind` tells which shape follows; the
+ * non-tree kinds carry the same fields as their result types.
+ */
+export type JsonOutput =
+  | TreeJson
+  | ({ schemaVersion: typeof JSON_SCHEMA_VERSION; kind: "commits"; owner: string; repo: string; ref: string; commits: CommitInfo[] })
+  | ({ schemaVersion: typeof JSON_SCHEMA_VERSION; kind: "blob" } & BlobResult)
+  | ({ schemaVersion: typeof JSON_SCHEMA_VERSION; kind: "pull" } & PullRequestResult)
+  | ({ schemaVersion: typeof JSON_SCHEMA_VERSION; kind: "compare" } & CompareResult)
+  | ({ schemaVersion: typeof JSON_SCHEMA_VERSION; kind: "commit" } & CommitResult);
+
+/** A single file fetched for a blob URL */
+export interface BlobResult {
+  owner: string;
+  repo: string;
+  ref: string;
+  /** Commit the file was read from, when the ref could be resolved */
+  sha?: string;
+  path: string;
+  /** Lines actually returned, clamped to the file; undefined for the whole file */
+  lines?: LineRange;
+  totalLines: number;
+  size: number;
+  /** Undefined for binary files */
+  content?: string;
+  permalink: string;
+}
+
+/** One commit as commit lists and compares show it */
+export interface CommitInfo {
+  sha: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+/** A file changed by a pull request or between two refs */
+export interface ChangedFile {
+  path: string;
+  /** Path before a rename */
+  previousPath?: string;
+  /** added, modified, removed, renamed, copied, changed, or unchanged */
+  status: string;
+  additions: number;
+  deletions: number;
+  /** Unified diff hunks; missing for binary files and very large diffs */
+  patch?: string;
+  /** Post-change file contents, when requested */
+  content?: string;
+}
+
+export interface PullRequestResult {
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  state: string;
+  url: string;
+  baseRef: string;
+  baseSha: string;
+  headRef: string;
+  headSha: string;
+  /** `user:branch` form of the head, which differs from headRef for forks */
+  headLabel: string;
+  additions: number;
+  deletions: number;
+  /** Number of changed files reported by the forge, before filtering */
+  changedFiles: number;
+  files: ChangedFile[];
+  truncated: boolean;
+  truncationMessage?: string;
+}
+
+/** A single commit with its patch */
+export interface CommitResult {
+  owner: string;
+  repo: string;
+  sha: string;
+  url: string;
+  /** Full commit message, not just the subject line */
+  message: string;
+  author: string;
+  /** Forge account of the author, when the email maps to one */
+  authorLogin?: string;
+  /** ISO 8601 author date */
+  date: string;
+  committer: string;
+  /** Parent SHAs; more than one for merge commits */
+  parents: string[];
+  additions: number;
+  deletions: number;
+  files: ChangedFile[];
+  truncated: boolean;
+  truncationMessage?: string;
+}
+
+/** The changes between two refs */
+export interface CompareResult {
+  owner: string;
+  repo: string;
+  base: string;
+  head: string;
+  url: string;
+  /** ahead, behind, diverged, or identical */
+  status: string;
+  aheadBy: number;
+  behindBy: number;
+  totalCommits: number;
+  commits: CommitInfo[];
+  files: ChangedFile[];
+  truncated: boolean;
+  truncationMessage?: string;
+}
+
 export class ParseError extends Error {
   readonly __type = "ParseError";
-  constructor(message: string) {
+  /** Request field the error is about, e.g. "repo" or "include.2", when known */
+  field?: string;
+  constructor(message: string, field?: string) {
     super(message);
     this.name = "ParseError";
+    this.field = field;
   }
 }
 
@@ -63,6 +344,15 @@ export class ZipTooLargeError extends Error {
   }
 }
 
+/** A single file fetched outside the archive is over MAX_ZIP_BYTES */
+export class FileTooLargeError extends Error {
+  readonly __type = "FileTooLargeError";
+  constructor(message: string) {
+    super(message);
+    this.name = "FileTooLargeError";
+  }
+}
+
 export class GitHubApiError extends Error {
   status: number;
   readonly __type = "GitHubApiError";
@@ -73,6 +363,17 @@ export class GitHubApiError extends Error {
   }
 }
 
+/** Error response from a non-GitHub forge API */
+export class SourceApiError extends Error {
+  status: number;
+  readonly __type = "SourceApiError";
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "SourceApiError";
+    this.status = status;
+  }
+}
+
 export class DecompressionError extends Error {
   readonly __type = "DecompressionError";
   constructor(message: string) {
@@ -81,6 +382,20 @@ export class DecompressionError extends Error {
   }
 }
 
+/**
+ * The archive breaks a safety limit (zip bomb, absurd entry count, or unsafe
+ * entry names). `status` is 413 for size limits and 422 for malformed input.
+ */
+export class UnsafeArchiveError extends Error {
+  status: 413 | 422;
+  readonly __type = "UnsafeArchiveError";
+  constructor(status: 413 | 422, message: string) {
+    super(message);
+    this.name = "UnsafeArchiveError";
+    this.status = status;
+  }
+}
+
 // Type guards that work after bundling
 export function isParseError(err: unknown): err is ParseError {
   return err instanceof Error && (err as ParseError).__type === "ParseError";
@@ -94,10 +409,22 @@ export function isZipTooLargeError(err: unknown): err is ZipTooLargeError {
   return err instanceof Error && (err as ZipTooLargeError).__type === "ZipTooLargeError";
 }
 
+export function isFileTooLargeError(err: unknown): err is FileTooLargeError {
+  return err instanceof Error && (err as FileTooLargeError).__type === "FileTooLargeError";
+}
+
 export function isGitHubApiError(err: unknown): err is GitHubApiError {
   return err instanceof Error && (err as GitHubApiError).__type === "GitHubApiError";
 }
 
+export function isSourceApiError(err: unknown): err is SourceApiError {
+  return err instanceof Error && (err as SourceApiError).__type === "SourceApiError";
+}
+
 export function isDecompressionError(err: unknown): err is DecompressionError {
   return err instanceof Error && (err as DecompressionError).__type === "DecompressionError";
 }
+
+export function isUnsafeArchiveError(err: unknown): err is UnsafeArchiveError {
+  return err instanceof Error && (err as UnsafeArchiveError).__type === "UnsafeArchiveError";
+}
@@ -12,17 +12,55 @@ export function buildCacheKey(
   sha?: string
 ): Request {
   const params = new URLSearchParams();
+  if (parsed.host) params.set("host", parsed.host);
   params.set("owner", parsed.owner);
   params.set("repo", parsed.repo);
   const keyRef = sha ?? parsed.ref ?? "default";
   params.set("ref", keyRef);
   if (parsed.path) params.set("path", parsed.path);
-  params.set("detail", parsed.detail);
+  if (parsed.include?.length) params.set("include", parsed.include.join(","));
+  if (parsed.exclude?.length) params.set("exclude", parsed.exclude.join(","));
+  if (parsed.includeGenerated) params.set("include-generated", "true");
+  if (parsed.maxTokens !== undefined) params.set("max-tokens", String(parsed.maxTokens));
+  if (parsed.order) params.set("order", parsed.order);
+  if (parsed.cursor) params.set("offset", String(parsed.cursor.offset));
+  if (parsed.page !== undefined) params.set("page", String(parsed.page));
+  if (parsed.blob) {
+    const lines = parsed.blob.lines;
+    params.set("blob", lines ? `${lines.start}-${lines.end}` : "all");
+  }
+  if (parsed.commit) params.set("commit", parsed.commit.includeTree ? "tree" : "patch");
+  if (parsed.release) params.set("release", parsed.release.tag ?? "latest");
+  params.set("detail", parsed.detail.join(","));
+  if (parsed.format && parsed.format !== "markdown") params.set("format", parsed.format);
 
   const url = `${CACHE_BASE_URL}?${params.toString()}`;
   return new Request(url);
 }
 
+/**
+ * Cache key for the ref/path split of a tree or blob URL whose ref may
+ * contain slashes. Splits depend only on the repository's refs, not on the
+ * other request params. A split resolved with a user's token can name refs
+ * of a private repository, so it is keyed to a hash of that token.
+ */
+export async function buildRefSplitCacheKey(parsed: ParsedRequest, userToken?: string): Promise<Request> {
+  const params = new URLSearchParams();
+  if (parsed.host) params.set("host", parsed.host);
+  params.set("owner", parsed.owner);
+  params.set("repo", parsed.repo);
+  params.set("ref-and-path", parsed.refAndPath ?? "");
+  if (parsed.blob) params.set("blob", "true");
+  if (userToken) params.set("token", await hashToken(userToken));
+  return new Request(`${CACHE_BASE_URL}ref-split?${params.toString()}`);
+}
+
+/** Hex SHA-256 of a token, so cache keys never carry the token itself */
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
 /**
  * Attempts to retrieve a cached response.
  * Returns undefined if not found or if the Cache API is unavailable.
@@ -0,0 +1,50 @@
+import { ParseError, type PageCursor } from "../types";
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * Encodes a pagination cursor as an opaque, URL-safe string.
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return toBase64Url(JSON.stringify([cursor.repo, cursor.ref, cursor.offset]));
+}
+
+/**
+ * Decodes a pagination cursor and checks that it belongs to the requested
+ * repository. Throws ParseError for malformed or mismatched cursors.
+ */
+export function decodeCursor(raw: string, owner: string, repo: string): PageCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(fromBase64Url(raw));
+  } catch {
+    throw new ParseError("Invalid cursor. Use the X-Next-Cursor value from a previous response.");
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    typeof decoded[0] !== "string" ||
+    typeof decoded[1] !== "string" ||
+    !Number.isInteger(decoded[2]) ||
+    decoded[2] < 0
+  ) {
+    throw new ParseError("Invalid cursor. Use the X-Next-Cursor value from a previous response.");
+  }
+
+  const cursor: PageCursor = { repo: decoded[0], ref: decoded[1], offset: decoded[2] };
+  if (cursor.repo.toLowerCase() !== `${owner}/${repo}`.toLowerCase()) {
+    throw new ParseError(`Cursor belongs to ${cursor.repo}, not ${owner}/${repo}.`);
+  }
+  return cursor;
+}
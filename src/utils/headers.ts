@@ -1,4 +1,15 @@
-import type { IngestResult } from "../types";
+import type { IngestResult, OutputFormat } from "../types";
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xml: "application/xml; charset=utf-8",
+};
+
+/** Content-Type for a response body in the given format */
+export function contentType(format: OutputFormat = "markdown"): string {
+  return CONTENT_TYPES[format];
+}
 
 export interface BuildHeadersParams {
   result: IngestResult;
@@ -6,6 +17,7 @@ export interface BuildHeadersParams {
   rateLimitReset?: string;
   cacheStatus?: "HIT" | "MISS";
   commitSha?: string;
+  format?: OutputFormat;
 }
 
 /**
@@ -17,9 +29,10 @@ export function buildResponseHeaders({
   rateLimitReset,
   cacheStatus = "MISS",
   commitSha,
+  format,
 }: BuildHeadersParams): Headers {
   const headers = new Headers({
-    "Content-Type": "text/markdown; charset=utf-8",
+    "Content-Type": contentType(format),
     "X-Repo": result.repoName,
     "X-Ref": result.ref,
     "X-File-Count": String(result.fileCount),
@@ -28,6 +41,18 @@ export function buildResponseHeaders({
     "X-Cache": cacheStatus,
   });
 
+  if (result.path) {
+    headers.set("X-Path", result.path);
+  }
+
+  if (result.totalTokens !== undefined) {
+    headers.set("X-Estimated-Tokens", String(result.totalTokens));
+  }
+
+  if (result.nextCursor) {
+    headers.set("X-Next-Cursor", result.nextCursor);
+  }
+
   if (commitSha) {
     headers.set("X-Commit-Sha", commitSha);
   }
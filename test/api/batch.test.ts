@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { handleBatchIngest, MAX_BATCH_ITEMS } from "../../src/api/batch";
+import { zipSync, strToU8 } from "fflate";
+import type { Env } from "../../src/types";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function makeZip(files: Record<string, string>, prefix = "owner-repo-abc/"): Uint8Array {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [name, content] of Object.entries(files)) {
+    entries[prefix + name] = strToU8(content);
+  }
+  return zipSync(entries);
+}
+
+function makeEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    GITHUB_TOKEN: undefined,
+    ASSETS: { fetch: vi.fn() } as unknown as Fetcher,
+    RATE_LIMITER: { limit: vi.fn().mockResolvedValue({ success: true }) } as unknown as RateLimit,
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+    ...overrides,
+  };
+}
+
+function batchRequest(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request("https://gitprism.dev/ingest/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+/** SHA lookup, size check, and zipball for one successful repository */
+function mockRepo(fetchMock: ReturnType<typeof vi.fn>, files: Record<string, string>): void {
+  fetchMock
+    .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "abc123def456" }), { status: 200 }))
+    .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+    .mockResolvedValueOnce(new Response(makeZip(files).buffer as ArrayBuffer, { status: 200 }));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("handleBatchIngest – validation", () => {
+  it("rejects methods other than POST", async () => {
+    const res = await handleBatchIngest(new Request("https://gitprism.dev/ingest/batch"), makeEnv());
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("POST");
+  });
+
+  it("rejects a body that is not JSON", async () => {
+    const res = await handleBatchIngest(batchRequest("not json"), makeEnv());
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects an empty array", async () => {
+    const res = await handleBatchIngest(batchRequest([]), makeEnv());
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects batches over the item limit", async () => {
+    const items = Array.from({ length: MAX_BATCH_ITEMS + 1 }, () => ({ repo: "owner/repo" }));
+    const res = await handleBatchIngest(batchRequest(items), makeEnv());
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { error: string }).error).toContain(String(MAX_BATCH_ITEMS));
+  });
+
+  it("names the item that failed validation", async () => {
+    const res = await handleBatchIngest(batchRequest([{ repo: "owner/repo" }, { ref: "main" }]), makeEnv());
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string; field?: string };
+    expect(body.error).toContain("Item 2");
+    expect(body.field).toBe("1.repo");
+  });
+
+  it("names the field of an item the /ingest parser rejects", async () => {
+    const res = await handleBatchIngest(batchRequest([{ repo: "owner/repo", host: "example.com" }]), makeEnv());
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { field?: string }).field).toBe("0.host");
+  });
+
+  it("rejects fields a batch item does not take", async () => {
+    const res = await handleBatchIngest(batchRequest([{ repo: "owner/repo", branch: "main" }]), makeEnv());
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string; field?: string };
+    expect(body.error).toBe('Item 1: Invalid "branch": Unrecognized key: "branch"');
+    expect(body.field).toBe("0.branch");
+  });
+
+  it("rejects detail levels the batch cannot serve", async () => {
+    const res = await handleBatchIngest(batchRequest([{ repo: "owner/repo", detail: "full" }]), makeEnv());
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("handleBatchIngest – items", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns one document with a section per repository", async () => {
+    const fetchMock = fetch as ReturnType<typeof vi.fn>;
+    mockRepo(fetchMock, { "README.md": "# SDK" });
+    mockRepo(fetchMock, { "index.ts": "export {}" });
+
+    const res = await handleBatchIngest(
+      batchRequest([
+        { repo: "owner/sdk", ref: "main" },
+        { repo: "owner/server", ref: "v2", detail: "file-list" },
+      ]),
+      makeEnv()
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/markdown; charset=utf-8");
+    expect(res.headers.get("X-Batch-Items")).toBe("2");
+    expect(res.headers.get("X-Batch-Failed")).toBe("0");
+    const text = await res.text();
+    expect(text).toContain("| 1 | owner/sdk | main | summary | 200 |");
+    expect(text).toContain("| 2 | owner/server | v2 | file-list | 200 |");
+    expect(text).toContain("## 1. owner/sdk");
+    expect(text).toContain("## 2. owner/server");
+    expect(text).toContain("index.ts");
+  });
+
+  it("reports a failed item without failing the batch", async () => {
+    const fetchMock = fetch as ReturnType<typeof vi.fn>;
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "abc123def456" }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "60000000" } }));
+    mockRepo(fetchMock, { "README.md": "# Server" });
+
+    const res = await handleBatchIngest(
+      batchRequest([
+        { repo: "owner/huge", ref: "main" },
+        { repo: "owner/server", ref: "main" },
+      ]),
+      makeEnv()
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Batch-Failed")).toBe("1");
+    const text = await res.text();
+    expect(text).toMatch(/\| 1 \| owner\/huge \| main \| summary \| 413 \| .*50 MB.* \|/);
+    expect(text).not.toContain("## 1. owner/huge");
+    expect(text).toContain("## 2. owner/server");
+  });
+
+  it("skips items once the shared output budget is spent", async () => {
+    const fetchMock = fetch as ReturnType<typeof vi.fn>;
+    mockRepo(fetchMock, { "README.md": "# SDK" });
+
+    const res = await handleBatchIngest(
+      batchRequest([
+        { repo: "owner/sdk", ref: "main" },
+        { repo: "owner/server", ref: "main" },
+      ]),
+      makeEnv({ MAX_OUTPUT_BYTES: "10" })
+    );
+    expect(res.headers.get("X-Truncated")).toBe("true");
+    const text = await res.text();
+    expect(text).toContain("| 2 | owner/server | main | summary | 413 |");
+    expect(text).toContain("[TRUNCATED]");
+    // Only the first repository was fetched
+    expect(fetchMock.mock.calls.length).toBe(3);
+  });
+
+  it("charges one rate-limit unit per item without a user token", async () => {
+    const fetchMock = fetch as ReturnType<typeof vi.fn>;
+    mockRepo(fetchMock, { "README.md": "# SDK" });
+    mockRepo(fetchMock, { "README.md": "# Server" });
+    const env = makeEnv();
+
+    await handleBatchIngest(
+      batchRequest([
+        { repo: "owner/sdk", ref: "main" },
+        { repo: "owner/server", ref: "main" },
+      ]),
+      env
+    );
+    expect((env.RATE_LIMITER.limit as ReturnType<typeof vi.fn>).mock.calls.length).toBe(2);
+  });
+
+  it("returns 429 for the whole batch when rate limited", async () => {
+    const env = makeEnv({
+      RATE_LIMITER: { limit: vi.fn().mockResolvedValue({ success: false }) } as unknown as RateLimit,
+    });
+    const res = await handleBatchIngest(batchRequest([{ repo: "owner/sdk" }]), env);
+    expect(res.status).toBe(429);
+    expect((fetch as ReturnType<typeof vi.fn>).mock.calls.length).toBe(0);
+  });
+
+  it("skips the rate limit when every item's forge has a user token", async () => {
+    const fetchMock = fetch as ReturnType<typeof vi.fn>;
+    mockRepo(fetchMock, { "README.md": "# SDK" });
+    const env = makeEnv();
+
+    await handleBatchIngest(batchRequest([{ repo: "owner/sdk", ref: "main" }], { "X-GitHub-Token": "ghp_user" }), env);
+    expect((env.RATE_LIMITER.limit as ReturnType<typeof vi.fn>).mock.calls.length).toBe(0);
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)["Authorization"]).toContain("ghp_user");
+  });
+});
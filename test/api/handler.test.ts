@@ -133,6 +133,13 @@ describe("handleIngest – error responses", () => {
     expect(body.error).toBeTruthy();
   });
 
+  it("returns 400 for a host that is an Object prototype key", async () => {
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&host=constructor");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { field?: string }).field).toBe("host");
+  });
+
   it("returns 400 for missing repo param", async () => {
     const req = new Request("https://gitprism.dev/ingest?ref=main");
     const res = await handleIngest(req, makeEnv(), makeCtx());
@@ -154,6 +161,20 @@ describe("handleIngest – error responses", () => {
     expect(body.error).toContain("50 MB");
   });
 
+  it("returns 422 for an archive with path traversal entries", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const evilZip = makeZip({ "../evil.ts": "x" });
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "abc123def456" }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(evilZip.buffer as ArrayBuffer, { status: 200 }));
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&ref=main&detail=summary&no-cache=true");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(422);
+    const body = await res.json() as { error: string };
+    expect(body.error).toContain("unsafe entry name");
+  });
+
   it("returns 404 for non-existent repo", async () => {
     vi.stubGlobal("fetch", vi.fn());
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
@@ -318,3 +339,393 @@ describe("handleIngest – user token", () => {
 
 
 
+
+describe("handleIngest – POST with a JSON body", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  function postIngest(body: unknown): Request {
+    return new Request("https://gitprism.dev/ingest", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  it("ingests the repository named in the body, using the body token", async () => {
+    const env = makeEnv({
+      RATE_LIMITER: { limit: vi.fn().mockResolvedValue({ success: false }) } as unknown as RateLimit,
+    });
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "abc123" }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+
+    const res = await handleIngest(
+      postIngest({ repo: "owner/repo", ref: "main", detail: "summary", github_token: "body-token" }),
+      env,
+      makeCtx()
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Token-Source")).toBe("user");
+    expect(env.RATE_LIMITER.limit).not.toHaveBeenCalled();
+    const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)["Authorization"]).toContain("body-token");
+    expect(await res.text()).toContain("owner/repo");
+  });
+
+  it("returns a 400 naming the bad field", async () => {
+    const res = await handleIngest(postIngest({ repo: "owner/repo", max_tokens: -5 }), makeEnv(), makeCtx());
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string; field?: string };
+    expect(body.field).toBe("max_tokens");
+    expect(body.error).toContain("max_tokens");
+  });
+
+  it("returns 400 for a body that is not JSON", async () => {
+    const res = await handleIngest(postIngest("repo=owner/repo"), makeEnv(), makeCtx());
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("handleIngest – JSON and XML output", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "abc123def456" }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("returns the file list as JSON for ?format=json", async () => {
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&ref=main&detail=summary&format=json&no-cache=true");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/json; charset=utf-8");
+    const body = (await res.json()) as Record<string, unknown> & { files: Array<Record<string, unknown>> };
+    expect(body).toMatchObject({ schemaVersion: 1, kind: "tree", host: "github.com", owner: "owner", repo: "repo", ref: "main", sha: "abc123def456" });
+    expect(body.files[0]).toMatchObject({ path: "src/index.ts", lines: expect.any(Number), language: "typescript" });
+    // Contents only come with a contents detail level
+    expect(body.files[0].content).toBeUndefined();
+  });
+
+  it("includes contents and negotiates JSON from the Accept header", async () => {
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&ref=main&detail=file-contents&no-cache=true", {
+      headers: { Accept: "application/json" },
+    });
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.headers.get("Content-Type")).toBe("application/json; charset=utf-8");
+    const body = (await res.json()) as { files: Array<{ content?: string }> };
+    expect(body.files[0].content).toBe("const x = 1;\nexport default x;\n");
+  });
+
+  it("returns XML documents for ?format=xml", async () => {
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&ref=main&detail=file-contents&format=xml&no-cache=true");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/xml; charset=utf-8");
+    const text = await res.text();
+    expect(text).toContain("<name>owner/repo</name>");
+    expect(text).toContain('<document index="1">\n<source>src/index.ts</source>');
+  });
+
+  it("rejects format=xml for pull requests", async () => {
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/pull/1?format=xml");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { field?: string }).field).toBe("format");
+  });
+
+  it("lets ?format=markdown override the Accept header", async () => {
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&ref=main&detail=summary&format=markdown&no-cache=true", {
+      headers: { Accept: "application/json" },
+    });
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.headers.get("Content-Type")).toBe("text/markdown; charset=utf-8");
+  });
+});
+
+describe("handleIngest – blob URLs", () => {
+  const sha = "0123456789abcdef0123456789abcdef01234567";
+  const file = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+    (fetch as ReturnType<typeof vi.fn>)
+      // Matching branches, then tags, to split the ref from the file path
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ ref: "refs/heads/main" }]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(file, { status: 200 }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns only the selected lines without downloading the zipball", async () => {
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/blob/main/src/x.ts?lines=3-5");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).toContain("```typescript\nline 3\nline 4\nline 5\n```");
+    expect(text).not.toContain("line 6");
+    expect(text).toContain(`https://github.com/owner/repo/blob/${sha}/src/x.ts#L3-L5`);
+
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+    expect(urls).toHaveLength(4);
+    expect(urls[3]).toBe("https://api.github.com/repos/owner/repo/contents/src/x.ts?ref=" + sha);
+  });
+
+  it("accepts a percent-encoded #L fragment", async () => {
+    // no-cache, so the ref split cached by the previous test is looked up again
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/blob/main/src/x.ts%23L10?no-cache=true");
+    const text = await (await handleIngest(req, makeEnv(), makeCtx())).text();
+    expect(text).toContain("lines 10-10 of 20");
+  });
+});
+
+describe("handleIngest – pull requests", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the pull request diff without resolving a ref or downloading the zipball", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const pull = {
+      title: "Tweak",
+      body: "",
+      state: "open",
+      html_url: "https://github.com/owner/repo/pull/3",
+      user: { login: "ada" },
+      base: { ref: "main", sha: "a".repeat(40) },
+      head: { ref: "tweak", sha: "b".repeat(40), label: "owner:tweak" },
+      additions: 1,
+      deletions: 1,
+      changed_files: 1,
+    };
+    const files = [{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" }];
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify(pull), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(files), { status: 200 }));
+
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/pull/3");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Commit-Sha")).toBe("b".repeat(40));
+    const text = await res.text();
+    expect(text).toContain("# owner/repo#3: Tweak");
+    expect(text).toContain("```diff\n@@ -1 +1 @@\n```");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("handleIngest – compare", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the changeset scoped to path without downloading the zipball", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const comparison = {
+      html_url: "https://github.com/owner/repo/compare/v1...v2",
+      status: "ahead",
+      ahead_by: 1,
+      behind_by: 0,
+      total_commits: 1,
+      commits: [{ sha: "c".repeat(40), commit: { author: { name: "Ada", date: "2024-03-01T00:00:00Z" }, message: "Tweak" } }],
+      files: [
+        { filename: "src/index.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" },
+        { filename: "docs/notes.md", status: "added", additions: 2, deletions: 0, patch: "@@ +1,2 @@" },
+      ],
+    };
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify(comparison), { status: 200 }))
+      // Rule files (.gitignore, .gitattributes, .gitprism.yml, ...) are absent at head
+      .mockImplementation(async () => new Response("Not Found", { status: 404 }));
+
+    const req = new Request("https://gitprism.dev/ingest?repo=owner/repo&base=v1&head=v2&path=src");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Ref")).toBe("v1...v2");
+    expect(res.headers.get("X-File-Count")).toBe("1");
+    const text = await res.text();
+    expect(text).toContain("# owner/repo: v1...v2");
+    expect(text).toContain("| `src/index.ts` | modified | 1 | 1 |");
+    expect(text).not.toContain("docs/notes.md");
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map(([url]) => String(url));
+    expect(urls.some((url) => url.includes("zipball"))).toBe(false);
+    expect(urls).toContain("https://api.github.com/repos/owner/repo/contents/src/.gitignore?ref=v2");
+  });
+});
+
+describe("handleIngest – commit URLs", () => {
+  const sha = "d".repeat(40);
+  const commit = {
+    sha,
+    html_url: `https://github.com/owner/repo/commit/${sha}`,
+    commit: {
+      author: { name: "Ada", email: "ada@example.com", date: "2024-03-01T10:00:00Z" },
+      committer: { name: "Ada", date: "2024-03-01T10:00:00Z" },
+      message: "Fix overflow\n\nThe counter wrapped.",
+    },
+    author: { login: "ada" },
+    parents: [{ sha: "e".repeat(40) }],
+    stats: { additions: 1, deletions: 1 },
+    files: [{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" }],
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(commit), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the commit and its patch without downloading the zipball", async () => {
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/commit/ddddddd");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Commit-Sha")).toBe(sha);
+    const text = await res.text();
+    expect(text).toContain("# owner/repo@ddddddd: Fix overflow");
+    expect(text).toContain("The counter wrapped.");
+    expect(text).toContain("```diff\n@@ -1 +1 @@\n```");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("appends the tree at the commit when a detail level is named", async () => {
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/commit/ddddddd?detail=structure");
+    const text = await (await handleIngest(req, makeEnv(), makeCtx())).text();
+    expect(text).toContain("# owner/repo@ddddddd: Fix overflow");
+    expect(text).toContain("index.ts");
+    expect(text.indexOf("## Diff")).toBeLessThan(text.lastIndexOf("index.ts"));
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("handleIngest – release URLs", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("ingests the latest release's tag, led by its notes", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const release = {
+      tag_name: "v3.1.0",
+      name: "Spring release",
+      published_at: "2024-04-01T00:00:00Z",
+      body: "Faster builds.",
+      html_url: "https://github.com/owner/repo/releases/tag/v3.1.0",
+      prerelease: false,
+      assets: [],
+    };
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify(release), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "f".repeat(40) }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/releases/latest?detail=summary");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).toContain("**Release:** Spring release");
+    expect(text).toContain("Faster builds.");
+    expect(text).toContain("**Ref:** `v3.1.0`");
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+    expect(urls[1]).toContain("/commits/v3.1.0");
+  });
+});
+
+describe("handleIngest – gists", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("ingests a gist's archive with its description in the front matter", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    const revision = "c".repeat(40);
+    const gist = {
+      id: "abc123",
+      description: "Parser crash repro",
+      owner: { login: "ada" },
+      history: [{ version: revision }],
+      files: {},
+    };
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify(gist), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(
+        new Response(makeZip({ "repro.ts": "crash();\n" }, `abc123-${revision}/`).buffer as ArrayBuffer, { status: 200 })
+      );
+
+    const req = new Request("https://gitprism.dev/https://gist.github.com/ada/abc123?detail=file-list");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).toContain('description: "Parser crash repro"');
+    expect(text).toContain("repro.ts");
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+    expect(urls[2]).toBe(`https://gist.github.com/ada/abc123/archive/${revision}.zip`);
+  });
+});
+
+describe("handleIngest – refs containing slashes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("splits the longest matching branch from the path and reports it", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify([{ ref: "refs/heads/feature" }, { ref: "refs/heads/feature/login-form" }]), { status: 200 })
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify([]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "a".repeat(40) }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/tree/feature/login-form/src?detail=summary");
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Ref")).toBe("feature/login-form");
+    expect(res.headers.get("X-Path")).toBe("src");
+    const text = await res.text();
+    expect(text).toContain("**Ref:** `feature/login-form`");
+    expect(text).toContain("**Path:** `src`");
+
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+    expect(urls[0]).toBe("https://api.github.com/repos/owner/repo/git/matching-refs/heads/feature");
+    expect(urls[2]).toBe("https://api.github.com/repos/owner/repo/commits/feature/login-form");
+  });
+
+  it("does not reuse a split cached for another token", async () => {
+    vi.stubGlobal("fetch", vi.fn());
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ ref: "refs/heads/feature" }]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ sha: "b".repeat(40) }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "1000" } }))
+      .mockResolvedValueOnce(new Response(zipData.buffer as ArrayBuffer, { status: 200 }));
+
+    const req = new Request("https://gitprism.dev/https://github.com/owner/repo/tree/feature/login-form/src?detail=summary", {
+      headers: { "X-GitHub-Token": "user-token" },
+    });
+    const res = await handleIngest(req, makeEnv(), makeCtx());
+    expect(res.headers.get("X-Ref")).toBe("feature");
+    expect((fetch as ReturnType<typeof vi.fn>).mock.calls[0][0]).toBe(
+      "https://api.github.com/repos/owner/repo/git/matching-refs/heads/feature"
+    );
+  });
+});
@@ -39,6 +39,16 @@ describe("buildResponseHeaders", () => {
     expect(headers.get("X-Total-Size")).toBe("102400");
   });
 
+  it("sets X-Estimated-Tokens when the result has a token estimate", () => {
+    const headers = buildResponseHeaders({ result: { ...mockResult, totalTokens: 25600 } });
+    expect(headers.get("X-Estimated-Tokens")).toBe("25600");
+  });
+
+  it("omits X-Estimated-Tokens when there is no token estimate", () => {
+    const headers = buildResponseHeaders({ result: mockResult });
+    expect(headers.get("X-Estimated-Tokens")).toBeNull();
+  });
+
   it("sets X-Truncated to false by default", () => {
     const headers = buildResponseHeaders({ result: mockResult });
     expect(headers.get("X-Truncated")).toBe("false");
@@ -75,6 +85,12 @@ describe("buildResponseHeaders", () => {
     expect(headers.get("X-RateLimit-Reset")).toBeNull();
   });
 
+  it("sets X-Next-Cursor only when there is a next page", () => {
+    expect(buildResponseHeaders({ result: mockResult }).get("X-Next-Cursor")).toBeNull();
+    const headers = buildResponseHeaders({ result: { ...mockResult, nextCursor: "abc" } });
+    expect(headers.get("X-Next-Cursor")).toBe("abc");
+  });
+
   it("sets X-Commit-Sha when commitSha is provided", () => {
     const headers = buildResponseHeaders({ result: mockResult, commitSha: "abc123def456" });
     expect(headers.get("X-Commit-Sha")).toBe("abc123def456");
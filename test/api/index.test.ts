@@ -60,6 +60,15 @@ describe("Worker routing", () => {
     expect(res.status).toBe(400);
   });
 
+  it("routes /ingest/batch to the batch handler", async () => {
+    const req = new Request("https://gitprism.dev/ingest/batch", { method: "POST", body: "[]" });
+    const res = await worker.fetch(req, makeEnv(), makeCtx());
+    // Empty batch is rejected by the batch handler, not by the /ingest parser
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as { error: string };
+    expect(body.error).toContain("JSON array");
+  });
+
   it("routes URL-appended GitHub path to API handler", async () => {
     const req = new Request("https://gitprism.dev/https://github.com/owner/repo");
     const res = await worker.fetch(req, makeEnv(), makeCtx());
@@ -31,7 +31,7 @@ describe("handleLlmsTxt", () => {
   it("includes limits documentation", async () => {
     const res = handleLlmsTxt();
     const text = await res.text();
-    expect(text).toContain("50 MB");
+    expect(text).toContain("100 MB");
     expect(text).toContain("5,000");
     expect(text).toContain("30 requests per minute");
   });
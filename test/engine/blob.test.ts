@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchBlob } from "../../src/engine/blob";
+import { ParseError } from "../../src/types";
+import type { SourceProvider } from "../../src/engine/providers";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+function makeProvider(content: string | Uint8Array): SourceProvider {
+  const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return {
+    fetchFile: vi.fn().mockResolvedValue(bytes),
+    fileUrl: (owner: string, repo: string, ref: string, path: string, lines?: { start: number; end: number }) =>
+      `https://forge.test/${owner}/${repo}/${ref}/${path}${lines ? `#${lines.start}-${lines.end}` : ""}`,
+  } as unknown as SourceProvider;
+}
+
+const tenLines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("fetchBlob", () => {
+  it("returns the whole file when no range is given", async () => {
+    const blob = await fetchBlob(makeProvider(tenLines), { owner: "o", repo: "r", ref: "main", path: "a.txt" });
+    expect(blob.content).toBe(tenLines);
+    expect(blob.totalLines).toBe(10);
+    expect(blob.lines).toBeUndefined();
+  });
+
+  it("cuts the file to the range and pins the download and permalink to the commit", async () => {
+    const provider = makeProvider(tenLines);
+    const blob = await fetchBlob(provider, {
+      owner: "o", repo: "r", ref: "main", sha: SHA, path: "a.txt", lines: { start: 2, end: 4 },
+    });
+    expect(blob.content).toBe("line 2\nline 3\nline 4\n");
+    expect(provider.fetchFile).toHaveBeenCalledWith("o", "r", SHA, "a.txt", undefined);
+    expect(blob.permalink).toBe(`https://forge.test/o/r/${SHA}/a.txt#2-4`);
+  });
+
+  it("clamps a range that runs past the end of the file", async () => {
+    const blob = await fetchBlob(makeProvider(tenLines), {
+      owner: "o", repo: "r", ref: "main", path: "a.txt", lines: { start: 9, end: 50 },
+    });
+    expect(blob.lines).toEqual({ start: 9, end: 10 });
+    expect(blob.content).toBe("line 9\nline 10\n");
+  });
+
+  it("throws ParseError when the range starts past the end", async () => {
+    await expect(
+      fetchBlob(makeProvider(tenLines), { owner: "o", repo: "r", ref: "main", path: "a.txt", lines: { start: 11, end: 12 } })
+    ).rejects.toThrow(ParseError);
+  });
+
+  it("omits the contents of binary files", async () => {
+    const blob = await fetchBlob(makeProvider(new Uint8Array([0x89, 0x50, 0x00, 0x01])), {
+      owner: "o", repo: "r", ref: "main", path: "logo.png",
+    });
+    expect(blob.content).toBeUndefined();
+    expect(blob.size).toBe(4);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from "vitest";
+import { ingestCommit } from "../../src/engine/commit";
+import { ParseError, type CommitResult } from "../../src/types";
+import type { SourceProvider } from "../../src/engine/providers";
+
+function makeCommit(): CommitResult {
+  return {
+    owner: "owner",
+    repo: "repo",
+    sha: "d".repeat(40),
+    url: "https://github.com/owner/repo/commit/dddd",
+    message: "Fix overflow",
+    author: "Ada",
+    date: "2024-03-01T10:00:00Z",
+    committer: "Ada",
+    parents: ["e".repeat(40)],
+    additions: 3,
+    deletions: 1,
+    files: [
+      { path: "src/count.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ count @@" },
+      { path: "test/count.test.ts", status: "modified", additions: 2, deletions: 0, patch: "@@ test @@" },
+      { path: "dist/bundle.js", status: "modified", additions: 0, deletions: 0, patch: "@@ dist @@" },
+    ],
+    truncated: false,
+  };
+}
+
+describe("ingestCommit", () => {
+  it("scopes the patch to path and drops ignored files", async () => {
+    const provider = { host: "github.com", fetchCommit: vi.fn().mockResolvedValue(makeCommit()) } as unknown as SourceProvider;
+    const commit = await ingestCommit(provider, "owner", "repo", "ddddddd", {
+      path: "src",
+      maxOutputBytes: 10_000,
+      maxFileCount: 100,
+    });
+    expect(commit.files.map((f) => f.path)).toEqual(["src/count.ts"]);
+    expect(commit.truncated).toBe(false);
+  });
+
+  it("throws ParseError for providers without commit support", async () => {
+    const provider = { host: "gitlab.com" } as unknown as SourceProvider;
+    await expect(
+      ingestCommit(provider, "owner", "repo", "ddddddd", { maxOutputBytes: 10_000, maxFileCount: 100 })
+    ).rejects.toThrow(ParseError);
+  });
+});
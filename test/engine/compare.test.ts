@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { ingestCompare } from "../../src/engine/compare";
+import { ParseError, RepoNotFoundError, type CompareResult } from "../../src/types";
+import type { SourceProvider } from "../../src/engine/providers";
+
+function makeComparison(): CompareResult {
+  return {
+    owner: "owner",
+    repo: "repo",
+    base: "v1",
+    head: "v2",
+    url: "https://github.com/owner/repo/compare/v1...v2",
+    status: "ahead",
+    aheadBy: 3,
+    behindBy: 0,
+    totalCommits: 3,
+    commits: [
+      { sha: "aaaaaaa", author: "Ada", date: "2024-03-01", message: "One" },
+      { sha: "bbbbbbb", author: "Ada", date: "2024-03-02", message: "Two" },
+      { sha: "ccccccc", author: "Ada", date: "2024-03-03", message: "Three" },
+    ],
+    files: [
+      { path: "src/a.ts", status: "modified", additions: 2, deletions: 1, patch: "@@ a @@" },
+      { path: "src/b.test.ts", status: "added", additions: 5, deletions: 0, patch: "@@ b @@" },
+      { path: "lib/moved.ts", previousPath: "src/moved.ts", status: "renamed", additions: 0, deletions: 0 },
+      { path: "src/node_modules/x/index.js", status: "added", additions: 1, deletions: 0, patch: "@@ x @@" },
+      { path: "docs/guide.md", status: "modified", additions: 1, deletions: 1, patch: "@@ guide @@" },
+    ],
+    truncated: false,
+  };
+}
+
+/** Rule files present at head, keyed by repository path; anything else is a 404 */
+function makeProvider(comparison = makeComparison(), ruleFiles: Record<string, string> = {}): SourceProvider {
+  return {
+    host: "github.com",
+    compareRefs: vi.fn().mockResolvedValue(comparison),
+    fetchFile: vi.fn().mockImplementation(async (_o: string, _r: string, _ref: string, path: string) => {
+      if (!(path in ruleFiles)) throw new RepoNotFoundError(`File ${path} not found.`);
+      return new TextEncoder().encode(ruleFiles[path]);
+    }),
+  } as unknown as SourceProvider;
+}
+
+const limits = { maxOutputBytes: 10_000, maxFileCount: 100 };
+
+describe("ingestCompare", () => {
+  it("drops files on the default ignore list", async () => {
+    const result = await ingestCompare(makeProvider(), "owner", "repo", "v1", "v2", limits);
+    expect(result.files.map((f) => f.path)).toEqual(["src/a.ts", "src/b.test.ts", "lib/moved.ts", "docs/guide.md"]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("scopes files to path, keeping renames out of it", async () => {
+    const result = await ingestCompare(makeProvider(), "owner", "repo", "v1", "v2", { ...limits, path: "src/" });
+    expect(result.files.map((f) => f.path)).toEqual(["src/a.ts", "src/b.test.ts", "lib/moved.ts"]);
+  });
+
+  it("applies include/exclude globs", async () => {
+    const result = await ingestCompare(makeProvider(), "owner", "repo", "v1", "v2", {
+      ...limits,
+      include: ["src/**"],
+      exclude: ["**/*.test.ts"],
+    });
+    expect(result.files.map((f) => f.path)).toEqual(["src/a.ts"]);
+  });
+
+  it("drops diffs past the output limit and notes commits the forge did not list", async () => {
+    const comparison = { ...makeComparison(), totalCommits: 300 };
+    const result = await ingestCompare(makeProvider(comparison), "owner", "repo", "v1", "v2", {
+      ...limits,
+      maxOutputBytes: 8,
+    });
+    expect(result.files.map((f) => f.patch)).toEqual(["@@ a @@", undefined, undefined, undefined]);
+    expect(result.truncated).toBe(true);
+    expect(result.truncationMessage).toContain("297 commits, diff of src/b.test.ts");
+  });
+
+  it("applies the repository's .gitignore, .gitattributes, and .gitprismignore at head", async () => {
+    const ruleFiles = {
+      ".gitattributes": "docs/** linguist-documentation\n",
+      ".gitprismignore": "**/*.test.ts\n",
+      "lib/.gitignore": "moved.ts\n",
+    };
+    const provider = makeProvider(makeComparison(), ruleFiles);
+    const result = await ingestCompare(provider, "owner", "repo", "v1", "v2", limits);
+    expect(result.files.map((f) => f.path)).toEqual(["src/a.ts"]);
+    expect(provider.fetchFile).toHaveBeenCalledWith("owner", "repo", "v2", ".gitignore", undefined);
+    expect(provider.fetchFile).toHaveBeenCalledWith("owner", "repo", "v2", "lib/.gitignore", undefined);
+
+    const generated = await ingestCompare(makeProvider(makeComparison(), ruleFiles), "owner", "repo", "v1", "v2", { ...limits, includeGenerated: true });
+    expect(generated.files.map((f) => f.path)).toContain("docs/guide.md");
+  });
+
+  it("fails when a rule file cannot be read for a reason other than a 404", async () => {
+    const provider = makeProvider();
+    (provider.fetchFile as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error("rate limited"));
+    await expect(ingestCompare(provider, "owner", "repo", "v1", "v2", limits)).rejects.toThrow("rate limited");
+  });
+
+  it("reports a file listing the forge capped", async () => {
+    const comparison = { ...makeComparison(), truncated: true };
+    const result = await ingestCompare(makeProvider(comparison), "owner", "repo", "v1", "v2", limits);
+    expect(result.truncated).toBe(true);
+    expect(result.truncationMessage).toContain("listed the first 5 changed files");
+  });
+
+  it("throws ParseError for providers without compare support", async () => {
+    const provider = { host: "bitbucket.org" } as unknown as SourceProvider;
+    await expect(ingestCompare(provider, "owner", "repo", "v1", "v2", limits)).rejects.toThrow(ParseError);
+  });
+});
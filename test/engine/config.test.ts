@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseRepoConfig } from "../../src/engine/config";
+
+describe("parseRepoConfig", () => {
+  it("parses every supported key", () => {
+    const config = parseRepoConfig(
+      [
+        "# GitPrism settings",
+        "description: Edge-native repo ingestion",
+        "ignore:",
+        "  - \"**/*.snap\"",
+        "  - fixtures/**",
+        "include:",
+        "  - src/**",
+        "priority:",
+        "  - README.md",
+        "  - src/index.ts",
+        "max_file_size: 100000",
+      ].join("\n")
+    );
+    expect(config).toEqual({
+      description: "Edge-native repo ingestion",
+      ignore: ["**/*.snap", "fixtures/**"],
+      include: ["src/**"],
+      priority: ["README.md", "src/index.ts"],
+      maxFileSize: 100000,
+    });
+  });
+
+  it("parses inline lists", () => {
+    const config = parseRepoConfig("ignore: [docs/**, 'examples/**']\n");
+    expect(config.ignore).toEqual(["docs/**", "examples/**"]);
+  });
+
+  it("parses size suffixes", () => {
+    expect(parseRepoConfig("max_file_size: 64KB\n").maxFileSize).toBe(64 * 1024);
+    expect(parseRepoConfig("max-file-size: 1.5 MB\n").maxFileSize).toBe(1.5 * 1024 * 1024);
+  });
+
+  it("parses block scalar descriptions", () => {
+    const literal = parseRepoConfig("description: |\n  Line one\n  Line two\nignore: [a]\n");
+    expect(literal.description).toBe("Line one\nLine two");
+    expect(literal.ignore).toEqual(["a"]);
+
+    const folded = parseRepoConfig("description: >\n  Folded\n  text\n");
+    expect(folded.description).toBe("Folded text");
+  });
+
+  it("strips trailing comments outside quotes", () => {
+    const config = parseRepoConfig("description: \"Uses # in name\" # comment\n");
+    expect(config.description).toBe("Uses # in name");
+  });
+
+  it("skips unknown keys and malformed values", () => {
+    const config = parseRepoConfig("theme: dark\nmax_file_size: huge\nnot yaml at all\n");
+    expect(config).toEqual({});
+  });
+});
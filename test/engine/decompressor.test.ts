@@ -1,7 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { zipSync, strToU8 } from "fflate";
-import { decompressAndProcess } from "../../src/engine/decompressor";
+import { decompressStream } from "../../src/engine/decompressor";
 import type { DecompressOptions } from "../../src/engine/decompressor";
+import { DecompressionError, UnsafeArchiveError } from "../../src/types";
 
 /**
  * Creates a test zip buffer that mimics GitHub's zipball format.
@@ -24,74 +25,113 @@ const defaultOptions: DecompressOptions = {
   maxFileCount: 5000,
 };
 
-describe("decompressAndProcess – basic extraction", () => {
-  it("extracts text files and strips prefix", () => {
+/** Wraps bytes in a stream delivered in small chunks, like a network body */
+function toStream(data: Uint8Array, chunkSize = 7): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+/** Runs a whole archive through decompressStream in network-sized chunks */
+function decompress(zip: Uint8Array, options: DecompressOptions) {
+  return decompressStream(toStream(zip, 4096), options);
+}
+
+describe("decompressStream – basic extraction", () => {
+  it("extracts text files and strips prefix", async () => {
     const zip = makeZip({
       "src/index.ts": "const x = 1;",
       "README.md": "# Hello",
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.fileCount).toBe(2);
     const paths = result.files.map((f) => f.path);
     expect(paths).toContain("src/index.ts");
     expect(paths).toContain("README.md");
   });
 
-  it("strips GitHub top-level prefix directory", () => {
+  it("strips GitHub top-level prefix directory", async () => {
     const zip = makeZip({ "main.py": "print('hello')" }, "cloudflare-workers-sdk-deadbeef/");
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.files[0].path).toBe("main.py");
   });
 
-  it("includes file content when detail=full", () => {
+  it("includes file content when detail=full", async () => {
     const zip = makeZip({ "src/app.ts": "export const app = 1;" });
-    const result = decompressAndProcess(zip, { ...defaultOptions, detail: "full" });
+    const result = await decompress(zip, { ...defaultOptions, detail: "full" });
     expect(result.files[0].content).toBe("export const app = 1;");
   });
 
-  it("excludes file content when detail=summary", () => {
+  it("excludes file content when detail=summary", async () => {
     const zip = makeZip({ "src/app.ts": "export const app = 1;" });
-    const result = decompressAndProcess(zip, { ...defaultOptions, detail: "summary" });
+    const result = await decompress(zip, { ...defaultOptions, detail: "summary" });
     expect(result.files[0].content).toBeUndefined();
   });
 
-  it("counts lines correctly", () => {
+  it("counts lines correctly", async () => {
     const zip = makeZip({ "src/app.ts": "line1\nline2\nline3" });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.files[0].lines).toBe(3);
   });
 
-  it("computes totalSize correctly", () => {
+  it("estimates tokens per file and in total", async () => {
+    const zip = makeZip({
+      "a.ts": "one two six",
+      "b.ts": "four",
+    });
+    const result = await decompress(zip, { ...defaultOptions, detail: "summary" });
+    const byPath = Object.fromEntries(result.files.map((f) => [f.path, f.tokens]));
+    expect(byPath["a.ts"]).toBe(3);
+    expect(byPath["b.ts"]).toBe(1);
+    expect(result.totalTokens).toBe(4);
+  });
+
+  it("leaves tokens out of structure-only results", async () => {
+    const zip = makeZip({ "a.ts": "one two six" });
+    const result = await decompress(zip, { ...defaultOptions, detail: "structure" });
+    expect(result.files[0].tokens).toBeUndefined();
+    expect(result.totalTokens).toBeUndefined();
+  });
+
+  it("computes totalSize correctly", async () => {
     const zip = makeZip({
       "a.ts": "abc",   // 3 bytes
       "b.ts": "abcde", // 5 bytes
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.totalSize).toBe(8);
   });
 });
 
-describe("decompressAndProcess – filtering", () => {
-  it("skips node_modules files", () => {
+describe("decompressStream – filtering", () => {
+  it("skips node_modules files", async () => {
     const zip = makeZip({
       "src/index.ts": "code",
       "node_modules/lodash/index.js": "lodash",
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.fileCount).toBe(1);
     expect(result.files[0].path).toBe("src/index.ts");
   });
 
-  it("skips package-lock.json", () => {
+  it("skips package-lock.json", async () => {
     const zip = makeZip({
       "src/index.ts": "code",
       "package-lock.json": '{"lockfileVersion": 2}',
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.fileCount).toBe(1);
   });
 
-  it("skips binary files detected by null bytes", () => {
+  it("skips binary files detected by null bytes", async () => {
     const entries: Record<string, Uint8Array> = {
       "owner-repo-abc/src/index.ts": strToU8("code"),
     };
@@ -100,74 +140,215 @@ describe("decompressAndProcess – filtering", () => {
     binaryData[10] = 0;
     entries["owner-repo-abc/image.data"] = binaryData;
     const zip = zipSync(entries);
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.files.every((f) => f.path !== "image.data")).toBe(true);
   });
 
-  it("skips binary extension files", () => {
+  it("skips binary extension files", async () => {
     const zip = makeZip({
       "src/index.ts": "code",
       "assets/logo.png": "fake png data",
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.files.every((f) => !f.path.endsWith(".png"))).toBe(true);
   });
 
-  it("applies root .gitignore patterns", () => {
+  it("applies root .gitignore patterns", async () => {
     const zip = makeZip({
       ".gitignore": "*.log\ndebug/\n",
       "src/index.ts": "code",
       "error.log": "some error",
       "debug/trace.txt": "debug data",
     });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     const paths = result.files.map((f) => f.path);
     expect(paths).not.toContain("error.log");
     expect(paths).not.toContain("debug/trace.txt");
     expect(paths).toContain("src/index.ts");
   });
+
+  it("applies nested .gitignore files scoped to their directory", async () => {
+    const zip = makeZip({
+      ".gitignore": "*.log\n",
+      "packages/app/.gitignore": "/out\n!keep.log\n",
+      "packages/app/out/bundle.js": "bundle",
+      "packages/app/src/index.ts": "code",
+      "packages/app/keep.log": "kept",
+      "out/notes.txt": "notes",
+      "root.log": "dropped",
+    });
+    const result = await decompress(zip, defaultOptions);
+    const paths = result.files.map((f) => f.path);
+    expect(paths).not.toContain("packages/app/out/bundle.js");
+    expect(paths).not.toContain("root.log");
+    expect(paths).toContain("packages/app/src/index.ts");
+    expect(paths).toContain("packages/app/keep.log");
+    expect(paths).toContain("out/notes.txt");
+  });
+});
+
+describe("decompressStream – .gitattributes", () => {
+  const zip = makeZip({
+    ".gitattributes": "api/client/** linguist-generated\nthird_party/** linguist-vendored\n",
+    "api/client/models.ts": "generated",
+    "third_party/lib.c": "vendored",
+    "src/index.ts": "code",
+  });
+
+  it("drops generated and vendored paths by default", async () => {
+    const result = await decompress(zip, defaultOptions);
+    const paths = result.files.map((f) => f.path);
+    expect(paths).not.toContain("api/client/models.ts");
+    expect(paths).not.toContain("third_party/lib.c");
+    expect(paths).toContain("src/index.ts");
+  });
+
+  it("keeps them when includeGenerated is set", async () => {
+    const result = await decompress(zip, { ...defaultOptions, includeGenerated: true });
+    const paths = result.files.map((f) => f.path);
+    expect(paths).toContain("api/client/models.ts");
+    expect(paths).toContain("third_party/lib.c");
+  });
+});
+
+describe("decompressStream – repository config", () => {
+  it("applies .gitprism.yml ignore, priority, size cap, and description", async () => {
+    const zip = makeZip({
+      ".gitprism.yml": [
+        "description: Demo project",
+        "ignore:",
+        "  - fixtures/**",
+        "priority:",
+        "  - README.md",
+        "max_file_size: 100",
+      ].join("\n"),
+      "src/index.ts": "code",
+      "fixtures/data.json": "{}",
+      "big.txt": "x".repeat(500),
+      "README.md": "# Demo",
+    });
+    const result = await decompress(zip, defaultOptions);
+    const paths = result.files.map((f) => f.path);
+    expect(paths[0]).toBe("README.md");
+    expect(paths).not.toContain("fixtures/data.json");
+    expect(paths).not.toContain("big.txt");
+    expect(paths).toContain("src/index.ts");
+    expect(result.description).toBe("Demo project");
+    expect(result.configFiles).toEqual([".gitprism.yml"]);
+  });
+
+  it("uses config include globs only when the request sets none", async () => {
+    const zip = makeZip({
+      ".gitprism.yml": "include: [src/**]\n",
+      "src/index.ts": "code",
+      "lib/util.ts": "util",
+    });
+    const fromConfig = await decompress(zip, defaultOptions);
+    expect(fromConfig.files.map((f) => f.path)).toEqual(["src/index.ts"]);
+
+    const fromRequest = await decompress(zip, { ...defaultOptions, include: ["lib/**"] });
+    expect(fromRequest.files.map((f) => f.path)).toEqual(["lib/util.ts"]);
+  });
+
+  it("applies .gitprismignore with gitignore syntax", async () => {
+    const zip = makeZip({
+      ".gitprismignore": "*.snap\n!keep.snap\n",
+      "a.snap": "snapshot",
+      "keep.snap": "snapshot",
+      "src/index.ts": "code",
+    });
+    const result = await decompress(zip, defaultOptions);
+    const paths = result.files.map((f) => f.path);
+    expect(paths).not.toContain("a.snap");
+    expect(paths).toContain("keep.snap");
+    expect(result.configFiles).toEqual([".gitprismignore"]);
+  });
+
+  it("leaves configFiles undefined without a config", async () => {
+    const result = await decompress(makeZip({ "a.ts": "a" }), defaultOptions);
+    expect(result.configFiles).toBeUndefined();
+    expect(result.description).toBeUndefined();
+  });
 });
 
-describe("decompressAndProcess – subpath filtering", () => {
-  it("includes only files under the subpath", () => {
+describe("decompressStream – subpath filtering", () => {
+  it("includes only files under the subpath", async () => {
     const zip = makeZip({
       "src/index.ts": "code",
       "src/utils/helper.ts": "helper",
       "README.md": "readme",
     });
-    const result = decompressAndProcess(zip, { ...defaultOptions, subpath: "src" });
+    const result = await decompress(zip, { ...defaultOptions, subpath: "src" });
     expect(result.fileCount).toBe(2);
     const paths = result.files.map((f) => f.path);
     expect(paths).not.toContain("README.md");
   });
 
-  it("strips subpath prefix from file paths", () => {
+  it("strips subpath prefix from file paths", async () => {
     const zip = makeZip({ "src/utils/helper.ts": "code" });
-    const result = decompressAndProcess(zip, { ...defaultOptions, subpath: "src" });
+    const result = await decompress(zip, { ...defaultOptions, subpath: "src" });
     expect(result.files[0].path).toBe("utils/helper.ts");
   });
 });
 
-describe("decompressAndProcess – truncation", () => {
-  it("truncates when maxFileCount is exceeded", () => {
+describe("decompressStream – include/exclude globs", () => {
+  const zip = makeZip({
+    "src/index.ts": "code",
+    "src/index.test.ts": "test",
+    "src/styles.css": "css",
+    "fixtures/data.json": "{}",
+    "README.md": "readme",
+  });
+
+  it("keeps only files matching include globs", async () => {
+    const result = await decompress(zip, { ...defaultOptions, include: ["src/**/*.ts"] });
+    const paths = result.files.map((f) => f.path).sort();
+    expect(paths).toEqual(["src/index.test.ts", "src/index.ts"]);
+  });
+
+  it("drops files matching exclude globs", async () => {
+    const result = await decompress(zip, {
+      ...defaultOptions,
+      exclude: ["**/*.test.ts", "fixtures/**"],
+    });
+    const paths = result.files.map((f) => f.path);
+    expect(paths).not.toContain("src/index.test.ts");
+    expect(paths).not.toContain("fixtures/data.json");
+    expect(paths).toContain("src/index.ts");
+    expect(paths).toContain("README.md");
+  });
+
+  it("matches globs against repository-root paths when a subpath is set", async () => {
+    const result = await decompress(zip, {
+      ...defaultOptions,
+      subpath: "src",
+      exclude: ["src/**/*.test.ts"],
+    });
+    const paths = result.files.map((f) => f.path).sort();
+    expect(paths).toEqual(["index.ts", "styles.css"]);
+  });
+});
+
+describe("decompressStream – truncation", () => {
+  it("truncates when maxFileCount is exceeded", async () => {
     const files: Record<string, string> = {};
     for (let i = 0; i < 10; i++) {
       files[`file${i}.ts`] = `const x = ${i};`;
     }
     const zip = makeZip(files);
-    const result = decompressAndProcess(zip, { ...defaultOptions, maxFileCount: 3 });
+    const result = await decompress(zip, { ...defaultOptions, maxFileCount: 3 });
     expect(result.truncated).toBe(true);
     expect(result.fileCount).toBe(3);
     expect(result.truncationMessage).toContain("[TRUNCATED]");
   });
 
-  it("truncates when maxOutputBytes is exceeded", () => {
+  it("truncates when maxOutputBytes is exceeded", async () => {
     const zip = makeZip({
       "a.ts": "a".repeat(1000),
       "b.ts": "b".repeat(1000),
       "c.ts": "c".repeat(1000),
     });
-    const result = decompressAndProcess(zip, {
+    const result = await decompress(zip, {
       ...defaultOptions,
       detail: "full",
       maxOutputBytes: 1500,
@@ -176,10 +357,225 @@ describe("decompressAndProcess – truncation", () => {
     expect(result.truncationMessage).toContain("[TRUNCATED]");
   });
 
-  it("is not truncated when within limits", () => {
+  it("truncates at the token budget instead of maxOutputBytes when maxTokens is set", async () => {
+    const zip = makeZip({
+      "a.ts": "word ".repeat(100),
+      "b.ts": "word ".repeat(100),
+      "c.ts": "word ".repeat(100),
+    });
+    const result = await decompress(zip, {
+      ...defaultOptions,
+      detail: "full",
+      maxOutputBytes: 100,
+      maxTokens: 250,
+    });
+    expect(result.fileCount).toBe(2);
+    expect(result.totalTokens).toBe(200);
+    expect(result.truncated).toBe(true);
+    expect(result.truncationMessage).toContain("Token budget of 250 reached");
+  });
+
+  it("keeps high-value files ahead of tests and fixtures when truncating", async () => {
+    const zip = makeZip({
+      "test/a.test.ts": "test",
+      "test/fixtures/big.json": "{}",
+      "src/util.ts": "util",
+      "package.json": "{}",
+      "README.md": "# readme",
+    });
+    const result = await decompress(zip, { ...defaultOptions, maxFileCount: 3 });
+    expect(result.files.map((f) => f.path)).toEqual(["README.md", "package.json", "src/util.ts"]);
+  });
+
+  it("lists dropped high-value files in the truncation notice", async () => {
+    const zip = makeZip({
+      "README.md": "r".repeat(100),
+      "package.json": "p".repeat(1000),
+      "src/index.ts": "i".repeat(1000),
+    });
+    const result = await decompress(zip, { ...defaultOptions, maxOutputBytes: 500 });
+    expect(result.files.map((f) => f.path)).toEqual(["README.md"]);
+    expect(result.truncationMessage).toContain("1 of 3 files included");
+    expect(result.truncationMessage).toContain("Dropped high-value files: package.json, src/index.ts.");
+  });
+
+  it("honours order=path and order=size", async () => {
+    const zip = makeZip({
+      "b.ts": "bb",
+      "README.md": "rrr",
+      "a.ts": "a",
+    });
+    const byPath = await decompress(zip, { ...defaultOptions, order: "path" });
+    expect(byPath.files.map((f) => f.path)).toEqual(["README.md", "a.ts", "b.ts"]);
+    const bySize = await decompress(zip, { ...defaultOptions, order: "size" });
+    expect(bySize.files.map((f) => f.path)).toEqual(["a.ts", "b.ts", "README.md"]);
+  });
+
+  it("returns the offset of the next page when truncated", async () => {
+    const zip = makeZip({ "a.ts": "a", "b.ts": "b", "c.ts": "c" });
+    const first = await decompress(zip, { ...defaultOptions, order: "path", maxFileCount: 2 });
+    expect(first.files.map((f) => f.path)).toEqual(["a.ts", "b.ts"]);
+    expect(first.nextOffset).toBe(2);
+
+    const second = await decompress(zip, { ...defaultOptions, order: "path", maxFileCount: 2, offset: 2 });
+    expect(second.files.map((f) => f.path)).toEqual(["c.ts"]);
+    expect(second.truncated).toBe(false);
+    expect(second.nextOffset).toBeUndefined();
+  });
+
+  it("jumps to the requested page", async () => {
+    const zip = makeZip({ "a.ts": "a", "b.ts": "b", "c.ts": "c", "d.ts": "d", "e.ts": "e" });
+    const result = await decompress(zip, { ...defaultOptions, order: "path", maxFileCount: 2, page: 2 });
+    expect(result.files.map((f) => f.path)).toEqual(["c.ts", "d.ts"]);
+    expect(result.nextOffset).toBe(4);
+    expect(result.truncationMessage).toContain("Files 3-4 of 5 included.");
+  });
+
+  it("skips a file larger than a whole page so pagination makes progress", async () => {
+    const zip = makeZip({ "a.ts": "a".repeat(1000), "b.ts": "b" });
+    const result = await decompress(zip, { ...defaultOptions, order: "path", maxOutputBytes: 500 });
+    expect(result.files.map((f) => f.path)).toEqual(["b.ts"]);
+    expect(result.truncated).toBe(true);
+    expect(result.nextOffset).toBeUndefined();
+    expect(result.truncationMessage).toContain("[SKIPPED] Larger than the output limit: a.ts");
+  });
+
+  it("is not truncated when within limits", async () => {
     const zip = makeZip({ "src/index.ts": "code" });
-    const result = decompressAndProcess(zip, defaultOptions);
+    const result = await decompress(zip, defaultOptions);
     expect(result.truncated).toBe(false);
     expect(result.truncationMessage).toBeUndefined();
   });
 });
+
+describe("decompressStream", () => {
+  it("gives the same result whatever the chunk size", async () => {
+    const zip = makeZip({
+      "README.md": "# readme",
+      ".gitignore": "*.log\n",
+      "src/index.ts": "export {};\n".repeat(2000),
+      "src/debug.log": "noise",
+      "node_modules/pkg/index.js": "ignored",
+    });
+    const streamed = await decompressStream(toStream(zip), defaultOptions);
+    expect(streamed).toEqual(await decompress(zip, defaultOptions));
+    expect(streamed.files.map((f) => f.path).sort()).toEqual([".gitignore", "README.md", "src/index.ts"]);
+  });
+
+  it("applies the subpath and drops binary files", async () => {
+    const entries: Record<string, Uint8Array> = {
+      "owner-repo-abc123/.gitignore": strToU8("*.tmp\n"),
+      "owner-repo-abc123/src/app.ts": strToU8("app"),
+      "owner-repo-abc123/src/cache.tmp": strToU8("tmp"),
+      "owner-repo-abc123/src/blob.dat": new Uint8Array([0x41, 0x00, 0x42]),
+      "owner-repo-abc123/docs/guide.md": strToU8("guide"),
+    };
+    const result = await decompressStream(toStream(zipSync(entries)), { ...defaultOptions, subpath: "src" });
+    expect(result.files.map((f) => f.path)).toEqual(["app.ts"]);
+  });
+
+  it("strips Bitbucket's workspace-repo-sha/ wrapper", async () => {
+    const zip = makeZip(
+      { "README.md": "# widgets", "lib/widget.ts": "export {};", "lib/nested/util.ts": "util" },
+      "acme-widgets-0123456789ab/"
+    );
+    const result = await decompressStream(toStream(zip), { ...defaultOptions, subpath: "lib" });
+    expect(result.files.map((f) => f.path).sort()).toEqual(["nested/util.ts", "widget.ts"]);
+  });
+
+  it("throws DecompressionError for an empty body", async () => {
+    await expect(decompressStream(toStream(new Uint8Array(0)), defaultOptions)).rejects.toThrow(
+      "Empty zip data received"
+    );
+  });
+
+  it("throws DecompressionError for data that is not a zip", async () => {
+    await expect(decompressStream(toStream(strToU8("<html>not a zip</html>")), defaultOptions)).rejects.toThrow(
+      DecompressionError
+    );
+  });
+
+  it("throws DecompressionError for a truncated archive", async () => {
+    const zip = makeZip({ "src/index.ts": "x".repeat(5000) });
+    await expect(decompressStream(toStream(zip.slice(0, 60)), defaultOptions)).rejects.toThrow(DecompressionError);
+  });
+});
+
+describe("decompressStream – pre-inflate filtering", () => {
+  /** Builds a zip whose packages/bar/big.txt entry fails to inflate */
+  function makeZipWithCorruptEntry(files: Record<string, string>): Uint8Array {
+    const zip = makeZip({ ...files, "packages/bar/big.txt": "bar ".repeat(5000) });
+    const name = strToU8("owner-repo-abc123/packages/bar/big.txt");
+    let header = -1;
+    for (let i = 0; i < zip.length && header === -1; i++) {
+      if (name.every((byte, j) => zip[i + j] === byte)) header = i - 30;
+    }
+    const nameLength = zip[header + 26] | (zip[header + 27] << 8);
+    const extraLength = zip[header + 28] | (zip[header + 29] << 8);
+    const dataStart = header + 30 + nameLength + extraLength;
+    zip[dataStart] = 0xff; // invalid deflate block type
+    return zip;
+  }
+
+  it("fails when the corrupt entry has to be inflated", async () => {
+    const zip = makeZipWithCorruptEntry({ "packages/foo/index.ts": "foo" });
+    await expect(decompress(zip, defaultOptions)).rejects.toThrow(DecompressionError);
+  });
+
+  it("never inflates entries outside the subpath", async () => {
+    const zip = makeZipWithCorruptEntry({ "packages/foo/index.ts": "foo" });
+    const result = await decompress(zip, { ...defaultOptions, subpath: "packages/foo" });
+    expect(result.files.map((f) => f.path)).toEqual(["index.ts"]);
+  });
+
+  it("never inflates entries dropped by excludes or .gitignore", async () => {
+    const zip = makeZipWithCorruptEntry({ "packages/foo/index.ts": "foo", ".gitignore": "packages/bar/\n" });
+    expect((await decompress(zip, defaultOptions)).files.map((f) => f.path)).toContain("packages/foo/index.ts");
+
+    const excluded = makeZipWithCorruptEntry({ "packages/foo/index.ts": "foo" });
+    const result = await decompress(excluded, { ...defaultOptions, exclude: ["packages/bar/**"] });
+    expect(result.files.map((f) => f.path)).toEqual(["packages/foo/index.ts"]);
+  });
+
+  it("never inflates entries dropped by .gitprismignore or the config size cap", async () => {
+    const ignored = makeZipWithCorruptEntry({ ".gitprismignore": "packages/bar/\n", "packages/foo/index.ts": "foo" });
+    expect((await decompress(ignored, defaultOptions)).files.map((f) => f.path)).toContain("packages/foo/index.ts");
+
+    const capped = makeZipWithCorruptEntry({ ".gitprism.yml": "max_file_size: 1000\n", "packages/foo/index.ts": "foo" });
+    expect((await decompress(capped, defaultOptions)).files.map((f) => f.path)).toContain("packages/foo/index.ts");
+  });
+});
+
+describe("archive limits", () => {
+  const bomb = zipSync({ "owner-repo-abc123/zeros.txt": new Uint8Array(4 * 1024 * 1024).fill(0x30) });
+
+  it("rejects a high-ratio entry before inflating it", async () => {
+    await expect(decompress(bomb, defaultOptions)).rejects.toThrow(UnsafeArchiveError);
+  });
+
+  it("rejects a high-ratio entry when streaming", async () => {
+    await expect(decompressStream(toStream(bomb, 64 * 1024), defaultOptions)).rejects.toThrow(UnsafeArchiveError);
+  });
+
+  it("caps the total inflated by small entries when streaming", async () => {
+    const entries: Record<string, Uint8Array> = {};
+    for (let i = 0; i < 4; i++) entries[`owner-repo-abc123/zeros-${i}.txt`] = new Uint8Array(900 * 1024).fill(0x30);
+    const smallBombs = zipSync(entries);
+    await expect(decompress(smallBombs, defaultOptions)).rejects.toThrow(/suspicious compression ratio/);
+  });
+
+  it("rejects path traversal and absolute entry names", async () => {
+    const traversal = makeZip({ "../../etc/cron.d/evil": "x" });
+    await expect(decompress(traversal, defaultOptions)).rejects.toThrow(/unsafe entry name/);
+    const absolute = zipSync({ "/etc/passwd": strToU8("root") });
+    await expect(decompressStream(toStream(absolute), defaultOptions)).rejects.toThrow(/unsafe entry name/);
+  });
+
+  it("enforces configured entry and size limits", async () => {
+    const zip = makeZip({ "a.ts": "a".repeat(600), "b.ts": "b".repeat(600), "c.ts": "c" });
+    const limits = { maxUncompressedBytes: 1000, maxCompressionRatio: 200, maxEntries: 100 };
+    await expect(decompress(zip, { ...defaultOptions, limits })).rejects.toThrow(/expands to more than/);
+    const fewEntries = { ...limits, maxUncompressedBytes: 1e6, maxEntries: 2 };
+    await expect(decompress(zip, { ...defaultOptions, limits: fewEntries })).rejects.toThrow(/more than 2 entries/);
+  });
+});
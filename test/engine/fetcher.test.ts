@@ -1,6 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { resolveDefaultRef, checkZipSize, fetchZipball, resolveRefToSha } from "../../src/engine/fetcher";
-import { RepoNotFoundError, ZipTooLargeError, GitHubApiError } from "../../src/types";
+import {
+  resolveDefaultRef,
+  checkZipSize,
+  fetchZipballStream,
+  fetchFileContent,
+  fetchPullRequest,
+  fetchComparison,
+  fetchCommit,
+  fetchRelease,
+  resolveRefToSha,
+  fetchMatchingRefs,
+} from "../../src/engine/fetcher";
+import { RepoNotFoundError, ZipTooLargeError, FileTooLargeError, GitHubApiError } from "../../src/types";
 import type { Env } from "../../src/types";
 
 const makeEnv = (token?: string): Env =>
@@ -112,7 +123,7 @@ describe("checkZipSize", () => {
   });
 });
 
-describe("fetchZipball", () => {
+describe("fetchZipballStream", () => {
   beforeEach(() => {
     vi.stubGlobal("fetch", vi.fn());
   });
@@ -120,47 +131,279 @@ describe("fetchZipball", () => {
     vi.unstubAllGlobals();
   });
 
-  it("returns zip data and rate limit headers", async () => {
+  it("returns the unread body and rate limit headers", async () => {
     const data = new Uint8Array([1, 2, 3, 4]);
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
       new Response(data.buffer, {
         status: 200,
-        headers: {
-          "X-RateLimit-Remaining": "4999",
-          "X-RateLimit-Reset": "1700000000",
-        },
+        headers: { "X-RateLimit-Remaining": "4999" },
       })
     );
-    const result = await fetchZipball("owner", "repo", "main", makeEnv());
+    const result = await fetchZipballStream("owner", "repo", "main", makeEnv());
     expect(result.rateLimitRemaining).toBe("4999");
-    expect(result.rateLimitReset).toBe("1700000000");
-    expect(result.data).toBeInstanceOf(Uint8Array);
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(data);
+  });
+
+  it("throws RepoNotFoundError on 404", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response("Not Found", { status: 404 })
+    );
+    await expect(fetchZipballStream("owner", "repo", "main", makeEnv())).rejects.toThrow(
+      RepoNotFoundError
+    );
   });
 
   it("includes User-Agent header", async () => {
-    const data = new Uint8Array([1, 2, 3]);
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
-      new Response(data.buffer, { status: 200 })
+      new Response(new Uint8Array([1, 2, 3]).buffer, { status: 200 })
     );
-    await fetchZipball("owner", "repo", "main", makeEnv());
+    await fetchZipballStream("owner", "repo", "main", makeEnv());
     const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
     expect((options.headers as Record<string, string>)["User-Agent"]).toBe("GitPrism/1.0");
   });
 
-  it("throws RepoNotFoundError on 404", async () => {
+  it("throws GitHubApiError on 500", async () => {
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
-      new Response("Not Found", { status: 404 })
+      new Response("Error", { status: 500 })
     );
-    await expect(fetchZipball("owner", "repo", "main", makeEnv())).rejects.toThrow(
-      RepoNotFoundError
+    await expect(fetchZipballStream("owner", "repo", "main", makeEnv())).rejects.toThrow(GitHubApiError);
+  });
+});
+
+describe("fetchFileContent", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("requests the raw file through the contents API", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("hello\n", { status: 200 }));
+    const data = await fetchFileContent("owner", "repo", "main", "docs/read me.md", makeEnv());
+    expect(new TextDecoder().decode(data)).toBe("hello\n");
+    const [url, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.github.com/repos/owner/repo/contents/docs/read%20me.md?ref=main");
+    expect((init.headers as Record<string, string>)["Accept"]).toBe("application/vnd.github.raw+json");
+  });
+
+  it("throws RepoNotFoundError naming the file on 404", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(fetchFileContent("owner", "repo", "main", "missing.ts", makeEnv())).rejects.toThrow(
+      "File missing.ts not found"
     );
   });
 
-  it("throws GitHubApiError on 500", async () => {
+  it("throws FileTooLargeError naming the file when it is over the size limit", async () => {
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
-      new Response("Error", { status: 500 })
+      new Response("x", { status: 200, headers: { "Content-Length": "60000000" } })
     );
-    await expect(fetchZipball("owner", "repo", "main", makeEnv())).rejects.toThrow(GitHubApiError);
+    const pending = fetchFileContent("owner", "repo", "main", "data/huge.csv", makeEnv());
+    await expect(pending).rejects.toThrow(FileTooLargeError);
+    await expect(pending).rejects.toThrow("File data/huge.csv exceeds");
+  });
+});
+
+describe("fetchPullRequest", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const pull = {
+    title: "Add widgets",
+    body: null,
+    state: "closed",
+    merged: true,
+    html_url: "https://github.com/owner/repo/pull/7",
+    user: { login: "ada" },
+    base: { ref: "main", sha: "a".repeat(40) },
+    head: { ref: "widgets", sha: "b".repeat(40), label: "fork:widgets" },
+    additions: 101,
+    deletions: 2,
+    changed_files: 101,
+  };
+  const file = (i: number) => ({ filename: `src/f${i}.ts`, status: "added", additions: 1, deletions: 0, patch: "@@ +1 @@" });
+
+  it("maps metadata and pages through the changed files", async () => {
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify(pull), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(Array.from({ length: 100 }, (_, i) => file(i))), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([file(100)]), { status: 200 }));
+
+    const pr = await fetchPullRequest("owner", "repo", 7, makeEnv());
+    expect(pr.state).toBe("merged");
+    expect(pr.body).toBe("");
+    expect(pr.headLabel).toBe("fork:widgets");
+    expect(pr.files).toHaveLength(101);
+    expect(pr.files[100]).toEqual({
+      path: "src/f100.ts", previousPath: undefined, status: "added", additions: 1, deletions: 0, patch: "@@ +1 @@",
+    });
+    const urls = (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) => call[0] as string);
+    expect(urls[2]).toBe("https://api.github.com/repos/owner/repo/pulls/7/files?per_page=100&page=2");
+  });
+
+  it("throws RepoNotFoundError for a missing pull request", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(fetchPullRequest("owner", "repo", 999, makeEnv())).rejects.toThrow(RepoNotFoundError);
+  });
+});
+
+describe("fetchComparison", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps commits and files from the compare endpoint", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          html_url: "https://github.com/owner/repo/compare/v1.0.0...main",
+          status: "ahead",
+          ahead_by: 1,
+          behind_by: 0,
+          total_commits: 1,
+          commits: [
+            { sha: "c".repeat(40), commit: { author: { name: "Ada", date: "2024-03-01T10:00:00Z" }, message: "Fix it\n\nLong body" } },
+          ],
+          files: [{ filename: "src/new.ts", previous_filename: "src/old.ts", status: "renamed", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" }],
+        }),
+        { status: 200 }
+      )
+    );
+
+    const comparison = await fetchComparison("owner", "repo", "v1.0.0", "main", makeEnv());
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.github.com/repos/owner/repo/compare/v1.0.0...main",
+      expect.anything()
+    );
+    expect(comparison.status).toBe("ahead");
+    expect(comparison.commits).toEqual([{ sha: "ccccccc", author: "Ada", date: "2024-03-01", message: "Fix it" }]);
+    expect(comparison.files[0]).toMatchObject({ path: "src/new.ts", previousPath: "src/old.ts", status: "renamed" });
+  });
+
+  it("throws RepoNotFoundError for an unknown ref", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(fetchComparison("owner", "repo", "nope", "main", makeEnv())).rejects.toThrow(RepoNotFoundError);
+  });
+
+  it("encodes refs and marks a listing at the 300-file cap truncated", async () => {
+    const files = Array.from({ length: 300 }, (_, i) => ({ filename: `f${i}.ts`, status: "added", additions: 1, deletions: 0 }));
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({ html_url: "", status: "ahead", ahead_by: 1, behind_by: 0, total_commits: 0, commits: [], files }),
+        { status: 200 }
+      )
+    );
+    const comparison = await fetchComparison("owner", "repo", "v1.0.0", "feature/a#b", makeEnv());
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.github.com/repos/owner/repo/compare/v1.0.0...feature%2Fa%23b",
+      expect.anything()
+    );
+    expect(comparison.truncated).toBe(true);
+  });
+});
+
+describe("fetchCommit", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the full message and parents", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          sha: "d".repeat(40),
+          html_url: `https://github.com/owner/repo/commit/${"d".repeat(40)}`,
+          commit: {
+            author: { name: "Ada", email: "ada@example.com", date: "2024-03-01T10:00:00Z" },
+            committer: { name: "GitHub", date: "2024-03-01T10:05:00Z" },
+            message: "Fix overflow\n\nThe counter wrapped at 2^31.",
+          },
+          author: { login: "ada" },
+          parents: [{ sha: "e".repeat(40) }],
+          stats: { additions: 1, deletions: 1 },
+          files: [{ filename: "src/count.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" }],
+        }),
+        { status: 200 }
+      )
+    );
+
+    const commit = await fetchCommit("owner", "repo", "ddddddd", makeEnv());
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.github.com/repos/owner/repo/commits/ddddddd?per_page=100&page=1",
+      expect.anything()
+    );
+    expect(commit.sha).toBe("d".repeat(40));
+    expect(commit.message).toBe("Fix overflow\n\nThe counter wrapped at 2^31.");
+    expect(commit.authorLogin).toBe("ada");
+    expect(commit.parents).toEqual(["e".repeat(40)]);
+    expect(commit.files).toHaveLength(1);
+  });
+
+  it("throws RepoNotFoundError for an unknown commit", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(fetchCommit("owner", "repo", "0000000", makeEnv())).rejects.toThrow(RepoNotFoundError);
+  });
+});
+
+describe("fetchRelease", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const release = {
+    tag_name: "v2.0.0",
+    name: null,
+    published_at: "2024-05-01T12:00:00Z",
+    body: "## Changes\n- New API",
+    html_url: "https://github.com/owner/repo/releases/tag/v2.0.0",
+    prerelease: false,
+    assets: [{ name: "app.tar.gz", size: 2048, download_count: 7, browser_download_url: "https://example.com/app.tar.gz" }],
+  };
+
+  it("fetches the latest release and falls back to the tag for its name", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response(JSON.stringify(release), { status: 200 }));
+    const info = await fetchRelease("owner", "repo", undefined, makeEnv());
+    expect(fetch).toHaveBeenCalledWith("https://api.github.com/repos/owner/repo/releases/latest", expect.anything());
+    expect(info.tag).toBe("v2.0.0");
+    expect(info.name).toBe("v2.0.0");
+    expect(info.assets).toEqual([{ name: "app.tar.gz", size: 2048, downloadCount: 7, url: "https://example.com/app.tar.gz" }]);
+  });
+
+  it("encodes the tag and throws RepoNotFoundError when it has no release", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(fetchRelease("owner", "repo", "pkg/v1", makeEnv())).rejects.toThrow(RepoNotFoundError);
+    expect(fetch).toHaveBeenCalledWith("https://api.github.com/repos/owner/repo/releases/tags/pkg%2Fv1", expect.anything());
+  });
+});
+
+describe("fetchMatchingRefs", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("encodes the prefix and strips the namespace from branches and tags", async () => {
+    (fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ ref: "refs/heads/fix#12" }]), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ ref: "refs/tags/fix#12/v1" }]), { status: 200 }));
+    const refs = await fetchMatchingRefs("owner", "repo", "fix#12", makeEnv());
+    expect(refs).toEqual(["fix#12", "fix#12/v1"]);
+    expect(fetch).toHaveBeenCalledWith("https://api.github.com/repos/owner/repo/git/matching-refs/heads/fix%2312", expect.anything());
   });
 });
 
@@ -249,7 +492,7 @@ describe("userToken parameter", () => {
     expect((options.headers as Record<string, string>)["Authorization"]).toBeUndefined();
   });
 
-  it("userToken takes precedence in fetchZipball", async () => {
+  it("userToken takes precedence in fetchZipballStream", async () => {
     const data = new Uint8Array([1, 2, 3, 4]);
     (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
       new Response(data.buffer, {
@@ -260,7 +503,7 @@ describe("userToken parameter", () => {
         },
       })
     );
-    await fetchZipball("owner", "repo", "main", makeEnv("env-token"), "user-token");
+    await fetchZipballStream("owner", "repo", "main", makeEnv("env-token"), "user-token");
     const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
     expect((options.headers as Record<string, string>)["Authorization"]).toBe("Bearer user-token");
   });
@@ -3,6 +3,9 @@ import {
   shouldIgnorePath,
   isBinaryContent,
   parseGitignore,
+  createGitignoreMatcher,
+  createGitattributesMatcher,
+  createGlobFilter,
   filterBySubpath,
 } from "../../src/engine/filter";
 import type { FileEntry } from "../../src/types";
@@ -172,6 +175,261 @@ describe("parseGitignore", () => {
   });
 });
 
+// Reference cases from the gitignore(5) documentation
+describe("parseGitignore – git reference cases", () => {
+  it("matches a trailing-slash pattern only against directories", () => {
+    const matcher = parseGitignore("frotz/\n");
+    expect(matcher("frotz/a.txt")).toBe(true);
+    expect(matcher("a/frotz/b.txt")).toBe(true);
+    expect(matcher("frotz")).toBe(false);
+  });
+
+  it("anchors patterns with a middle slash to the .gitignore directory", () => {
+    const matcher = parseGitignore("doc/frotz\n");
+    expect(matcher("doc/frotz")).toBe(true);
+    expect(matcher("doc/frotz/a.txt")).toBe(true);
+    expect(matcher("a/doc/frotz")).toBe(false);
+  });
+
+  it("matches a leading **/ in all directories", () => {
+    const matcher = parseGitignore("**/foo\n");
+    expect(matcher("foo")).toBe(true);
+    expect(matcher("a/b/foo")).toBe(true);
+    expect(matcher("a/foobar")).toBe(false);
+  });
+
+  it("matches **/foo/bar anywhere foo/bar appears", () => {
+    const matcher = parseGitignore("**/foo/bar\n");
+    expect(matcher("foo/bar")).toBe(true);
+    expect(matcher("x/y/foo/bar")).toBe(true);
+    expect(matcher("foo/baz")).toBe(false);
+  });
+
+  it("matches everything inside a directory with a trailing /**", () => {
+    const matcher = parseGitignore("abc/**\n");
+    expect(matcher("abc/a.txt")).toBe(true);
+    expect(matcher("abc/x/y.txt")).toBe(true);
+    expect(matcher("abc")).toBe(false);
+  });
+
+  it("matches zero or more directories with an inner /**/", () => {
+    const matcher = parseGitignore("a/**/b\n");
+    expect(matcher("a/b")).toBe(true);
+    expect(matcher("a/x/b")).toBe(true);
+    expect(matcher("a/x/y/b")).toBe(true);
+    expect(matcher("c/a/b")).toBe(false);
+  });
+
+  it("does not let * or ? match a slash", () => {
+    const matcher = parseGitignore("foo/*\nba?.txt\n");
+    expect(matcher("foo/test.json")).toBe(true);
+    expect(matcher("foo/bar/hello.c")).toBe(true); // excluded via its parent directory
+    expect(matcher("bar.txt")).toBe(true);
+    expect(matcher("ba/.txt")).toBe(false);
+  });
+
+  it("excludes everything except foo/bar", () => {
+    const matcher = parseGitignore("/*\n!/foo\n/foo/*\n!/foo/bar\n");
+    expect(matcher("foo/bar/a.txt")).toBe(false);
+    expect(matcher("foo/baz/a.txt")).toBe(true);
+    expect(matcher("other.txt")).toBe(true);
+  });
+
+  it("cannot re-include a file when its parent directory is excluded", () => {
+    const matcher = parseGitignore("build/\n!build/keep.txt\n");
+    expect(matcher("build/keep.txt")).toBe(true);
+  });
+
+  it("uses the last matching pattern", () => {
+    const matcher = parseGitignore("!keep.log\n*.log\n");
+    expect(matcher("keep.log")).toBe(true);
+  });
+
+  it("supports character classes and negated classes", () => {
+    const matcher = parseGitignore("*.[oa]\nfile[!0-9].txt\n");
+    expect(matcher("main.o")).toBe(true);
+    expect(matcher("lib.a")).toBe(true);
+    expect(matcher("main.c")).toBe(false);
+    expect(matcher("filex.txt")).toBe(true);
+    expect(matcher("file1.txt")).toBe(false);
+  });
+
+  it("treats escaped # and ! as literals", () => {
+    const matcher = parseGitignore("\\#notes\n\\!important\n");
+    expect(matcher("#notes")).toBe(true);
+    expect(matcher("!important")).toBe(true);
+    expect(matcher("important")).toBe(false);
+  });
+
+  it("ignores unescaped trailing whitespace", () => {
+    const matcher = parseGitignore("*.log   \n");
+    expect(matcher("error.log")).toBe(true);
+  });
+});
+
+describe("createGitignoreMatcher – nested .gitignore files", () => {
+  it("scopes a nested file's patterns to its own directory", () => {
+    const matcher = createGitignoreMatcher({
+      "": "*.log\n",
+      "packages/app": "/out\ngenerated/\n",
+    });
+    expect(matcher("packages/app/out/bundle.js")).toBe(true);
+    expect(matcher("packages/app/src/generated/types.ts")).toBe(true);
+    expect(matcher("out/bundle.js")).toBe(false);
+    expect(matcher("packages/app/src/out/x.ts")).toBe(false);
+    expect(matcher("packages/other/generated/types.ts")).toBe(false);
+    expect(matcher("packages/app/debug.log")).toBe(true);
+  });
+
+  it("lets a deeper file override a shallower one", () => {
+    const matcher = createGitignoreMatcher({
+      "": "*.log\n",
+      "sub": "!debug.log\n",
+    });
+    expect(matcher("debug.log")).toBe(true);
+    expect(matcher("sub/debug.log")).toBe(false);
+    expect(matcher("sub/deeper/debug.log")).toBe(false);
+    expect(matcher("sub/error.log")).toBe(true);
+  });
+
+  it("lets a shallower file still exclude a deeper directory", () => {
+    const matcher = createGitignoreMatcher({
+      "": "vendor-copy/\n",
+      "vendor-copy": "!keep.ts\n",
+    });
+    expect(matcher("vendor-copy/keep.ts")).toBe(true);
+  });
+
+  it("accepts directory keys with trailing slashes", () => {
+    const matcher = createGitignoreMatcher({ "src/": "*.tmp\n" });
+    expect(matcher("src/a.tmp")).toBe(true);
+    expect(matcher("a.tmp")).toBe(false);
+  });
+
+  it("ignores nothing when there are no rules", () => {
+    const matcher = createGitignoreMatcher({ "": "# just a comment\n" });
+    expect(matcher("anything.txt")).toBe(false);
+  });
+});
+
+describe("createGitattributesMatcher", () => {
+  it("matches linguist-generated, linguist-vendored, linguist-documentation, and export-ignore", () => {
+    const matcher = createGitattributesMatcher({
+      "": [
+        "api/client/** linguist-generated",
+        "third_party/** linguist-vendored=true",
+        "docs/** linguist-documentation",
+        "/.github export-ignore",
+      ].join("\n"),
+    });
+    expect(matcher("api/client/models.ts")).toBe(true);
+    expect(matcher("third_party/lib/x.c")).toBe(true);
+    expect(matcher("docs/intro.md")).toBe(true);
+    expect(matcher(".github")).toBe(true);
+    expect(matcher("src/index.ts")).toBe(false);
+  });
+
+  it("matches slash-less patterns at any depth", () => {
+    const matcher = createGitattributesMatcher({ "": "*_pb2.py linguist-generated\n" });
+    expect(matcher("proto/service_pb2.py")).toBe(true);
+    expect(matcher("service.py")).toBe(false);
+  });
+
+  it("ignores unrelated attributes", () => {
+    const matcher = createGitattributesMatcher({ "": "*.sh text eol=lf\n*.png binary\n" });
+    expect(matcher("build.sh")).toBe(false);
+  });
+
+  it("lets later lines unset an attribute", () => {
+    const matcher = createGitattributesMatcher({
+      "": "gen/** linguist-generated\ngen/keep.ts linguist-generated=false\ngen/also.ts -linguist-generated\n",
+    });
+    expect(matcher("gen/out.ts")).toBe(true);
+    expect(matcher("gen/keep.ts")).toBe(false);
+    expect(matcher("gen/also.ts")).toBe(false);
+  });
+
+  it("lets a deeper .gitattributes override a shallower one", () => {
+    const matcher = createGitattributesMatcher({
+      "": "*.ts linguist-generated\n",
+      "src": "*.ts -linguist-generated\n",
+    });
+    expect(matcher("gen/a.ts")).toBe(true);
+    expect(matcher("src/a.ts")).toBe(false);
+  });
+
+  it("scopes nested files to their own directory", () => {
+    const matcher = createGitattributesMatcher({ "packages/api": "/client/** linguist-generated\n" });
+    expect(matcher("packages/api/client/index.ts")).toBe(true);
+    expect(matcher("client/index.ts")).toBe(false);
+  });
+
+  it("skips negative and directory-only patterns, as git does", () => {
+    const matcher = createGitattributesMatcher({ "": "!foo linguist-generated\nvendor/ linguist-vendored\n" });
+    expect(matcher("foo")).toBe(false);
+    expect(matcher("vendor/a.js")).toBe(false);
+  });
+});
+
+describe("createGlobFilter", () => {
+  it("keeps everything when no globs are given", () => {
+    const keep = createGlobFilter();
+    expect(keep("src/index.ts")).toBe(true);
+    expect(keep("README.md")).toBe(true);
+  });
+
+  it("keeps only paths matching an include glob", () => {
+    const keep = createGlobFilter(["src/**/*.ts"]);
+    expect(keep("src/index.ts")).toBe(true);
+    expect(keep("src/utils/deep/helper.ts")).toBe(true);
+    expect(keep("src/styles.css")).toBe(false);
+    expect(keep("lib/index.ts")).toBe(false);
+  });
+
+  it("expands brace alternation", () => {
+    const keep = createGlobFilter(["src/**/*.{ts,tsx}"]);
+    expect(keep("src/b.ts")).toBe(true);
+    expect(keep("src/b.tsx")).toBe(true);
+    expect(keep("src/b.js")).toBe(false);
+    expect(createGlobFilter(["{src,lib}/{a,b{1,2}}.js"])("lib/b2.js")).toBe(true);
+    expect(createGlobFilter(["docs/{draft}.md"])("docs/{draft}.md")).toBe(true);
+  });
+
+  it("drops paths matching an exclude glob", () => {
+    const keep = createGlobFilter([], ["**/*.test.ts"]);
+    expect(keep("src/index.ts")).toBe(true);
+    expect(keep("src/index.test.ts")).toBe(false);
+    expect(keep("index.test.ts")).toBe(false);
+  });
+
+  it("applies exclude after include", () => {
+    const keep = createGlobFilter(["src/**"], ["src/fixtures/**"]);
+    expect(keep("src/index.ts")).toBe(true);
+    expect(keep("src/fixtures/data.json")).toBe(false);
+    expect(keep("test/index.test.ts")).toBe(false);
+  });
+
+  it("matches slash-less patterns against the file name at any depth", () => {
+    const keep = createGlobFilter(["*.md"]);
+    expect(keep("README.md")).toBe(true);
+    expect(keep("docs/guide/intro.md")).toBe(true);
+    expect(keep("docs/guide/intro.mdx")).toBe(false);
+  });
+
+  it("treats a directory pattern as matching everything inside it", () => {
+    const keep = createGlobFilter([], ["test", "fixtures/"]);
+    expect(keep("test/a.ts")).toBe(false);
+    expect(keep("packages/foo/fixtures/x.json")).toBe(false);
+    expect(keep("src/testing.ts")).toBe(true);
+  });
+
+  it("supports ? as a single-character wildcard", () => {
+    const keep = createGlobFilter(["src/v?.ts"]);
+    expect(keep("src/v1.ts")).toBe(true);
+    expect(keep("src/v10.ts")).toBe(false);
+  });
+});
+
 describe("filterBySubpath", () => {
   const files: FileEntry[] = [
     { path: "src/index.ts", size: 100 },
@@ -6,8 +6,20 @@ import {
   formatFileList,
   formatFull,
   formatOutput,
+  formatBlob,
+  formatPullRequest,
+  formatCompare,
+  formatCommit,
+  formatCombinedOutput,
+  formatJson,
+  toTreeJson,
+  formatXml,
+  formatBlobXml,
+  escapeXml,
+  fenceFor,
+  formatFileBlock,
 } from "../../src/engine/formatter";
-import type { IngestResult } from "../../src/types";
+import type { BlobResult, CommitResult, CompareResult, IngestResult, PullRequestResult, ReleaseInfo } from "../../src/types";
 
 const baseResult: IngestResult = {
   owner: "acme",
@@ -64,6 +76,29 @@ describe("formatSummary", () => {
   it("returns a non-empty string", () => {
     expect(formatSummary(baseResult).length).toBeGreaterThan(0);
   });
+
+  it("reports applied repository config and description", () => {
+    const output = formatSummary({
+      ...baseResult,
+      configFiles: [".gitprism.yml", ".gitprismignore"],
+      description: "Edge: ingestion",
+    });
+    expect(output).toContain("config: .gitprism.yml, .gitprismignore");
+    expect(output).toContain('description: "Edge: ingestion"');
+    expect(output).toContain("\nEdge: ingestion\n");
+  });
+
+  it("includes estimated tokens when available", () => {
+    const output = formatSummary({ ...baseResult, totalTokens: 93 });
+    expect(output).toContain("tokens: 93");
+    expect(output).toContain("**Estimated tokens:** 93");
+  });
+
+  it("omits config lines when no repository config was found", () => {
+    const output = formatSummary(baseResult);
+    expect(output).not.toContain("config:");
+    expect(output).not.toContain("description:");
+  });
 });
 
 describe("formatTree", () => {
@@ -84,6 +119,18 @@ describe("formatTree", () => {
     expect(output).toContain("src/components");
   });
 
+  it("lists entries by name regardless of file order", () => {
+    const output = formatTree([
+      { path: "README.md", size: 1 },
+      { path: "package.json", size: 1 },
+      { path: "src/index.ts", size: 1 },
+      { path: "LICENSE", size: 1 },
+    ]);
+    expect(output.indexOf("LICENSE")).toBeLessThan(output.indexOf("README.md"));
+    expect(output.indexOf("README.md")).toBeLessThan(output.indexOf("package.json"));
+    expect(output.indexOf("package.json")).toBeLessThan(output.indexOf("src/"));
+  });
+
   it("nests subdirectories correctly", () => {
     const output = formatTree(baseResult.files);
     // src should appear as a directory
@@ -117,6 +164,15 @@ describe("formatFileList", () => {
     expect(output).toContain("100");
     expect(output).toContain("10");
   });
+
+  it("includes estimated tokens per file", () => {
+    const output = formatFileList({
+      ...baseResult,
+      files: [{ path: "src/index.ts", size: 100, lines: 10, tokens: 27 }],
+    });
+    expect(output).toContain("| Tokens |");
+    expect(output).toContain("| src/index.ts | 100 | 10 | 27 |");
+  });
 });
 
 describe("formatFull", () => {
@@ -168,6 +224,370 @@ describe("truncation notice", () => {
   });
 });
 
+describe("next page footer", () => {
+  it("links the next page URL when the result has a cursor", () => {
+    const output = formatOutput(
+      { ...baseResult, nextCursor: "abc", nextPageUrl: "https://gitprism.cloudemo.org/ingest?repo=acme/myapp&cursor=abc" },
+      "file-list"
+    );
+    expect(output).toContain("**Next page:** https://gitprism.cloudemo.org/ingest?repo=acme/myapp&cursor=abc");
+  });
+
+  it("falls back to the cursor when there is no URL", () => {
+    const output = formatOutput({ ...baseResult, nextCursor: "abc" }, "summary");
+    expect(output).toContain('cursor: "abc"');
+  });
+
+  it("is omitted when there is no next page", () => {
+    expect(formatOutput(baseResult, "file-list")).not.toContain("Next page");
+  });
+});
+
+describe("formatBlob", () => {
+  const blob: BlobResult = {
+    owner: "owner",
+    repo: "repo",
+    ref: "main",
+    sha: "0123456789abcdef0123456789abcdef01234567",
+    path: "src/x.py",
+    lines: { start: 2, end: 3 },
+    totalLines: 10,
+    size: 120,
+    content: "b = 2\nc = 3\n",
+    permalink: "https://github.com/owner/repo/blob/0123456/src/x.py#L2-L3",
+  };
+
+  it("renders one fenced block with path, ref, commit, and permalink", () => {
+    const output = formatBlob(blob);
+    expect(output).toContain("file: src/x.py");
+    expect(output).toContain("lines: 2-3");
+    expect(output).toContain("**File:** `src/x.py` (lines 2-3 of 10)");
+    expect(output).toContain("**Ref:** `main` (commit `0123456`)");
+    expect(output).toContain(`**Permalink:** ${blob.permalink}`);
+    expect(output).toContain("```python\nb = 2\nc = 3\n```");
+  });
+
+  it("omits contents of binary files", () => {
+    const output = formatBlob({ ...blob, lines: undefined, content: undefined });
+    expect(output).toContain("Binary file");
+    expect(output).not.toContain("```");
+  });
+});
+
+describe("formatPullRequest", () => {
+  const pr: PullRequestResult = {
+    owner: "owner",
+    repo: "repo",
+    number: 42,
+    title: "Fix the parser",
+    body: "Closes #41.",
+    author: "ada",
+    state: "open",
+    url: "https://github.com/owner/repo/pull/42",
+    baseRef: "main",
+    baseSha: "a".repeat(40),
+    headRef: "fix",
+    headSha: "b".repeat(40),
+    headLabel: "ada:fix",
+    additions: 3,
+    deletions: 1,
+    changedFiles: 2,
+    files: [
+      { path: "src/parser.ts", status: "modified", additions: 3, deletions: 1, patch: "@@ -1 +1 @@\n-a\n+b", content: "b\n" },
+      { path: "logo.png", previousPath: "old.png", status: "renamed", additions: 0, deletions: 0 },
+    ],
+    truncated: false,
+  };
+
+  it("renders metadata, description, file table, and per-file diffs", () => {
+    const output = formatPullRequest(pr);
+    expect(output).toContain("# owner/repo#42: Fix the parser");
+    expect(output).toContain("**Head:** `ada:fix` (`bbbbbbb`)");
+    expect(output).toContain("## Description\n\nCloses #41.");
+    expect(output).toContain("| `src/parser.ts` | modified | 3 | 1 |");
+    expect(output).toContain("| `old.png` → `logo.png` | renamed | 0 | 0 |");
+    expect(output).toContain("```diff\n@@ -1 +1 @@\n-a\n+b\n```");
+    expect(output).toContain("_No textual diff");
+  });
+
+  it("adds head contents only for files that have them", () => {
+    const output = formatPullRequest(pr);
+    expect(output).toContain("## Head Contents");
+    expect(output).toContain("### `src/parser.ts`\n\n```typescript\nb\n");
+    expect(formatPullRequest({ ...pr, files: [{ ...pr.files[0], content: undefined }] })).not.toContain("## Head Contents");
+  });
+});
+
+describe("formatCompare", () => {
+  const comparison: CompareResult = {
+    owner: "owner",
+    repo: "repo",
+    base: "v1.0.0",
+    head: "main",
+    url: "https://github.com/owner/repo/compare/v1.0.0...main",
+    status: "ahead",
+    aheadBy: 2,
+    behindBy: 0,
+    totalCommits: 2,
+    commits: [
+      { sha: "aaaaaaa", author: "Ada", date: "2024-03-01", message: "Add parser" },
+      { sha: "bbbbbbb", author: "Lin", date: "2024-03-02", message: "Fix parser" },
+    ],
+    files: [
+      { path: "src/parser.ts", status: "added", additions: 3, deletions: 0, patch: "@@ +1,3 @@\n+a" },
+      { path: "src/old.ts", status: "removed", additions: 0, deletions: 4 },
+    ],
+    truncated: false,
+  };
+
+  it("renders the commits in range, file table, and per-file diffs", () => {
+    const output = formatCompare(comparison);
+    expect(output).toContain("# owner/repo: v1.0.0...main");
+    expect(output).toContain("**Status:** ahead (2 ahead, 0 behind)");
+    expect(output).toContain("## Commits");
+    expect(output).toContain("| `bbbbbbb` | Lin | 2024-03-02 | Fix parser |");
+    expect(output).toContain("| `src/parser.ts` | added | 3 | 0 |");
+    expect(output).toContain("| `src/old.ts` | removed | 0 | 4 |");
+    expect(output).toContain("```diff\n@@ +1,3 @@\n+a\n```");
+  });
+
+  it("omits the commit table when the refs are identical", () => {
+    const output = formatCompare({ ...comparison, status: "identical", aheadBy: 0, totalCommits: 0, commits: [], files: [] });
+    expect(output).not.toContain("## Commits");
+    expect(output).toContain("## Changed Files");
+  });
+});
+
+describe("formatCommit", () => {
+  const commit: CommitResult = {
+    owner: "owner",
+    repo: "repo",
+    sha: "d".repeat(40),
+    url: "https://github.com/owner/repo/commit/dddd",
+    message: "Fix overflow\n\nThe counter wrapped at 2^31.",
+    author: "Ada",
+    authorLogin: "ada",
+    date: "2024-03-01T10:00:00Z",
+    committer: "GitHub",
+    parents: ["e".repeat(40), "f".repeat(40)],
+    additions: 1,
+    deletions: 1,
+    files: [{ path: "src/count.ts", status: "modified", additions: 1, deletions: 1, patch: "@@ -1 +1 @@" }],
+    truncated: false,
+  };
+
+  it("renders the subject, full message, parents, and patch", () => {
+    const output = formatCommit(commit);
+    expect(output).toContain("# owner/repo@ddddddd: Fix overflow");
+    expect(output).toContain("**Author:** Ada (@ada)");
+    expect(output).toContain("**Parents:** `eeeeeee`, `fffffff`");
+    expect(output).toContain("## Message\n\nThe counter wrapped at 2^31.");
+    expect(output).toContain("| `src/count.ts` | modified | 1 | 1 |");
+    expect(output).toContain("```diff\n@@ -1 +1 @@\n```");
+  });
+
+  it("marks root commits and skips an empty message body", () => {
+    const output = formatCommit({ ...commit, message: "Initial commit", parents: [] });
+    expect(output).toContain("**Parents:** none (root commit)");
+    expect(output).not.toContain("## Message");
+  });
+});
+
+describe("release section", () => {
+  const release: ReleaseInfo = {
+    tag: "v2.0.0",
+    name: "Version 2",
+    publishedAt: "2024-05-01T12:00:00Z",
+    body: "- New API",
+    url: "https://github.com/owner/repo/releases/tag/v2.0.0",
+    prerelease: false,
+    assets: [{ name: "app.tar.gz", size: 2048, downloadCount: 7, url: "https://example.com/app.tar.gz" }],
+  };
+
+  it("leads the summary with the release notes and assets", () => {
+    const output = formatSummary({ ...baseResult, release });
+    expect(output).toContain("release: v2.0.0\n---");
+    expect(output).toContain("**Release:** Version 2");
+    expect(output).toContain("**Published:** 2024-05-01");
+    expect(output).toContain("### Release Notes\n\n- New API");
+    expect(output).toContain("| [app.tar.gz](https://example.com/app.tar.gz) | 2.0 KB | 7 |");
+    expect(output.indexOf("## Release")).toBeLessThan(output.indexOf("# acme/myapp"));
+  });
+
+  it("comes first in combined output", () => {
+    const output = formatCombinedOutput({ ...baseResult, release }, ["full"]);
+    expect(output.startsWith("## Release")).toBe(true);
+  });
+});
+
+describe("JSON output", () => {
+  it("lists files with language and contents", () => {
+    const json = toTreeJson(baseResult, { host: "github.com", sha: "abc123" });
+    expect(json).toMatchObject({
+      schemaVersion: 1,
+      kind: "tree",
+      host: "github.com",
+      owner: "acme",
+      repo: "myapp",
+      ref: "main",
+      sha: "abc123",
+      fileCount: 3,
+      truncated: false,
+    });
+    expect(json.files[0]).toEqual({
+      path: "src/index.ts",
+      size: 100,
+      lines: 10,
+      tokens: undefined,
+      language: "typescript",
+      content: "const x = 1;\nexport default x;\n",
+    });
+    expect(json.files[1].language).toBe("python");
+  });
+
+  it("carries truncation, cursors, and commits as data", () => {
+    const json = toTreeJson(
+      { ...baseResult, truncated: true, truncationMessage: "<!-- [TRUNCATED] -->", nextCursor: "c1" },
+      { host: "github.com", commits: [{ sha: "abc", author: "A", date: "2024-01-01", message: "init" }] }
+    );
+    expect(json.truncated).toBe(true);
+    expect(json.truncationMessage).toBe("<!-- [TRUNCATED] -->");
+    expect(json.nextCursor).toBe("c1");
+    expect(json.commits).toHaveLength(1);
+  });
+
+  it("round-trips file contents exactly, including fences", () => {
+    const content = "# Doc\n\n```ts\nconst x = `y`;\n```\n";
+    const result = { ...baseResult, files: [{ path: "README.md", size: content.length, content }] };
+    const parsed = JSON.parse(formatJson(toTreeJson(result, { host: "github.com" })));
+    expect(parsed.files[0].content).toBe(content);
+  });
+});
+
+describe("XML output", () => {
+  const unescape = (text: string) => text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+  it("wraps each file in a numbered document", () => {
+    const output = formatXml(baseResult, ["file-contents"], { host: "github.com", sha: "abc123" });
+    expect(output.startsWith("<documents>\n<repository>\n<name>acme/myapp</name>")).toBe(true);
+    expect(output).toContain("<sha>abc123</sha>");
+    expect(output).toContain('<document index="1">\n<source>src/index.ts</source>\n<document_content>const x = 1;');
+    expect(output).toContain('<document index="3">\n<source>README.md</source>');
+    expect(output.trimEnd().endsWith("</documents>")).toBe(true);
+  });
+
+  it("puts the tree and file list in their own tags only when asked", () => {
+    const summary = formatXml(baseResult, ["summary"], { host: "github.com" });
+    expect(summary).not.toContain("<directory_structure>");
+    expect(summary).not.toContain("<document ");
+
+    const listed = formatXml(baseResult, ["file-list"], { host: "github.com" });
+    expect(listed).toContain("<directory_structure>");
+    expect(listed).toContain('<file path="src/utils/helper.py" size="200" lines="20"/>');
+    expect(listed).not.toContain("<document ");
+  });
+
+  it("escapes markup in contents and paths so they round-trip", () => {
+    const content = "<div class=\"a\">&amp; ]]> </document_content>\n";
+    const result = { ...baseResult, files: [{ path: "a&b<c>.html", size: content.length, content }] };
+    const output = formatXml(result, ["file-contents"], { host: "github.com" });
+    expect(output).not.toContain("</document_content>\n</document_content>");
+    const match = /<document_content>([\s\S]*?)<\/document_content>/.exec(output);
+    expect(unescape(match![1])).toBe(content);
+    expect(output).toContain("<source>a&amp;b&lt;c&gt;.html</source>");
+  });
+
+  it("drops characters XML cannot carry", () => {
+    expect(escapeXml("a\0b\x07c\td")).toBe("abc\td");
+  });
+
+  it("renders a blob as one document", () => {
+    const blob: BlobResult = {
+      owner: "acme",
+      repo: "myapp",
+      ref: "main",
+      path: "src/index.ts",
+      lines: { start: 1, end: 2 },
+      totalLines: 10,
+      size: 100,
+      content: "a < b\n",
+      permalink: "https://github.com/acme/myapp/blob/abc/src/index.ts#L1-L2",
+    };
+    const output = formatBlobXml(blob);
+    expect(output).toContain("<lines>1-2</lines>");
+    expect(output).toContain('<document index="1">\n<source>src/index.ts</source>\n<document_content>a &lt; b\n</document_content>');
+  });
+});
+
+describe("fence-safe code blocks", () => {
+  /**
+   * Reads `### \`path\`` file blocks back out of Markdown the way a CommonMark
+   * renderer would: a fence closes on a backtick-only line at least as long.
+   */
+  function parseFileBlocks(markdown: string): Record<string, string> {
+    const files: Record<string, string> = {};
+    const lines = markdown.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      const heading = /^### `(.+)`$/.exec(lines[i]);
+      const open = heading && /^(`{3,})[^`]*$/.exec(lines[i + 2] ?? "");
+      if (!heading || !open) continue;
+      const body: string[] = [];
+      let j = i + 3;
+      while (j < lines.length && !new RegExp(`^\`{${open[1].length},}\\s*$`).test(lines[j])) {
+        body.push(lines[j++]);
+      }
+      files[heading[1]] = body.join("\n");
+      i = j;
+    }
+    return files;
+  }
+
+  const readme = "# Demo\n\n```ts\nconst a = 1;\n```\n\nInline `code` and a ```` four-tick ```` run.\n";
+  const files = [
+    { path: "README.md", size: readme.length, content: readme },
+    { path: "docs/guide.md", size: 20, content: "~~~\ntilde fence\n~~~" },
+    { path: "src/index.ts", size: 30, content: "export const x = `template`;\n" },
+  ];
+  const result: IngestResult = { ...baseResult, fileCount: files.length, files };
+
+  it("uses a fence longer than the longest backtick run", () => {
+    expect(fenceFor("no ticks")).toBe("```");
+    expect(fenceFor("```ts\n```")).toBe("````");
+    expect(fenceFor("a ````` b")).toBe("``````");
+  });
+
+  it("keeps a README with fences inside its block", () => {
+    const block = formatFileBlock(files[0]);
+    expect(block).toContain("`````markdown\n# Demo");
+    expect(block.trimEnd().endsWith("`````")).toBe(true);
+  });
+
+  it("round-trips files through formatFull", () => {
+    const parsed = parseFileBlocks(formatFull(result));
+    expect(parsed).toEqual(Object.fromEntries(files.map((f) => [f.path, f.content])));
+  });
+
+  it("round-trips files through combined output", () => {
+    const parsed = parseFileBlocks(formatCombinedOutput(result, ["structure", "file-contents"]));
+    expect(parsed).toEqual(Object.fromEntries(files.map((f) => [f.path, f.content])));
+  });
+
+  it("fences the tree and blobs safely too", () => {
+    expect(formatTree([{ path: "odd```name.txt", size: 1 }])).toMatch(/^````\n/);
+    const blob: BlobResult = {
+      owner: "acme",
+      repo: "myapp",
+      ref: "main",
+      path: "README.md",
+      totalLines: 3,
+      size: readme.length,
+      content: readme,
+      permalink: "https://github.com/acme/myapp/blob/abc/README.md",
+    };
+    expect(formatBlob(blob)).toContain("`````markdown\n# Demo");
+  });
+});
+
 describe("formatOutput dispatcher", () => {
   it("dispatches to summary", () => {
     const output = formatOutput(baseResult, "summary");
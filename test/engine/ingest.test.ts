@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { ingestFromUrl } from "../../src/engine/ingest";
+import type { Env } from "../../src/types";
+
+const makeEnv = (): Env =>
+  ({
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "2",
+    CACHE_TTL_SECONDS: "3600",
+  }) as unknown as Env;
+
+const zip = zipSync(
+  Object.fromEntries(["a.ts", "b.ts", "c.ts", "d.ts", "e.ts"].map((name) => [`owner-repo-abc/${name}`, strToU8(name)]))
+);
+
+/** Answers the repo, commit, and zipball requests of a GitHub ingest */
+function githubFetch(url: string, init?: RequestInit): Response {
+  if (url.includes("/zipball/")) {
+    return init?.method === "HEAD"
+      ? new Response(null, { status: 200, headers: { "Content-Length": String(zip.length) } })
+      : new Response(zip.buffer as ArrayBuffer, { status: 200 });
+  }
+  if (url.includes("/commits/")) {
+    return new Response(JSON.stringify({ sha: "a".repeat(40) }), { status: 200 });
+  }
+  return new Response(JSON.stringify({ default_branch: "main", description: "" }), { status: 200 });
+}
+
+describe("ingestFromUrl", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn().mockImplementation(async (url: string, init?: RequestInit) => githubFetch(url, init)));
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("jumps to the page named in the URL", async () => {
+    const markdown = await ingestFromUrl("https://github.com/owner/repo?page=2&order=path", "file-list", makeEnv());
+    expect(markdown).toContain("c.ts");
+    expect(markdown).toContain("d.ts");
+    expect(markdown).not.toContain("a.ts");
+    expect(markdown).not.toContain("b.ts");
+  });
+});
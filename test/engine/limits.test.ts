@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  archiveLimitsFromEnv,
+  createArchiveGuard,
+  isUnsafeEntryName,
+  DEFAULT_ARCHIVE_LIMITS,
+} from "../../src/engine/limits";
+import { UnsafeArchiveError, type Env } from "../../src/types";
+
+describe("isUnsafeEntryName", () => {
+  it("accepts ordinary relative paths", () => {
+    expect(isUnsafeEntryName("owner-repo-abc/src/index.ts")).toBe(false);
+    expect(isUnsafeEntryName("owner-repo-abc/docs/..notes.md")).toBe(false);
+  });
+
+  it("rejects parent-directory segments", () => {
+    expect(isUnsafeEntryName("owner-repo-abc/../evil.sh")).toBe(true);
+    expect(isUnsafeEntryName("..\\evil.sh")).toBe(true);
+  });
+
+  it("rejects absolute paths, drive letters, and NUL bytes", () => {
+    expect(isUnsafeEntryName("/etc/passwd")).toBe(true);
+    expect(isUnsafeEntryName("C:/Windows/evil.dll")).toBe(true);
+    expect(isUnsafeEntryName("a\0b")).toBe(true);
+  });
+});
+
+describe("createArchiveGuard", () => {
+  const limits = { maxUncompressedBytes: 10 * 1024 * 1024, maxCompressionRatio: 100, maxEntries: 3 };
+
+  it("throws 413 once the entry count is exceeded", () => {
+    const guard = createArchiveGuard(limits);
+    guard.check("a/", 0, 0);
+    guard.check("a/b", 1, 1);
+    guard.check("a/c", 1, 1);
+    expect(() => guard.check("a/d", 1, 1)).toThrow(expect.objectContaining({ status: 413 }));
+  });
+
+  it("throws 413 once the running uncompressed total is exceeded", () => {
+    const guard = createArchiveGuard(limits);
+    guard.check("a", 1024 * 1024, 6 * 1024 * 1024);
+    expect(() => guard.check("b", 1024 * 1024, 6 * 1024 * 1024)).toThrow(UnsafeArchiveError);
+  });
+
+  it("counts inflated bytes of entries without declared sizes", () => {
+    const guard = createArchiveGuard(limits);
+    guard.check("a");
+    guard.received(1024 * 1024);
+    guard.inflated(8 * 1024 * 1024);
+    expect(() => guard.inflated(4 * 1024 * 1024)).toThrow(expect.objectContaining({ status: 413 }));
+  });
+
+  it("throws 422 for a suspicious compression ratio on large entries only", () => {
+    const guard = createArchiveGuard(limits);
+    guard.check("small", 10, 512 * 1024);
+    expect(() => guard.check("bomb", 1000, 2 * 1024 * 1024)).toThrow(expect.objectContaining({ status: 422 }));
+  });
+
+  it("throws 422 when many small entries inflate far past the bytes read", () => {
+    const guard = createArchiveGuard(limits);
+    guard.received(4096);
+    for (let i = 0; i < 3; i++) guard.check(`small-${i}`, 1000, 400 * 1024);
+    guard.inflated(400 * 1024);
+    guard.inflated(400 * 1024);
+    expect(() => guard.inflated(400 * 1024)).toThrow(expect.objectContaining({ status: 422 }));
+  });
+});
+
+describe("archiveLimitsFromEnv", () => {
+  it("uses the defaults when unset or invalid", () => {
+    expect(archiveLimitsFromEnv({ MAX_COMPRESSION_RATIO: "lots" } as unknown as Env)).toEqual(DEFAULT_ARCHIVE_LIMITS);
+  });
+
+  it("reads configured values", () => {
+    const env = { MAX_UNCOMPRESSED_BYTES: "1000", MAX_COMPRESSION_RATIO: "50", MAX_ARCHIVE_ENTRIES: "10" };
+    expect(archiveLimitsFromEnv(env as unknown as Env)).toEqual({
+      maxUncompressedBytes: 1000,
+      maxCompressionRatio: 50,
+      maxEntries: 10,
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseRequest } from "../../src/engine/parser";
-import { ParseError } from "../../src/types";
+import { formatFromAccept, parseIngestBody, parseRequest } from "../../src/engine/parser";
+import { ParseError, type Env } from "../../src/types";
+import { encodeCursor } from "../../src/utils/cursor";
 
 function makeRequest(path: string): Request {
   return new Request(`https://gitprism.dev${path}`);
@@ -113,6 +114,385 @@ describe("parseRequest – URL-appended shorthand form", () => {
   });
 });
 
+describe("parseRequest – include/exclude globs", () => {
+  it("leaves include/exclude undefined when absent", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=a/b"));
+    expect(result.include).toBeUndefined();
+    expect(result.exclude).toBeUndefined();
+  });
+
+  it("parses include and exclude on the /ingest form", () => {
+    const result = parseRequest(
+      makeRequest("/ingest?repo=a/b&include=src/**/*.ts&exclude=**/*.test.ts")
+    );
+    expect(result.include).toEqual(["src/**/*.ts"]);
+    expect(result.exclude).toEqual(["**/*.test.ts"]);
+  });
+
+  it("parses include and exclude on the URL-proxy form", () => {
+    const result = parseRequest(
+      makeRequest("/https://github.com/owner/repo/tree/main/src?exclude=**/*.test.ts")
+    );
+    expect(result.path).toBe("src");
+    expect(result.exclude).toEqual(["**/*.test.ts"]);
+  });
+
+  it("accepts comma-separated and repeated params", () => {
+    const result = parseRequest(
+      makeRequest("/ingest?repo=a/b&include=src/**,lib/**&include=README.md")
+    );
+    expect(result.include).toEqual(["src/**", "lib/**", "README.md"]);
+  });
+
+  it("keeps commas inside brace groups", () => {
+    const result = parseRequest(
+      makeRequest("/ingest?repo=a/b&include=src/**/*.{ts,tsx},docs/*.md&exclude=**/*.{test,spec}.ts")
+    );
+    expect(result.include).toEqual(["src/**/*.{ts,tsx}", "docs/*.md"]);
+    expect(result.exclude).toEqual(["**/*.{test,spec}.ts"]);
+  });
+});
+
+describe("parseRequest – include-generated flag", () => {
+  it("defaults to false", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=a/b"));
+    expect(result.includeGenerated).toBe(false);
+  });
+
+  it("parses include-generated=true", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo?include-generated=true"));
+    expect(result.includeGenerated).toBe(true);
+  });
+});
+
+describe("parseRequest – max_tokens", () => {
+  it("is undefined when absent", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=a/b")).maxTokens).toBeUndefined();
+  });
+
+  it("parses a positive integer", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo?max_tokens=50000"));
+    expect(result.maxTokens).toBe(50000);
+  });
+
+  it("throws ParseError for invalid values", () => {
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&max_tokens=0"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&max_tokens=lots"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&max_tokens=1.5"))).toThrow(ParseError);
+  });
+
+  it("accepts the kebab-case max-tokens spelling", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=a/b&max-tokens=2000")).maxTokens).toBe(2000);
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&max-tokens=0"))).toThrow(/max-tokens/);
+  });
+});
+
+describe("parseRequest – order", () => {
+  it("is undefined when absent", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=a/b")).order).toBeUndefined();
+  });
+
+  it("accepts ranked, path, and size", () => {
+    for (const order of ["ranked", "path", "size"] as const) {
+      expect(parseRequest(makeRequest(`/ingest?repo=a/b&order=${order}`)).order).toBe(order);
+    }
+  });
+
+  it("throws ParseError for an unknown order", () => {
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&order=random"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – GitLab", () => {
+  it("parses a bare project URL in a nested group", () => {
+    const result = parseRequest(makeRequest("/https://gitlab.com/group/subgroup/repo"));
+    expect(result.host).toBe("gitlab.com");
+    expect(result.owner).toBe("group/subgroup");
+    expect(result.repo).toBe("repo");
+    expect(result.ref).toBeUndefined();
+  });
+
+  it("parses /-/tree/ref/path URLs", () => {
+    const result = parseRequest(makeRequest("/https://gitlab.com/group/sub/repo/-/tree/v1.2/src/lib"));
+    expect(result.owner).toBe("group/sub");
+    expect(result.repo).toBe("repo");
+    expect(result.ref).toBe("v1.2");
+    expect(result.path).toBe("src/lib");
+  });
+
+  it("accepts host=gitlab.com on the /ingest form", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=group/sub/repo&host=gitlab.com"));
+    expect(result.host).toBe("gitlab.com");
+    expect(result.owner).toBe("group/sub");
+    expect(result.repo).toBe("repo");
+  });
+
+  it("leaves host unset for GitHub", () => {
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo")).host).toBeUndefined();
+    expect(parseRequest(makeRequest("/ingest?repo=owner/repo&host=github.com")).host).toBeUndefined();
+  });
+
+  it("throws ParseError for unsupported hosts and incomplete GitLab paths", () => {
+    expect(() => parseRequest(makeRequest("/https://example.com/owner/repo"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&host=example.com"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/https://gitlab.com/group"))).toThrow(ParseError);
+  });
+
+  it("does not take Object prototype keys for hosts", () => {
+    for (const host of ["constructor", "__proto__", "toString"]) {
+      expect(() => parseRequest(makeRequest(`/ingest?repo=a/b&host=${host}`))).toThrow(ParseError);
+    }
+  });
+});
+
+describe("parseRequest – blob URLs", () => {
+  it("parses a blob URL as a single file", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/blob/main/src/x.ts"));
+    expect(result.ref).toBe("main");
+    expect(result.path).toBe("src/x.ts");
+    expect(result.blob).toEqual({ lines: undefined });
+  });
+
+  it("reads the line range from a fragment, encoded or not", () => {
+    const encoded = parseRequest(makeRequest("/https://github.com/owner/repo/blob/main/src/x.ts%23L10-L80"));
+    expect(encoded.blob?.lines).toEqual({ start: 10, end: 80 });
+    expect(encoded.path).toBe("src/x.ts");
+
+    const fragment = parseRequest(new Request("https://gitprism.dev/https://github.com/o/r/blob/main/x.ts#L7"));
+    expect(fragment.blob?.lines).toEqual({ start: 7, end: 7 });
+  });
+
+  it("accepts ?lines= and GitHub column anchors", () => {
+    expect(parseRequest(makeRequest("/https://github.com/o/r/blob/main/x.ts?lines=3-9")).blob?.lines).toEqual({
+      start: 3,
+      end: 9,
+    });
+    expect(parseRequest(makeRequest("/https://github.com/o/r/blob/main/x.ts%23L3C2-L9C14")).blob?.lines).toEqual({
+      start: 3,
+      end: 9,
+    });
+  });
+
+  it("parses GitLab /-/blob/ URLs with L10-80 ranges", () => {
+    const result = parseRequest(makeRequest("/https://gitlab.com/group/repo/-/blob/dev/lib/a.rb%23L10-80"));
+    expect(result.host).toBe("gitlab.com");
+    expect(result.ref).toBe("dev");
+    expect(result.path).toBe("lib/a.rb");
+    expect(result.blob?.lines).toEqual({ start: 10, end: 80 });
+  });
+
+  it("throws ParseError for bad ranges and for lines on non-blob URLs", () => {
+    expect(() => parseRequest(makeRequest("/https://github.com/o/r/blob/main/x.ts?lines=9-3"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/https://github.com/o/r/blob/main/x.ts?lines=abc"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/https://github.com/o/r/tree/main?lines=1-2"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – pull requests", () => {
+  it("parses a pull request URL", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/pull/123"));
+    expect(result.owner).toBe("owner");
+    expect(result.repo).toBe("repo");
+    expect(result.pull).toEqual({ number: 123, includeContents: false });
+    expect(result.ref).toBeUndefined();
+  });
+
+  it("accepts the /files tab and include-contents", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/pull/9/files?include-contents=true&exclude=**/*.lock"));
+    expect(result.pull).toEqual({ number: 9, includeContents: true });
+    expect(result.exclude).toEqual(["**/*.lock"]);
+  });
+
+  it("throws ParseError for an invalid pull request number", () => {
+    expect(() => parseRequest(makeRequest("/https://github.com/owner/repo/pull/abc"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – compare", () => {
+  it("parses a compare URL with refs containing slashes", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/compare/v1.0.0...feature/login?path=src"));
+    expect(result.compare).toEqual({ base: "v1.0.0", head: "feature/login" });
+    expect(result.path).toBe("src");
+    expect(result.ref).toBeUndefined();
+  });
+
+  it("accepts a two-dot range", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/compare/main..dev"));
+    expect(result.compare).toEqual({ base: "main", head: "dev" });
+  });
+
+  it("parses base and head on /ingest", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=owner/repo&base=v1&head=v2&path=docs"));
+    expect(result.compare).toEqual({ base: "v1", head: "v2" });
+    expect(result.path).toBe("docs");
+  });
+
+  it("passes include-generated through on both compare forms", () => {
+    const query = parseRequest(makeRequest("/ingest?repo=owner/repo&base=v1&head=v2&include-generated=true"));
+    expect(query.includeGenerated).toBe(true);
+    const compareUrl = parseRequest(makeRequest("/https://github.com/owner/repo/compare/v1...v2?include-generated=true"));
+    expect(compareUrl.includeGenerated).toBe(true);
+  });
+
+  it("throws ParseError when only one side is given", () => {
+    expect(() => parseRequest(makeRequest("/ingest?repo=owner/repo&base=v1"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/https://github.com/owner/repo/compare/main"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – commit URLs", () => {
+  it("parses a commit URL with the SHA as the ref", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/commit/abc1234"));
+    expect(result.ref).toBe("abc1234");
+    expect(result.commit).toEqual({ includeTree: false });
+  });
+
+  it("includes the tree only when a detail level is named", () => {
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo/commit/abc1234?detail=structure")).commit)
+      .toEqual({ includeTree: true });
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo/commit/abc1234?file-list")).commit)
+      .toEqual({ includeTree: true });
+    const withContents = parseRequest(makeRequest("/https://github.com/owner/repo/commit/abc1234?file-contents"));
+    expect(withContents.commit).toEqual({ includeTree: true });
+    expect(withContents.detail).toEqual(["file-contents"]);
+  });
+
+  it("throws ParseError for something that is not a SHA", () => {
+    expect(() => parseRequest(makeRequest("/https://github.com/owner/repo/commit/main"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – release URLs", () => {
+  it("parses a release tag URL, keeping slashes in the tag", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/releases/tag/pkg/v1.2.3"));
+    expect(result.release).toEqual({ tag: "pkg/v1.2.3" });
+    expect(result.ref).toBe("pkg/v1.2.3");
+  });
+
+  it("parses the latest release URL with no ref", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/releases/latest?detail=summary"));
+    expect(result.release).toEqual({});
+    expect(result.ref).toBeUndefined();
+    expect(result.detail).toEqual(["summary"]);
+  });
+});
+
+describe("parseRequest – gists", () => {
+  it("parses a gist URL with the ID as the repo", () => {
+    const result = parseRequest(makeRequest("/https://gist.github.com/ada/0a1b2c3d4e?detail=file-list"));
+    expect(result.host).toBe("gist.github.com");
+    expect(result.owner).toBe("ada");
+    expect(result.repo).toBe("0a1b2c3d4e");
+    expect(result.ref).toBeUndefined();
+    expect(result.detail).toEqual(["file-list"]);
+  });
+
+  it("takes a revision as the ref", () => {
+    const revision = "f".repeat(40);
+    expect(parseRequest(makeRequest(`/https://gist.github.com/ada/0a1b2c3d4e/${revision}`)).ref).toBe(revision);
+  });
+
+  it("throws ParseError for a bare ID or a bad revision", () => {
+    expect(() => parseRequest(makeRequest("/https://gist.github.com/0a1b2c3d4e"))).toThrow(ParseError);
+    expect(() => parseRequest(makeRequest("/https://gist.github.com/ada/0a1b2c3d4e/main"))).toThrow(ParseError);
+  });
+});
+
+describe("parseRequest – refs that may contain slashes", () => {
+  it("keeps the raw ref and path for later splitting", () => {
+    const result = parseRequest(makeRequest("/https://github.com/owner/repo/tree/feature/login-form/src"));
+    expect(result.ref).toBe("feature");
+    expect(result.path).toBe("login-form/src");
+    expect(result.refAndPath).toBe("feature/login-form/src");
+  });
+
+  it("leaves unambiguous URLs alone", () => {
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo/tree/main")).refAndPath).toBeUndefined();
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo/blob/main/README.md")).refAndPath).toBeUndefined();
+  });
+});
+
+describe("parseRequest – Bitbucket", () => {
+  it("parses a bare repository URL", () => {
+    const result = parseRequest(makeRequest("/https://bitbucket.org/acme/widgets"));
+    expect(result.host).toBe("bitbucket.org");
+    expect(result.owner).toBe("acme");
+    expect(result.repo).toBe("widgets");
+    expect(result.ref).toBeUndefined();
+  });
+
+  it("parses /src/ref/path URLs", () => {
+    const result = parseRequest(makeRequest("/https://bitbucket.org/acme/widgets/src/develop/lib/core/"));
+    expect(result.ref).toBe("develop");
+    expect(result.path).toBe("lib/core");
+  });
+
+  it("accepts host=bitbucket.org on the /ingest form", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=acme/widgets&host=bitbucket.org"));
+    expect(result.host).toBe("bitbucket.org");
+    expect(result.owner).toBe("acme");
+  });
+});
+
+describe("parseRequest – self-hosted forges", () => {
+  const env = {
+    FORGE_HOSTS: JSON.stringify([
+      { host: "ghe.example.com", type: "github-enterprise" },
+      { host: "git.example.com", type: "gitea" },
+    ]),
+  } as unknown as Env;
+
+  it("rejects self-hosted hosts that are not allowlisted", () => {
+    expect(() => parseRequest(makeRequest("/https://ghe.example.com/team/service"))).toThrow(ParseError);
+  });
+
+  it("parses GitHub Enterprise URLs like github.com", () => {
+    const result = parseRequest(makeRequest("/https://ghe.example.com/team/service/tree/main/src"), env);
+    expect(result.host).toBe("ghe.example.com");
+    expect(result.owner).toBe("team");
+    expect(result.repo).toBe("service");
+    expect(result.ref).toBe("main");
+    expect(result.path).toBe("src");
+  });
+
+  it("parses Gitea /src/branch/ref/path URLs", () => {
+    const result = parseRequest(makeRequest("/https://git.example.com/team/service/src/branch/dev/lib/util"), env);
+    expect(result.host).toBe("git.example.com");
+    expect(result.ref).toBe("dev");
+    expect(result.path).toBe("lib/util");
+  });
+
+  it("accepts an allowlisted host on the /ingest form", () => {
+    const result = parseRequest(makeRequest("/ingest?repo=team/service&host=git.example.com"), env);
+    expect(result.host).toBe("git.example.com");
+    expect(result.owner).toBe("team");
+  });
+});
+
+describe("parseRequest – cursor and page", () => {
+  const sha = "a".repeat(40);
+
+  it("round-trips a cursor issued for the same repo", () => {
+    const cursor = encodeCursor({ repo: "owner/repo", ref: sha, offset: 120 });
+    const result = parseRequest(makeRequest(`/https://github.com/owner/repo?cursor=${cursor}`));
+    expect(result.cursor).toEqual({ repo: "owner/repo", ref: sha, offset: 120 });
+  });
+
+  it("throws ParseError for a cursor issued for another repo", () => {
+    const cursor = encodeCursor({ repo: "other/repo", ref: sha, offset: 1 });
+    expect(() => parseRequest(makeRequest(`/ingest?repo=owner/repo&cursor=${cursor}`))).toThrow(ParseError);
+  });
+
+  it("throws ParseError for a malformed cursor", () => {
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&cursor=not-a-cursor"))).toThrow(ParseError);
+  });
+
+  it("parses page as a positive integer", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=a/b&page=3")).page).toBe(3);
+    expect(() => parseRequest(makeRequest("/ingest?repo=a/b&page=0"))).toThrow(ParseError);
+  });
+});
+
 describe("parseRequest – URL-encoded shorthand (percent-encoded colon)", () => {
   it("parses %3A-encoded colon in https scheme (single slash after)", () => {
     // Browsers sometimes encode the colon: https%3A//github.com/...
@@ -213,3 +593,135 @@ describe("parseRequest – abbreviated detail shorthand (?summary, ?structure, e
     expect(result.path).toBe("src");
   });
 });
+
+describe("parseRequest – format", () => {
+  it("parses ?format=json on both forms", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=owner/repo&format=json")).format).toBe("json");
+    expect(parseRequest(makeRequest("/https://github.com/owner/repo/pull/3?format=json")).format).toBe("json");
+  });
+
+  it("leaves format undefined when not given", () => {
+    expect(parseRequest(makeRequest("/ingest?repo=owner/repo")).format).toBeUndefined();
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => parseRequest(makeRequest("/ingest?repo=owner/repo&format=yaml"))).toThrow(
+      expect.objectContaining({ field: "format" })
+    );
+  });
+
+  it("negotiates from the Accept header", () => {
+    expect(formatFromAccept("application/json")).toBe("json");
+    expect(formatFromAccept("text/markdown, application/json")).toBe("markdown");
+    expect(formatFromAccept("application/json;q=0.9, */*")).toBe("json");
+    expect(formatFromAccept("application/xml")).toBe("xml");
+    expect(formatFromAccept("text/html,*/*;q=0.8")).toBeUndefined();
+    expect(formatFromAccept(null)).toBeUndefined();
+  });
+});
+
+describe("parseIngestBody – JSON body", () => {
+  it("parses repo with options", () => {
+    const result = parseIngestBody({
+      repo: "owner/repo",
+      ref: "main",
+      path: "src",
+      detail: ["summary", "structure"],
+      include: ["src/{a,b}/**/*.ts"],
+      exclude: ["**/*.test.ts"],
+      max_tokens: 5000,
+      order: "path",
+      no_cache: true,
+    });
+    expect(result.owner).toBe("owner");
+    expect(result.repo).toBe("repo");
+    expect(result.ref).toBe("main");
+    expect(result.path).toBe("src");
+    expect(result.detail).toEqual(["summary", "structure"]);
+    // Globs are taken as given, commas and all
+    expect(result.include).toEqual(["src/{a,b}/**/*.ts"]);
+    expect(result.exclude).toEqual(["**/*.test.ts"]);
+    expect(result.maxTokens).toBe(5000);
+    expect(result.order).toBe("path");
+    expect(result.noCache).toBe(true);
+  });
+
+  it("parses a forge URL like the MCP tool", () => {
+    const result = parseIngestBody({
+      url: "https://github.com/owner/repo/blob/main/src/index.ts",
+      lines: "10-20",
+    });
+    expect(result.path).toBe("src/index.ts");
+    expect(result.blob).toEqual({ lines: { start: 10, end: 20 } });
+  });
+
+  it("rejects location fields a forge URL would ignore, naming the field", () => {
+    const fieldOf = (body: object) => {
+      try {
+        parseIngestBody(body);
+      } catch (e) {
+        return (e as ParseError).field;
+      }
+    };
+    expect(fieldOf({ url: "https://github.com/owner/repo", ref: "dev" })).toBe("ref");
+    expect(fieldOf({ url: "https://github.com/owner/repo", host: "gitlab.com" })).toBe("host");
+    expect(fieldOf({ url: "https://github.com/owner/repo/tree/main", path: "src" })).toBe("path");
+  });
+
+  it("applies location fields to compare URLs and owner/repo shorthand", () => {
+    const compare = parseIngestBody({ url: "https://github.com/owner/repo/compare/v1...main", path: "src" });
+    expect(compare.path).toBe("src");
+    const shorthand = parseIngestBody({ url: "owner/repo", ref: "dev", path: "src" });
+    expect(shorthand.ref).toBe("dev");
+    expect(shorthand.path).toBe("src");
+  });
+
+  it("sets include-contents on pull request URLs", () => {
+    const result = parseIngestBody({ url: "https://github.com/owner/repo/pull/7", include_contents: true });
+    expect(result.pull).toEqual({ number: 7, includeContents: true });
+  });
+
+  it("uses only the token for the request's forge", () => {
+    const github = parseIngestBody({ repo: "owner/repo", github_token: "ghp_x", gitlab_token: "glpat_y" });
+    expect(github.userToken).toBe("ghp_x");
+    const gitlab = parseIngestBody({ repo: "group/repo", host: "gitlab.com", github_token: "ghp_x" });
+    expect(gitlab.userToken).toBeUndefined();
+  });
+
+  it("points at the bad field for schema errors", () => {
+    const err = (() => {
+      try {
+        parseIngestBody({ repo: "owner/repo", include: ["src", 4] });
+      } catch (e) {
+        return e as ParseError;
+      }
+    })();
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err?.field).toBe("include.1");
+  });
+
+  it("points at unknown fields", () => {
+    expect(() => parseIngestBody({ repo: "owner/repo", detial: "summary" })).toThrow(
+      expect.objectContaining({ field: "detial" })
+    );
+  });
+
+  it("points at the field parseRequest rejects", () => {
+    expect(() => parseIngestBody({ repo: "owner/repo", host: "example.com" })).toThrow(
+      expect.objectContaining({ field: "host" })
+    );
+    expect(() => parseIngestBody({ repo: "owner/repo", base: "main" })).toThrow(
+      expect.objectContaining({ field: "head" })
+    );
+    expect(() => parseIngestBody({ url: "nonsense" })).toThrow(expect.objectContaining({ field: "url" }));
+  });
+
+  it("requires exactly one of url or repo", () => {
+    expect(() => parseIngestBody({})).toThrow(ParseError);
+    expect(() => parseIngestBody({ url: "https://github.com/a/b", repo: "a/b" })).toThrow(ParseError);
+  });
+
+  it("rejects a body that is not an object", () => {
+    expect(() => parseIngestBody(["owner/repo"])).toThrow(ParseError);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createBitbucketProvider } from "../../../src/engine/providers/bitbucket";
+import { RepoNotFoundError, SourceApiError, ZipTooLargeError } from "../../../src/types";
+import type { Env } from "../../../src/types";
+
+const makeEnv = (token?: string): Env =>
+  ({
+    BITBUCKET_TOKEN: token,
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+  }) as unknown as Env;
+
+const mockFetch = () => fetch as ReturnType<typeof vi.fn>;
+const lastCall = () => mockFetch().mock.calls[mockFetch().mock.calls.length - 1] as [string, RequestInit];
+const authHeader = () => (lastCall()[1].headers as Record<string, string>)["Authorization"];
+
+describe("Bitbucket provider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves the main branch", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ mainbranch: { name: "master" } }), { status: 200 }));
+    const ref = await createBitbucketProvider(makeEnv()).resolveDefaultRef("acme", "widgets");
+    expect(ref).toBe("master");
+    expect(lastCall()[0]).toBe("https://api.bitbucket.org/2.0/repositories/acme/widgets");
+  });
+
+  it("sends access tokens as Bearer and username:password pairs as Basic auth", async () => {
+    const provider = createBitbucketProvider(makeEnv("server-token"));
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ mainbranch: { name: "main" } }), { status: 200 }));
+    await provider.resolveDefaultRef("acme", "widgets");
+    expect(authHeader()).toBe("Bearer server-token");
+
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ mainbranch: { name: "main" } }), { status: 200 }));
+    await provider.resolveDefaultRef("acme", "widgets", "ada:app-password");
+    expect(authHeader()).toBe(`Basic ${btoa("ada:app-password")}`);
+  });
+
+  it("encodes Basic credentials as UTF-8", async () => {
+    const provider = createBitbucketProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ mainbranch: { name: "main" } }), { status: 200 }));
+    await provider.resolveDefaultRef("acme", "widgets", "zoë:pässwörd€");
+    const bytes = Uint8Array.from(atob(authHeader().slice("Basic ".length)), (c) => c.charCodeAt(0));
+    expect(new TextDecoder().decode(bytes)).toBe("zoë:pässwörd€");
+  });
+
+  it("resolves a ref to its commit hash, or undefined on failure", async () => {
+    const provider = createBitbucketProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ hash: "c".repeat(40) }), { status: 200 }));
+    expect(await provider.resolveRefToSha("acme", "widgets", "main")).toBe("c".repeat(40));
+    expect(lastCall()[0]).toBe("https://api.bitbucket.org/2.0/repositories/acme/widgets/commit/main");
+
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    expect(await provider.resolveRefToSha("acme", "widgets", "missing")).toBeUndefined();
+  });
+
+  it("downloads the archive from bitbucket.org/<workspace>/<repo>/get/<ref>.zip", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(new Uint8Array([7]), { status: 200 }));
+    const result = await createBitbucketProvider(makeEnv()).fetchArchive("acme", "widgets", "v2.0");
+    expect(lastCall()[0]).toBe("https://bitbucket.org/acme/widgets/get/v2.0.zip");
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(new Uint8Array([7]));
+  });
+
+  it("rejects archives above MAX_ZIP_BYTES and tolerates a failed HEAD", async () => {
+    const provider = createBitbucketProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "60000000" } }));
+    await expect(provider.checkArchiveSize("acme", "widgets", "main")).rejects.toThrow(ZipTooLargeError);
+
+    mockFetch().mockResolvedValueOnce(new Response(null, { status: 405 }));
+    await expect(provider.checkArchiveSize("acme", "widgets", "main")).resolves.toBeUndefined();
+  });
+
+  it("maps commits to CommitInfo", async () => {
+    mockFetch().mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          values: [
+            {
+              hash: "0123456789abcdef",
+              date: "2024-05-01T10:00:00+00:00",
+              message: "Fix parser\n\nMore",
+              author: { raw: "Ada <ada@example.com>" },
+            },
+            {
+              hash: "fedcba9876543210",
+              date: "2024-04-30T10:00:00+00:00",
+              message: "Add tests",
+              author: { raw: "x <x@example.com>", user: { display_name: "Grace" } },
+            },
+          ],
+        }),
+        { status: 200 }
+      )
+    );
+    const commits = await createBitbucketProvider(makeEnv()).fetchCommits("acme", "widgets", "main", undefined, "lib");
+    expect(commits).toEqual([
+      { sha: "0123456", author: "Ada", date: "2024-05-01", message: "Fix parser" },
+      { sha: "fedcba9", author: "Grace", date: "2024-04-30", message: "Add tests" },
+    ]);
+    expect(lastCall()[0]).toBe("https://api.bitbucket.org/2.0/repositories/acme/widgets/commits/main?pagelen=10&path=lib");
+  });
+
+  it("fetches one raw file and links it with Bitbucket's line anchors", async () => {
+    const provider = createBitbucketProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response("x = 1\n", { status: 200 }));
+    await provider.fetchFile("acme", "widgets", "main", "lib/a.py");
+    expect(lastCall()[0]).toBe("https://api.bitbucket.org/2.0/repositories/acme/widgets/src/main/lib/a.py");
+    expect(provider.fileUrl("acme", "widgets", "main", "lib/a.py", { start: 3, end: 9 })).toBe(
+      "https://bitbucket.org/acme/widgets/src/main/lib/a.py#lines-3:9"
+    );
+
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(provider.fetchFile("acme", "widgets", "main", "nope.py")).rejects.toThrow("File nope.py not found");
+  });
+
+  it("maps 404 to RepoNotFoundError and 403 to SourceApiError", async () => {
+    const provider = createBitbucketProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(provider.resolveDefaultRef("acme", "private")).rejects.toThrow(RepoNotFoundError);
+
+    mockFetch().mockResolvedValueOnce(new Response("Forbidden", { status: 403 }));
+    await expect(provider.resolveDefaultRef("acme", "widgets")).rejects.toThrow(SourceApiError);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createGistProvider } from "../../../src/engine/providers/gist";
+import { GitHubApiError, RepoNotFoundError } from "../../../src/types";
+import type { Env } from "../../../src/types";
+
+const makeEnv = (): Env =>
+  ({
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+  }) as unknown as Env;
+
+const mockFetch = () => fetch as ReturnType<typeof vi.fn>;
+const lastCall = () => mockFetch().mock.calls[mockFetch().mock.calls.length - 1] as [string, RequestInit];
+
+const REVISION = "c".repeat(40);
+const gist = (files: Record<string, object>) => ({
+  id: "abc123",
+  description: "Repro for the parser crash",
+  owner: { login: "ada" },
+  history: [{ version: REVISION }],
+  files,
+});
+
+describe("Gist provider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves the latest revision once and reuses the lookup", async () => {
+    const provider = createGistProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify(gist({})), { status: 200 }));
+
+    const ref = await provider.resolveDefaultRef("ada", "abc123");
+    expect(ref).toBe(REVISION);
+    expect(lastCall()[0]).toBe("https://api.github.com/gists/abc123");
+    expect(await provider.resolveRefToSha("ada", "abc123", ref)).toBe(REVISION);
+    expect(await provider.fetchDescription?.("ada", "abc123", ref)).toBe("Repro for the parser crash");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats only a missing revision as an unknown ref", async () => {
+    const provider = createGistProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    expect(await provider.resolveRefToSha("ada", "abc123", "feature")).toBeUndefined();
+
+    mockFetch().mockResolvedValueOnce(new Response("rate limited", { status: 403 }));
+    await expect(provider.resolveRefToSha("ada", "abc123", "d".repeat(40))).rejects.toThrow(GitHubApiError);
+  });
+
+  it("lists history starting at the requested revision", async () => {
+    const revision = (version: string) => ({
+      version,
+      user: { login: "ada" },
+      committed_at: "2024-05-01T00:00:00Z",
+      change_status: { additions: 1, deletions: 0 },
+    });
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify(
+      ["a", "b", "c", "d"].map((c) => revision(c.repeat(40)))
+    ), { status: 200 }));
+
+    const commits = await createGistProvider(makeEnv()).fetchCommits("ada", "abc123", "c".repeat(40));
+    expect(commits.map((c) => c.sha)).toEqual(["ccccccc", "ddddddd"]);
+    expect(lastCall()[0]).toBe("https://api.github.com/gists/abc123/commits?per_page=100&page=1");
+  });
+
+  it("downloads the revision's zip archive", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(new Uint8Array([1, 2]), { status: 200 }));
+    await createGistProvider(makeEnv()).fetchArchive("ada", "abc123", REVISION);
+    expect(lastCall()[0]).toBe(`https://gist.github.com/ada/abc123/archive/${REVISION}.zip`);
+
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(createGistProvider(makeEnv()).fetchArchive("ada", "missing", REVISION)).rejects.toThrow(RepoNotFoundError);
+  });
+
+  it("reads files from the gist and falls back to the raw URL when truncated", async () => {
+    const provider = createGistProvider(makeEnv());
+    mockFetch()
+      .mockResolvedValueOnce(new Response(JSON.stringify(gist({
+        "small.py": { size: 6, raw_url: "https://gist.githubusercontent.com/small.py", content: "print()" },
+        "big.txt": { size: 9, raw_url: "https://gist.githubusercontent.com/big.txt", truncated: true, content: "trunc" },
+      })), { status: 200 }))
+      .mockResolvedValueOnce(new Response("full text", { status: 200 }));
+
+    expect(new TextDecoder().decode(await provider.fetchFile("ada", "abc123", REVISION, "small.py"))).toBe("print()");
+    expect(new TextDecoder().decode(await provider.fetchFile("ada", "abc123", REVISION, "big.txt"))).toBe("full text");
+    expect(lastCall()[0]).toBe("https://gist.githubusercontent.com/big.txt");
+    await expect(provider.fetchFile("ada", "abc123", REVISION, "nope.md")).rejects.toThrow(RepoNotFoundError);
+  });
+
+  it("links files with GitHub's gist anchors", () => {
+    const url = createGistProvider(makeEnv()).fileUrl("ada", "abc123", REVISION, "hello_world.py", { start: 3, end: 5 });
+    expect(url).toBe(`https://gist.github.com/ada/abc123/${REVISION}#file-hello-world-py-L3-L5`);
+  });
+});
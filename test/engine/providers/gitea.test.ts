@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createGiteaProvider } from "../../../src/engine/providers/gitea";
+import { RepoNotFoundError, SourceApiError, ZipTooLargeError } from "../../../src/types";
+import type { Env } from "../../../src/types";
+
+const makeEnv = (): Env =>
+  ({
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+  }) as unknown as Env;
+
+const mockFetch = () => fetch as ReturnType<typeof vi.fn>;
+const lastCall = () => mockFetch().mock.calls[mockFetch().mock.calls.length - 1] as [string, RequestInit];
+
+const commit = (sha: string, message: string) => ({
+  sha,
+  commit: { author: { name: "Ada", date: "2024-05-01T10:00:00Z" }, message },
+});
+
+describe("Gitea provider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads the default branch from the instance's v1 API", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ default_branch: "trunk" }), { status: 200 }));
+    const ref = await createGiteaProvider(makeEnv(), "git.example.com").resolveDefaultRef("team", "service");
+    expect(ref).toBe("trunk");
+    expect(lastCall()[0]).toBe("https://git.example.com/api/v1/repos/team/service");
+  });
+
+  it("prefers the user token over the server token", async () => {
+    const provider = createGiteaProvider(makeEnv(), "git.example.com", "server-token");
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ default_branch: "main" }), { status: 200 }));
+    await provider.resolveDefaultRef("team", "service");
+    expect((lastCall()[1].headers as Record<string, string>)["Authorization"]).toBe("token server-token");
+
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ default_branch: "main" }), { status: 200 }));
+    await provider.resolveDefaultRef("team", "service", "user-token");
+    expect((lastCall()[1].headers as Record<string, string>)["Authorization"]).toBe("token user-token");
+  });
+
+  it("resolves a ref through the commits list", async () => {
+    const provider = createGiteaProvider(makeEnv(), "git.example.com");
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify([commit("b".repeat(40), "x")]), { status: 200 }));
+    expect(await provider.resolveRefToSha("team", "service", "main")).toBe("b".repeat(40));
+    expect(lastCall()[0]).toContain("/repos/team/service/commits?sha=main&limit=1");
+
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    expect(await provider.resolveRefToSha("team", "service", "missing")).toBeUndefined();
+  });
+
+  it("downloads the zip archive for a ref", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(new Uint8Array([1, 2]), { status: 200 }));
+    const result = await createGiteaProvider(makeEnv(), "git.example.com").fetchArchive("team", "service", "v1.0");
+    expect(lastCall()[0]).toBe("https://git.example.com/api/v1/repos/team/service/archive/v1.0.zip");
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it("enforces MAX_ZIP_BYTES when HEAD answers, and tolerates instances that reject HEAD", async () => {
+    const provider = createGiteaProvider(makeEnv(), "git.example.com");
+    mockFetch().mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "60000000" } }));
+    await expect(provider.checkArchiveSize("team", "service", "main")).rejects.toThrow(ZipTooLargeError);
+
+    mockFetch().mockResolvedValueOnce(new Response(null, { status: 405 }));
+    await expect(provider.checkArchiveSize("team", "service", "main")).resolves.toBeUndefined();
+  });
+
+  it("maps commits to CommitInfo", async () => {
+    mockFetch().mockResolvedValueOnce(
+      new Response(JSON.stringify([commit("0123456789abcdef", "Fix parser\n\nDetails")]), { status: 200 })
+    );
+    const commits = await createGiteaProvider(makeEnv(), "git.example.com").fetchCommits(
+      "team", "service", "main", undefined, "src"
+    );
+    expect(commits).toEqual([{ sha: "0123456", author: "Ada", date: "2024-05-01", message: "Fix parser" }]);
+    expect(lastCall()[0]).toContain("path=src");
+  });
+
+  it("maps 404 to RepoNotFoundError and 401 to SourceApiError", async () => {
+    const provider = createGiteaProvider(makeEnv(), "git.example.com");
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(provider.resolveDefaultRef("team", "private")).rejects.toThrow(RepoNotFoundError);
+
+    mockFetch().mockResolvedValueOnce(new Response("Unauthorized", { status: 401 }));
+    await expect(provider.resolveDefaultRef("team", "service")).rejects.toThrow(SourceApiError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createGitLabProvider } from "../../../src/engine/providers/gitlab";
+import { RepoNotFoundError, SourceApiError, ZipTooLargeError } from "../../../src/types";
+import type { Env } from "../../../src/types";
+
+const makeEnv = (token?: string): Env =>
+  ({
+    GITLAB_TOKEN: token,
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+  }) as unknown as Env;
+
+const mockFetch = () => fetch as ReturnType<typeof vi.fn>;
+const lastCall = () => mockFetch().mock.calls[mockFetch().mock.calls.length - 1] as [string, RequestInit];
+
+describe("GitLab provider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("addresses nested-group projects by their encoded full path", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ default_branch: "develop" }), { status: 200 }));
+    const ref = await createGitLabProvider(makeEnv()).resolveDefaultRef("group/subgroup", "repo");
+    expect(ref).toBe("develop");
+    expect(lastCall()[0]).toBe("https://gitlab.com/api/v4/projects/group%2Fsubgroup%2Frepo");
+  });
+
+  it("sends the user token before the server token", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ default_branch: "main" }), { status: 200 }));
+    await createGitLabProvider(makeEnv("server-token")).resolveDefaultRef("group", "repo", "user-token");
+    expect((lastCall()[1].headers as Record<string, string>)["PRIVATE-TOKEN"]).toBe("user-token");
+  });
+
+  it("resolves a ref to its commit SHA, or undefined on failure", async () => {
+    const provider = createGitLabProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response(JSON.stringify({ id: "a".repeat(40) }), { status: 200 }));
+    expect(await provider.resolveRefToSha("group", "repo", "feature/x")).toBe("a".repeat(40));
+    expect(lastCall()[0]).toContain("/repository/commits/feature%2Fx");
+
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    expect(await provider.resolveRefToSha("group", "repo", "missing")).toBeUndefined();
+  });
+
+  it("streams the archive with GitLab rate limit headers", async () => {
+    mockFetch().mockResolvedValueOnce(
+      new Response(new Uint8Array([1, 2, 3]), { status: 200, headers: { "RateLimit-Remaining": "99" } })
+    );
+    const result = await createGitLabProvider(makeEnv()).fetchArchive("group", "repo", "main");
+    expect(lastCall()[0]).toBe("https://gitlab.com/api/v4/projects/group%2Frepo/repository/archive.zip?sha=main");
+    expect(result.rateLimitRemaining).toBe("99");
+    expect(new Uint8Array(await new Response(result.body).arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("rejects archives above MAX_ZIP_BYTES in the pre-flight check", async () => {
+    mockFetch().mockResolvedValueOnce(new Response(null, { status: 200, headers: { "Content-Length": "60000000" } }));
+    await expect(createGitLabProvider(makeEnv()).checkArchiveSize("group", "repo", "main")).rejects.toThrow(
+      ZipTooLargeError
+    );
+    expect(lastCall()[1].method).toBe("HEAD");
+  });
+
+  it("maps commits to CommitInfo", async () => {
+    mockFetch().mockResolvedValueOnce(
+      new Response(
+        JSON.stringify([
+          { id: "0123456789abcdef", author_name: "Ada", authored_date: "2024-05-01T10:00:00Z", title: "Fix parser" },
+        ]),
+        { status: 200 }
+      )
+    );
+    const commits = await createGitLabProvider(makeEnv()).fetchCommits("group", "repo", "main", undefined, "src");
+    expect(commits).toEqual([{ sha: "0123456", author: "Ada", date: "2024-05-01", message: "Fix parser" }]);
+    expect(lastCall()[0]).toContain("ref_name=main");
+    expect(lastCall()[0]).toContain("path=src");
+  });
+
+  it("fetches one raw file and links it with GitLab's line anchors", async () => {
+    const provider = createGitLabProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response("puts 1\n", { status: 200 }));
+    const data = await provider.fetchFile("group", "repo", "main", "lib/a.rb");
+    expect(new TextDecoder().decode(data)).toBe("puts 1\n");
+    expect(lastCall()[0]).toBe(
+      "https://gitlab.com/api/v4/projects/group%2Frepo/repository/files/lib%2Fa.rb/raw?ref=main"
+    );
+    expect(provider.fileUrl("group", "repo", "main", "lib/a.rb", { start: 3, end: 9 })).toBe(
+      "https://gitlab.com/group/repo/-/blob/main/lib/a.rb#L3-9"
+    );
+  });
+
+  it("maps 404 to RepoNotFoundError and 429 to SourceApiError", async () => {
+    const provider = createGitLabProvider(makeEnv());
+    mockFetch().mockResolvedValueOnce(new Response("Not Found", { status: 404 }));
+    await expect(provider.resolveDefaultRef("group", "private")).rejects.toThrow(RepoNotFoundError);
+
+    mockFetch().mockResolvedValueOnce(new Response("Too Many Requests", { status: 429 }));
+    await expect(provider.resolveDefaultRef("group", "repo")).rejects.toThrow(SourceApiError);
+  });
+});
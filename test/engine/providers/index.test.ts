@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getProvider, providerKindForHost, selfHostedForges } from "../../../src/engine/providers";
+import type { Env } from "../../../src/types";
+
+const FORGES = JSON.stringify([
+  { host: "GHE.example.com", type: "github-enterprise", tokenBinding: "GHE_TOKEN" },
+  { host: "git.example.com", type: "gitea" },
+  { host: "svn.example.com", type: "subversion" },
+]);
+
+const makeEnv = (extra: Record<string, string> = {}): Env =>
+  ({
+    FORGE_HOSTS: FORGES,
+    MAX_ZIP_BYTES: "52428800",
+    MAX_OUTPUT_BYTES: "10485760",
+    MAX_FILE_COUNT: "5000",
+    CACHE_TTL_SECONDS: "3600",
+    ...extra,
+  }) as unknown as Env;
+
+describe("selfHostedForges", () => {
+  it("lowercases hosts and drops entries with unknown types", () => {
+    expect(selfHostedForges(makeEnv()).map((f) => f.host)).toEqual(["ghe.example.com", "git.example.com"]);
+  });
+
+  it("returns no forges for missing or invalid JSON", () => {
+    expect(selfHostedForges(undefined)).toEqual([]);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(selfHostedForges(makeEnv({ FORGE_HOSTS: "not json" }))).toEqual([]);
+    vi.restoreAllMocks();
+  });
+
+  it("parses FORGE_HOSTS once per env", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const env = makeEnv({ FORGE_HOSTS: "not json" });
+    selfHostedForges(env);
+    selfHostedForges(env);
+    providerKindForHost("git.example.com", env);
+    expect(error).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+
+  it("maps hosts to provider kinds", () => {
+    expect(providerKindForHost("github.com")).toBe("github");
+    expect(providerKindForHost("ghe.example.com", makeEnv())).toBe("github");
+    expect(providerKindForHost("git.example.com", makeEnv())).toBe("gitea");
+    expect(providerKindForHost("svn.example.com", makeEnv())).toBeUndefined();
+  });
+});
+
+describe("getProvider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("defaults to GitHub and picks the public forge for gitlab.com and bitbucket.org", () => {
+    expect(getProvider(undefined, makeEnv()).kind).toBe("github");
+    expect(getProvider("gitlab.com", makeEnv()).kind).toBe("gitlab");
+    expect(getProvider("gitlab.com", makeEnv()).tokenHeader).toBe("X-GitLab-Token");
+    expect(getProvider("bitbucket.org", makeEnv()).kind).toBe("bitbucket");
+  });
+
+  it("routes GitHub Enterprise hosts to /api/v3 with their own server token", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response(JSON.stringify({ default_branch: "main" }), { status: 200 })
+    );
+    const provider = getProvider("ghe.example.com", makeEnv({ GHE_TOKEN: "ghe-secret", GITHUB_TOKEN: "dotcom" }));
+    expect(provider.kind).toBe("github");
+    expect(provider.tokenHeader).toBe("X-Forge-Token");
+    expect(provider.hasServerToken).toBe(true);
+
+    await provider.resolveDefaultRef("team", "service");
+    const [url, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://ghe.example.com/api/v3/repos/team/service");
+    expect((init.headers as Record<string, string>)["Authorization"]).toBe("Bearer ghe-secret");
+  });
+
+  it("never sends GITHUB_TOKEN to a GitHub Enterprise host", async () => {
+    (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      new Response(JSON.stringify({ default_branch: "main" }), { status: 200 })
+    );
+    const provider = getProvider("ghe.example.com", makeEnv({ GITHUB_TOKEN: "dotcom" }));
+    expect(provider.hasServerToken).toBe(false);
+
+    await provider.resolveDefaultRef("team", "service");
+    const [, init] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)["Authorization"]).toBeUndefined();
+  });
+
+  it("routes Gitea hosts to the Gitea provider", () => {
+    const provider = getProvider("git.example.com", makeEnv());
+    expect(provider.kind).toBe("gitea");
+    expect(provider.host).toBe("git.example.com");
+  });
+
+  it("throws for hosts that are not allowlisted", () => {
+    expect(() => getProvider("svn.example.com", makeEnv())).toThrow();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { ingestPullRequest } from "../../src/engine/pull";
+import { ParseError, RepoNotFoundError, type PullRequestResult } from "../../src/types";
+import type { SourceProvider } from "../../src/engine/providers";
+
+const HEAD = "b".repeat(40);
+
+function makePull(): PullRequestResult {
+  return {
+    owner: "owner",
+    repo: "repo",
+    number: 5,
+    title: "Change things",
+    body: "",
+    author: "ada",
+    state: "open",
+    url: "https://github.com/owner/repo/pull/5",
+    baseRef: "main",
+    baseSha: "a".repeat(40),
+    headRef: "change",
+    headSha: HEAD,
+    headLabel: "ada:change",
+    additions: 6,
+    deletions: 3,
+    changedFiles: 4,
+    files: [
+      { path: "src/a.ts", status: "modified", additions: 2, deletions: 1, patch: "@@ a @@" },
+      { path: "src/gone.ts", status: "removed", additions: 0, deletions: 2, patch: "@@ gone @@" },
+      { path: "package-lock.json", status: "modified", additions: 4, deletions: 0, patch: "@@ lock @@" },
+      { path: "img.png", status: "added", additions: 0, deletions: 0 },
+    ],
+    truncated: false,
+  };
+}
+
+function makeProvider(files: Record<string, Uint8Array | string> = {}): SourceProvider {
+  return {
+    host: "github.com",
+    fetchPullRequest: vi.fn().mockImplementation(async () => makePull()),
+    fetchFile: vi.fn().mockImplementation(async (_o: string, _r: string, _ref: string, path: string) => {
+      const content = files[path] ?? "";
+      return typeof content === "string" ? new TextEncoder().encode(content) : content;
+    }),
+  } as unknown as SourceProvider;
+}
+
+const limits = { maxOutputBytes: 10_000, maxFileCount: 100 };
+
+describe("ingestPullRequest", () => {
+  it("returns the diffs without fetching file contents by default", async () => {
+    const provider = makeProvider();
+    const pr = await ingestPullRequest(provider, "owner", "repo", 5, limits);
+    expect(pr.files.map((f) => f.patch)).toEqual(["@@ a @@", "@@ gone @@", "@@ lock @@", undefined]);
+    expect(provider.fetchFile).not.toHaveBeenCalled();
+  });
+
+  it("applies include/exclude globs to the changed files", async () => {
+    const pr = await ingestPullRequest(makeProvider(), "owner", "repo", 5, { ...limits, exclude: ["*.json"] });
+    expect(pr.files.map((f) => f.path)).toEqual(["src/a.ts", "src/gone.ts", "img.png"]);
+  });
+
+  it("fetches head contents of touched files only, skipping removed and binary files", async () => {
+    const provider = makeProvider({
+      "src/a.ts": "export const a = 2;\n",
+      "package-lock.json": "{}\n",
+      "img.png": new Uint8Array([0x89, 0x00]),
+    });
+    const pr = await ingestPullRequest(provider, "owner", "repo", 5, { ...limits, includeContents: true });
+    expect(provider.fetchFile).toHaveBeenCalledWith("owner", "repo", HEAD, "src/a.ts", undefined);
+    expect(provider.fetchFile).not.toHaveBeenCalledWith("owner", "repo", HEAD, "src/gone.ts", undefined);
+    expect(pr.files.map((f) => f.content)).toEqual(["export const a = 2;\n", undefined, "{}\n", undefined]);
+  });
+
+  it("drops contents past the output limit and says so", async () => {
+    const provider = makeProvider({ "src/a.ts": "x".repeat(50), "package-lock.json": "y".repeat(50) });
+    const pr = await ingestPullRequest(provider, "owner", "repo", 5, {
+      ...limits,
+      maxOutputBytes: 80,
+      includeContents: true,
+    });
+    expect(pr.files[0].content).toBe("x".repeat(50));
+    expect(pr.files[2].content).toBeUndefined();
+    expect(pr.truncated).toBe(true);
+    expect(pr.truncationMessage).toContain("contents of package-lock.json");
+  });
+
+  it("records files whose contents cannot be fetched instead of failing", async () => {
+    const provider = makeProvider({ "package-lock.json": "{}\n" });
+    (provider.fetchFile as ReturnType<typeof vi.fn>).mockImplementationOnce(async () => {
+      throw new RepoNotFoundError("File src/a.ts not found in owner/repo.");
+    });
+    const pr = await ingestPullRequest(provider, "owner", "repo", 5, { ...limits, includeContents: true });
+    expect(pr.files[0].content).toBeUndefined();
+    expect(pr.files[2].content).toBe("{}\n");
+    expect(pr.truncated).toBe(true);
+    expect(pr.truncationMessage).toContain("contents of src/a.ts (could not be fetched)");
+  });
+
+  it("marks the result truncated when the forge lists fewer files than changed", async () => {
+    const provider = makeProvider();
+    (provider.fetchPullRequest as ReturnType<typeof vi.fn>).mockImplementationOnce(async () => ({
+      ...makePull(),
+      changedFiles: 3500,
+    }));
+    const pr = await ingestPullRequest(provider, "owner", "repo", 5, limits);
+    expect(pr.truncated).toBe(true);
+    expect(pr.truncationMessage).toContain("listed only 4 of 3500 changed files");
+  });
+
+  it("throws ParseError for forges without pull request support", async () => {
+    const provider = { host: "bitbucket.org" } as unknown as SourceProvider;
+    await expect(ingestPullRequest(provider, "owner", "repo", 5, limits)).rejects.toThrow(ParseError);
+  });
+});
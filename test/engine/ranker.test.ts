@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { classifyFile, orderFiles, FileTier } from "../../src/engine/ranker";
+
+describe("classifyFile", () => {
+  it("ranks READMEs first", () => {
+    expect(classifyFile("README.md")).toBe(FileTier.Readme);
+    expect(classifyFile("packages/api/readme.rst")).toBe(FileTier.Readme);
+  });
+
+  it("recognises manifests", () => {
+    expect(classifyFile("package.json")).toBe(FileTier.Manifest);
+    expect(classifyFile("Cargo.toml")).toBe(FileTier.Manifest);
+    expect(classifyFile("go.mod")).toBe(FileTier.Manifest);
+    expect(classifyFile("Dockerfile")).toBe(FileTier.Manifest);
+    expect(classifyFile("src/App.csproj")).toBe(FileTier.Manifest);
+  });
+
+  it("recognises entry points at the root, in src/, and under cmd/", () => {
+    expect(classifyFile("index.ts")).toBe(FileTier.EntryPoint);
+    expect(classifyFile("src/main.rs")).toBe(FileTier.EntryPoint);
+    expect(classifyFile("cmd/server/main.go")).toBe(FileTier.EntryPoint);
+    expect(classifyFile("src/deep/nested/index.ts")).toBe(FileTier.Source);
+  });
+
+  it("ranks other code as source", () => {
+    expect(classifyFile("src/utils/helper.ts")).toBe(FileTier.Source);
+  });
+
+  it("ranks tests and docs below source", () => {
+    expect(classifyFile("test/api.test.ts")).toBe(FileTier.TestOrDocs);
+    expect(classifyFile("src/api.spec.ts")).toBe(FileTier.TestOrDocs);
+    expect(classifyFile("pkg/server_test.go")).toBe(FileTier.TestOrDocs);
+    expect(classifyFile("tests/test_api.py")).toBe(FileTier.TestOrDocs);
+    expect(classifyFile("docs/guide.md")).toBe(FileTier.TestOrDocs);
+    expect(classifyFile("CHANGELOG.md")).toBe(FileTier.TestOrDocs);
+  });
+
+  it("ranks generated-looking files last", () => {
+    expect(classifyFile("api/service_pb2.py")).toBe(FileTier.Generated);
+    expect(classifyFile("src/schema.generated.ts")).toBe(FileTier.Generated);
+    expect(classifyFile("src/__snapshots__/App.test.tsx.snap")).toBe(FileTier.Generated);
+    expect(classifyFile("test/fixtures/input.json")).toBe(FileTier.Generated);
+  });
+});
+
+describe("orderFiles", () => {
+  const files = [
+    { path: "test/app.test.ts", size: 10 },
+    { path: "src/utils/helper.ts", size: 300 },
+    { path: "src/gen/client.generated.ts", size: 5 },
+    { path: "package.json", size: 200 },
+    { path: "src/index.ts", size: 50 },
+    { path: "README.md", size: 400 },
+  ];
+
+  it("orders by importance for ranked", () => {
+    expect(orderFiles(files, "ranked").map((f) => f.path)).toEqual([
+      "README.md",
+      "package.json",
+      "src/index.ts",
+      "src/utils/helper.ts",
+      "test/app.test.ts",
+      "src/gen/client.generated.ts",
+    ]);
+  });
+
+  it("orders alphabetically for path", () => {
+    expect(orderFiles(files, "path").map((f) => f.path)).toEqual([
+      "README.md",
+      "package.json",
+      "src/gen/client.generated.ts",
+      "src/index.ts",
+      "src/utils/helper.ts",
+      "test/app.test.ts",
+    ]);
+  });
+
+  it("orders smallest first for size", () => {
+    expect(orderFiles(files, "size").map((f) => f.size)).toEqual([5, 10, 50, 200, 300, 400]);
+  });
+
+  it("does not mutate its input", () => {
+    const copy = [...files];
+    orderFiles(files, "ranked");
+    expect(files).toEqual(copy);
+  });
+});
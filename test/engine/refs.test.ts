@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+import { splitRefAndPath } from "../../src/engine/refs";
+import type { SourceProvider } from "../../src/engine/providers";
+
+/** A provider that lists refs, as GitHub does */
+function listingProvider(refs: string[]): SourceProvider {
+  return {
+    listRefs: vi.fn().mockImplementation(async (_o: string, _r: string, prefix: string) =>
+      refs.filter((ref) => ref.startsWith(prefix))
+    ),
+  } as unknown as SourceProvider;
+}
+
+/** A provider without ref listing, which is probed once per candidate */
+function probingProvider(refs: string[]): SourceProvider {
+  return {
+    resolveRefToSha: vi.fn().mockImplementation(async (_o: string, _r: string, ref: string) =>
+      refs.includes(ref) ? "a".repeat(40) : undefined
+    ),
+  } as unknown as SourceProvider;
+}
+
+describe("splitRefAndPath", () => {
+  const refs = ["main", "release", "release/1.x", "release-notes"];
+
+  it("prefers the longest ref when release and release/1.x both exist", async () => {
+    const split = await splitRefAndPath(listingProvider(refs), "o", "r", "release/1.x/src/lib", false);
+    expect(split).toEqual({ ref: "release/1.x", path: "src/lib" });
+  });
+
+  it("falls back to the shorter ref when the longer name is a directory", async () => {
+    const split = await splitRefAndPath(listingProvider(refs), "o", "r", "release/docs", false);
+    expect(split).toEqual({ ref: "release", path: "docs" });
+  });
+
+  it("takes the whole string as the ref of a tree URL when it names one", async () => {
+    const split = await splitRefAndPath(listingProvider(refs), "o", "r", "release/1.x", false);
+    expect(split).toEqual({ ref: "release/1.x", path: undefined });
+  });
+
+  it("keeps a file path for blob URLs", async () => {
+    const split = await splitRefAndPath(listingProvider(["a/b", "a/b/c.ts"]), "o", "r", "a/b/c.ts", true);
+    expect(split).toEqual({ ref: "a/b", path: "c.ts" });
+  });
+
+  it("keeps the first segment for commit SHAs and unknown refs", async () => {
+    const split = await splitRefAndPath(listingProvider(refs), "o", "r", "abc1234/src", false);
+    expect(split).toEqual({ ref: "abc1234", path: "src" });
+  });
+
+  it("probes every candidate and keeps the longest when the provider cannot list refs", async () => {
+    const provider = probingProvider(refs);
+    const split = await splitRefAndPath(provider, "o", "r", "release/1.x/src", false);
+    expect(split).toEqual({ ref: "release/1.x", path: "src" });
+    expect(provider.resolveRefToSha).toHaveBeenNthCalledWith(1, "o", "r", "release/1.x/src", undefined);
+    expect(provider.resolveRefToSha).toHaveBeenCalledTimes(3);
+  });
+
+  it("probes refs of at most four segments", async () => {
+    const provider = probingProvider(["main"]);
+    const split = await splitRefAndPath(provider, "o", "r", "main/a/b/c/d/e/f", false);
+    expect(split).toEqual({ ref: "main", path: "a/b/c/d/e/f" });
+    expect(provider.resolveRefToSha).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect, vi } from "vitest";
+import { resolveRelease } from "../../src/engine/release";
+import { ParseError, RepoNotFoundError } from "../../src/types";
+import type { SourceProvider } from "../../src/engine/providers";
+
+function makeProvider(fetchRelease: ReturnType<typeof vi.fn>): SourceProvider {
+  return { host: "github.com", fetchRelease } as unknown as SourceProvider;
+}
+
+describe("resolveRelease", () => {
+  it("returns undefined for a tag without a release", async () => {
+    const provider = makeProvider(vi.fn().mockRejectedValue(new RepoNotFoundError("No release")));
+    await expect(resolveRelease(provider, "owner", "repo", "v1.0.0")).resolves.toBeUndefined();
+  });
+
+  it("rethrows when a repository has no latest release", async () => {
+    const provider = makeProvider(vi.fn().mockRejectedValue(new RepoNotFoundError("No releases")));
+    await expect(resolveRelease(provider, "owner", "repo", undefined)).rejects.toThrow(RepoNotFoundError);
+  });
+
+  it("throws ParseError for providers without release support", async () => {
+    const provider = { host: "gitlab.com" } as unknown as SourceProvider;
+    await expect(resolveRelease(provider, "owner", "repo", "v1.0.0")).rejects.toThrow(ParseError);
+  });
+});
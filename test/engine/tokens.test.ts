@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens } from "../../src/engine/tokens";
+
+describe("estimateTokens", () => {
+  it("returns 0 for empty text", () => {
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  it("charges short words one token each", () => {
+    expect(estimateTokens("the cat sat")).toBe(3);
+  });
+
+  it("charges long words one token per four letters", () => {
+    expect(estimateTokens("internationalization")).toBe(5);
+  });
+
+  it("charges each punctuation mark", () => {
+    expect(estimateTokens("a();")).toBe(4);
+  });
+
+  it("charges digit runs one token per three digits", () => {
+    expect(estimateTokens("1234567")).toBe(3);
+  });
+
+  it("charges indentation runs but not single separators", () => {
+    expect(estimateTokens("a\nb")).toBe(2);
+    expect(estimateTokens("a\n       b")).toBe(4);
+  });
+
+  it("charges each non-Latin character", () => {
+    expect(estimateTokens("日本語")).toBe(3);
+  });
+
+  it("lands near the usual four-characters-per-token ratio for code", () => {
+    const code = "export function add(a: number, b: number): number {\n  return a + b;\n}\n";
+    const tokens = estimateTokens(code);
+    expect(tokens).toBeGreaterThan(code.length / 6);
+    expect(tokens).toBeLessThan(code.length / 2);
+  });
+});